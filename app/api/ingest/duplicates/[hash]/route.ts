@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isSessionContentHash } from "@/lib/session-hash";
+import { findSessionByContentHash, resolveSessionIndexOwner } from "@/lib/session-index";
+
+/** Consulta feita pelo upload antes do envio, para avisar sobre gravações já importadas. */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const [{ hash }, owner] = await Promise.all([params, resolveSessionIndexOwner()]);
+
+  if (!owner) {
+    return NextResponse.json({ error: "Autenticação necessária", code: "UNAUTHENTICATED" }, { status: 401 });
+  }
+  if (!isSessionContentHash(hash)) {
+    return NextResponse.json({ error: "Hash de conteúdo inválido", code: "INVALID_REQUEST" }, { status: 400 });
+  }
+
+  return NextResponse.json({ duplicate: await findSessionByContentHash(owner, hash) });
+}
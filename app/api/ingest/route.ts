@@ -1,31 +1,111 @@
 import { NextRequest, NextResponse } from "next/server";
-import {
-  authenticatedPost,
-  AuthenticatedFetchError,
-} from "@/lib/authenticated-fetch";
-import { isRrwebEnvelope } from "@/lib/rrweb";
-import type { SessionJobSubmissionResponse } from "@/types/dashboard";
+import { AuthenticatedFetchError } from "@/lib/authenticated-fetch";
+import { FORCE_DUPLICATE_VALUE, SESSION_DUPLICATE_HEADER } from "@/lib/session-hash";
+import { CANONICAL_IMPORTER_ID, SESSION_FORMAT_HEADER } from "@/lib/session-importers";
+import { resolveSessionIndexOwner } from "@/lib/session-index";
+import { describeIngestError, submitSessionDocument, submitSessionStream } from "@/lib/session-ingest";
+
+// Corpos parseados por inteiro no BFF; envelopes já convertidos seguem em stream, sem este limite.
+const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
+function documentTooLarge() {
+  return NextResponse.json(
+    {
+      error: `O corpo passa do limite de ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB para formatos convertidos no servidor.`,
+      code: "TOO_LARGE",
+    },
+    { status: 413 }
+  );
+}
+
+/**
+ * Lê o corpo contando os bytes, já que o `Content-Length` pode faltar ou não corresponder ao
+ * enviado; null quando passa do limite.
+ */
+async function readDocumentText(body: ReadableStream<Uint8Array>): Promise<string | null> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    loaded += value.byteLength;
+    if (loaded > MAX_DOCUMENT_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const contentType = request.headers.get("content-type") ?? "";
 
-    if (!isRrwebEnvelope(body)) {
+    if (!request.body || !contentType.includes("application/json")) {
       return NextResponse.json(
         {
           error:
-            "Corpo da requisição inválido. Era esperado um objeto com rrweb.events não vazio.",
+            "Corpo da requisição inválido. Era esperado um JSON com rrweb.events não vazio.",
         },
         { status: 400 }
       );
     }
 
-    const response = await authenticatedPost<SessionJobSubmissionResponse>("/ingest", body);
+    const owner = await resolveSessionIndexOwner();
+    const force = request.headers.get(SESSION_DUPLICATE_HEADER) === FORCE_DUPLICATE_VALUE;
+
+    // Integrações externas podem enviar formatos de outras ferramentas: o corpo é parseado e
+    // convertido pelo registro de importadores antes de seguir para o backend.
+    if (request.headers.get(SESSION_FORMAT_HEADER) !== CANONICAL_IMPORTER_ID) {
+      if (Number(request.headers.get("content-length")) > MAX_DOCUMENT_BYTES) {
+        return documentTooLarge();
+      }
+      const text = await readDocumentText(request.body);
+      if (text === null) {
+        return documentTooLarge();
+      }
+
+      let document: unknown;
+      try {
+        document = JSON.parse(text);
+      } catch {
+        return NextResponse.json({ error: "O conteúdo enviado não é um JSON válido." }, { status: 400 });
+      }
+
+      const { response, importer } = await submitSessionDocument(document, { owner, force });
+      return NextResponse.json({ ...response, importer });
+    }
+
+    // O dashboard já converteu o envelope no navegador, então o corpo segue em stream e
+    // gravações grandes não passam inteiras pela memória do BFF; a estrutura e os eventos são
+    // conferidos no caminho, e o hash de conteúdo é recalculado a partir dos eventos.
+    const response = await submitSessionStream(request.body, {
+      owner,
+      force,
+      contentLength: request.headers.get("content-length"),
+    });
 
     return NextResponse.json(response);
   } catch (error) {
     console.error("Erro em /api/ingest:", error);
 
+    const ingestError = describeIngestError(error);
+    if (ingestError) {
+      return NextResponse.json(ingestError.body, { status: ingestError.status });
+    }
+
     if (error instanceof AuthenticatedFetchError) {
       return NextResponse.json(
         {
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  assertChunkRequestSize,
+  describeChunkedUploadError,
+  resolveUploadOwner,
+  writeUploadChunk,
+} from "@/lib/chunked-upload";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string; index: string }> }
+) {
+  try {
+    const [{ uploadId, index }, owner] = await Promise.all([params, resolveUploadOwner()]);
+    await assertChunkRequestSize(uploadId, owner, Number(index), request.headers.get("content-length"));
+    const data = Buffer.from(await request.arrayBuffer());
+
+    await writeUploadChunk(uploadId, owner, Number(index), data, request.headers.get("x-chunk-sha256"));
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    const { body, status } = describeChunkedUploadError(error);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  describeChunkedUploadError,
+  finalizeChunkedUpload,
+  resolveUploadOwner,
+} from "@/lib/chunked-upload";
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const [{ uploadId }, owner] = await Promise.all([params, resolveUploadOwner()]);
+    const body: unknown = await request.json().catch(() => null);
+    const checksum =
+      body && typeof body === "object" && "checksum" in body
+        ? String((body as { checksum?: unknown }).checksum ?? "")
+        : "";
+
+    if (!checksum) {
+      return NextResponse.json(
+        { error: "Checksum do upload ausente", code: "INVALID_REQUEST" },
+        { status: 400 }
+      );
+    }
+
+    // `force` confirma o envio de uma gravação que o índice de hashes já conhece.
+    const force = Boolean(body && typeof body === "object" && "force" in body && body.force === true);
+
+    return NextResponse.json(await finalizeChunkedUpload(uploadId, owner, checksum, { force }));
+  } catch (error) {
+    console.error("Erro ao finalizar upload em partes:", error);
+    const { body, status } = describeChunkedUploadError(error);
+    return NextResponse.json(body, { status });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteChunkedUpload,
+  describeChunkedUploadError,
+  getChunkedUploadStatus,
+  resolveUploadOwner,
+} from "@/lib/chunked-upload";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const [{ uploadId }, owner] = await Promise.all([params, resolveUploadOwner()]);
+    return NextResponse.json(await getChunkedUploadStatus(uploadId, owner));
+  } catch (error) {
+    const { body, status } = describeChunkedUploadError(error);
+    return NextResponse.json(body, { status });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ uploadId: string }> }
+) {
+  try {
+    const [{ uploadId }, owner] = await Promise.all([params, resolveUploadOwner()]);
+    await deleteChunkedUpload(uploadId, owner);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    const { body, status } = describeChunkedUploadError(error);
+    return NextResponse.json(body, { status });
+  }
+}
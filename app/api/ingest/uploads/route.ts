@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createChunkedUpload,
+  describeChunkedUploadError,
+  resolveUploadOwner,
+} from "@/lib/chunked-upload";
+
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await resolveUploadOwner();
+    const body: unknown = await request.json().catch(() => null);
+    const size =
+      body && typeof body === "object" && "size" in body ? Number((body as { size?: unknown }).size) : NaN;
+
+    const upload = await createChunkedUpload(owner, size);
+    return NextResponse.json(upload, { status: 201 });
+  } catch (error) {
+    console.error("Erro ao criar upload em partes:", error);
+    const { body, status } = describeChunkedUploadError(error);
+    return NextResponse.json(body, { status });
+  }
+}
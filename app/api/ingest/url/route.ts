@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AuthenticatedFetchError } from "@/lib/authenticated-fetch";
+import {
+  importRemoteRecording,
+  RemoteImportError,
+  resolveRemoteUrl,
+  resolveServerPiiPatterns,
+} from "@/lib/remote-import";
+import { isRecord } from "@/lib/rrweb";
+import { resolveSessionIndexOwner } from "@/lib/session-index";
+import { describeIngestError } from "@/lib/session-ingest";
+
+/**
+ * Importação por URL: o BFF baixa a gravação de uma origem permitida (ou de um caminho `s3://`)
+ * e a envia pelo mesmo caminho do upload, sem que o arquivo passe pelo navegador.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await resolveSessionIndexOwner();
+    if (!owner) {
+      return NextResponse.json({ error: "Autenticação necessária", code: "UNAUTHENTICATED" }, { status: 401 });
+    }
+
+    const body: unknown = await request.json().catch(() => null);
+    if (!isRecord(body) || typeof body.url !== "string" || !body.url.trim()) {
+      return NextResponse.json({ error: "Informe a URL da gravação", code: "INVALID_REQUEST" }, { status: 400 });
+    }
+
+    const url = resolveRemoteUrl(body.url);
+
+    // Sem revisão no navegador, todas as categorias de dados pessoais encontradas são substituídas.
+    // Os padrões personalizados são os do servidor; os do navegador não são aceitos aqui.
+    const { response, importer, piiReplaced } = await importRemoteRecording(url, {
+      owner,
+      force: body.force === true,
+      sessionMeta: isRecord(body.session_meta) ? body.session_meta : undefined,
+      scrubPii: true,
+      piiPatterns: resolveServerPiiPatterns(),
+    });
+
+    return NextResponse.json({ ...response, importer, pii_replaced: piiReplaced });
+  } catch (error) {
+    console.error("Erro em /api/ingest/url:", error);
+
+    if (error instanceof RemoteImportError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    const ingestError = describeIngestError(error);
+    if (ingestError) {
+      return NextResponse.json(ingestError.body, { status: ingestError.status });
+    }
+
+    if (error instanceof AuthenticatedFetchError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status || 500 });
+    }
+
+    const message = error instanceof Error ? error.message : "Erro desconhecido";
+    return NextResponse.json({ error: `Falha ao importar a sessão da URL: ${message}` }, { status: 500 });
+  }
+}
@@ -1,19 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { auth } from "@/auth";
 import {
   authenticatedGet,
   AuthenticatedFetchError,
 } from "@/lib/authenticated-fetch";
+import { canViewUnredactedSessions } from "@/lib/janus-auth";
+import { redactSessionRawPayload } from "@/lib/privacy";
 
 export async function GET(
   _request: NextRequest,
   { params }: { params: Promise<{ uuid: string }> }
 ) {
   try {
-    const { uuid } = await params;
+    const [{ uuid }, session] = await Promise.all([params, auth()]);
     const response = await authenticatedGet(`/sessions/${uuid}/raw`);
 
-    return NextResponse.json(response);
+    // A redação precisa acontecer aqui: mascarar só no navegador deixaria os valores na resposta.
+    if (canViewUnredactedSessions(session?.roles ?? session?.user?.roles)) {
+      return NextResponse.json(response);
+    }
+    return NextResponse.json(redactSessionRawPayload(response));
   } catch (error) {
     console.error("Erro em /api/sessions/[uuid]/raw:", error);
 
@@ -1,11 +1,14 @@
+import { auth } from "@/auth";
 import { SessionDetailClient } from "@/components/sessions/SessionDetailClient";
+import { canViewUnredactedSessions } from "@/lib/janus-auth";
 
 export default async function SessionDetailPage({
   params,
 }: {
   params: Promise<{ uuid: string }>;
 }) {
-  const { uuid } = await params;
+  const [{ uuid }, session] = await Promise.all([params, auth()]);
+  const roles = session?.roles ?? session?.user?.roles;
 
-  return <SessionDetailClient uuid={uuid} />;
+  return <SessionDetailClient uuid={uuid} canViewUnredacted={canViewUnredactedSessions(roles)} />;
 }
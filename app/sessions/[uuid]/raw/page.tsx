@@ -1,11 +1,14 @@
+import { auth } from "@/auth";
 import { RawSessionClient } from "@/components/sessions/RawSessionClient";
+import { canViewUnredactedSessions } from "@/lib/janus-auth";
 
 export default async function RawSessionPage({
   params,
 }: {
   params: Promise<{ uuid: string }>;
 }) {
-  const { uuid } = await params;
+  const [{ uuid }, session] = await Promise.all([params, auth()]);
+  const roles = session?.roles ?? session?.user?.roles;
 
-  return <RawSessionClient uuid={uuid} />;
+  return <RawSessionClient uuid={uuid} canViewUnredacted={canViewUnredactedSessions(roles)} />;
 }
@@ -0,0 +1,14 @@
+import { auth } from "@/auth";
+import { SessionCompareClient } from "@/components/sessions/SessionCompareClient";
+import { canViewUnredactedSessions } from "@/lib/janus-auth";
+
+export default async function SessionComparePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ a?: string; b?: string }>;
+}) {
+  const [{ a = "", b = "" }, session] = await Promise.all([searchParams, auth()]);
+  const roles = session?.roles ?? session?.user?.roles;
+
+  return <SessionCompareClient a={a} b={b} canViewUnredacted={canViewUnredactedSessions(roles)} />;
+}
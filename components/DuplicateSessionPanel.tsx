@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ArrowRight, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { SessionDuplicateMatch } from '@/types/dashboard';
+
+interface Props {
+  match: SessionDuplicateMatch;
+  onForce: () => void;
+  onCancel: () => void;
+}
+
+function formatImportedAt(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString('pt-BR');
+}
+
+/** Aviso de gravação já importada: abrir a sessão existente evita pagar de novo pela análise. */
+export function DuplicateSessionPanel({ match, onForce, onCancel }: Props) {
+  return (
+    <div className="w-full max-w-lg space-y-4 text-left">
+      <div className="app-callout-info flex items-start gap-3 rounded-xl px-4 py-3 text-sm">
+        <Copy className="mt-0.5 h-4 w-4 shrink-0" />
+        <p>
+          Esta gravação já foi importada em {formatImportedAt(match.created_at)}. Enviar de novo cria outra sessão e
+          repete a análise.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancelar
+        </Button>
+        <Button variant="outline" size="sm" onClick={onForce}>
+          Enviar como nova sessão
+        </Button>
+        <Button size="sm" asChild>
+          <Link href={`/sessions/${match.session_uuid}`}>
+            Abrir sessão existente
+            <ArrowRight className="h-4 w-4" />
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
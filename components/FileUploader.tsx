@@ -1,25 +1,80 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
-import { AlertCircle, CheckCircle, Loader2, UploadCloud } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { AlertCircle, CheckCircle, Copy, Loader2, ShieldAlert, UploadCloud } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
-import type { RrwebSessionEvent, SessionJobSubmissionResponse } from '@/types/dashboard';
-import { normalizeSessionJobSubmission } from '@/lib/normalization';
-import { extractRrwebEvents } from '@/lib/rrweb';
+import type { SessionDuplicateMatch, SessionJobSubmissionResponse } from '@/types/dashboard';
+import { DuplicateSessionPanel } from '@/components/DuplicateSessionPanel';
+import { PiiPatternSettings } from '@/components/PiiPatternSettings';
+import { PiiReviewPanel } from '@/components/PiiReviewPanel';
+import { RrwebValidationReportPanel } from '@/components/RrwebValidationReportPanel';
+import { SessionUploadQueue } from '@/components/SessionUploadQueue';
+import { useSessionUploadQueue } from '@/components/useSessionUploadQueue';
+import {
+  collectDroppedFiles,
+  formatFileSize,
+  isSupportedSessionFileName,
+  SESSION_FILE_ACCEPT,
+} from '@/lib/session-file';
+import { parsePiiPatterns, readStoredPiiPatterns } from '@/lib/pii-patterns';
+import type { PiiCategoryId, PiiScanReport } from '@/lib/pii-scrubber';
+import type { RrwebValidationReport } from '@/lib/rrweb-validation';
+import type { SessionImporterInfo } from '@/lib/session-importers';
+import {
+  countResumableUploads,
+  ingestSessionFile,
+  SessionDuplicateError,
+  SessionUploadError,
+  SessionValidationError,
+  type UploadProgress,
+} from '@/lib/session-upload';
 
 interface Props {
-  onFileLoaded: (events: RrwebSessionEvent[], submission: SessionJobSubmissionResponse) => void;
+  onFileLoaded: (submission: SessionJobSubmissionResponse) => void;
+  // Valida o formulário de metadados antes do envio; `null` cancela o upload.
+  resolveSessionMeta?: () => Promise<Record<string, unknown> | null>;
 }
 
-type UploadState = 'idle' | 'validating' | 'uploading' | 'success' | 'error';
+type UploadState = 'idle' | 'validating' | 'reviewing' | 'duplicate' | 'uploading' | 'success' | 'error';
 
-export function FileUploader({ onFileLoaded }: Props) {
+interface PendingPiiReview {
+  report: PiiScanReport;
+  resolve: (categories: PiiCategoryId[] | null) => void;
+}
+
+interface PendingDuplicate {
+  match: SessionDuplicateMatch;
+  // true envia como nova sessão.
+  resolve: (force: boolean) => void;
+}
+
+// O localStorage só é lido no cliente; no servidor não há envios a retomar.
+const subscribeToStorage = (onChange: () => void) => {
+  window.addEventListener('storage', onChange);
+  return () => window.removeEventListener('storage', onChange);
+};
+
+export function FileUploader({ onFileLoaded, resolveSessionMeta }: Props) {
+  const resumableCount = useSyncExternalStore(subscribeToStorage, countResumableUploads, () => 0);
   const [uploadState, setUploadState] = useState<UploadState>('idle');
   const [errorMessage, setErrorMessage] = useState('');
+  const [validationReport, setValidationReport] = useState<RrwebValidationReport | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [eventCount, setEventCount] = useState(0);
+  const [importer, setImporter] = useState<SessionImporterInfo | null>(null);
+  const [skippedCount, setSkippedCount] = useState(0);
+  const [piiReview, setPiiReview] = useState<PendingPiiReview | null>(null);
+  const [duplicatePrompt, setDuplicatePrompt] = useState<PendingDuplicate | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const queue = useSessionUploadQueue();
+
+  // Cancela leitura e envio pendentes se o usuário sair da página no meio do upload.
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const clearError = useCallback(() => {
     setErrorMessage('');
+    setValidationReport(null);
     setUploadState('idle');
   }, []);
 
@@ -28,16 +83,50 @@ export function FileUploader({ onFileLoaded }: Props) {
     setUploadState('error');
   }, []);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) {
+  // Um arquivo segue o fluxo único com redirecionamento; vários (ou uma pasta) vão para a fila.
+  const handleFiles = async (files: File[], fromFolder = false) => {
+    if (files.length === 0) {
       return;
     }
 
-    void processFile(file);
+    const sessionMeta = resolveSessionMeta ? await resolveSessionMeta() : undefined;
+    if (sessionMeta === null) {
+      showError('Revise os dados da sessão antes de enviar o arquivo.');
+      return;
+    }
+
+    const { patterns: piiPatterns } = parsePiiPatterns(readStoredPiiPatterns());
+
+    if (files.length === 1 && !fromFolder) {
+      void processFile(files[0], sessionMeta, piiPatterns);
+      return;
+    }
+
+    const supported = files.filter((file) => isSupportedSessionFileName(file.name));
+    if (supported.length === 0) {
+      showError('Nenhum arquivo .json, .ndjson ou .jsonl (opcionalmente em .gz) foi encontrado.');
+      return;
+    }
+
+    setSkippedCount((current) => current + files.length - supported.length);
+    queue.enqueue(supported, sessionMeta, piiPatterns);
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    void handleFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  const handleFolderChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    void handleFiles(Array.from(event.target.files ?? []), true);
     event.target.value = '';
   };
 
+  const clearQueue = () => {
+    queue.clear();
+    setSkippedCount(0);
+  };
+
   const handleDragOver = (event: React.DragEvent) => {
     event.preventDefault();
     setIsDragging(true);
@@ -52,97 +141,95 @@ export function FileUploader({ onFileLoaded }: Props) {
     event.preventDefault();
     setIsDragging(false);
 
-    const file = event.dataTransfer.files?.[0];
-    if (!file) {
-      return;
-    }
+    const hasFolder = Array.from(event.dataTransfer.items).some((item) => item.webkitGetAsEntry()?.isDirectory);
+    void collectDroppedFiles(event.dataTransfer).then((files) => handleFiles(files, hasFolder));
+  };
 
-    void processFile(file);
+  // O worker pausa até o usuário decidir quais categorias de dados pessoais substituir.
+  const reviewPii = (report: PiiScanReport) =>
+    new Promise<PiiCategoryId[] | null>((resolve) => {
+      setPiiReview({ report, resolve });
+      setUploadState('reviewing');
+    });
+
+  const resolvePiiReview = (categories: PiiCategoryId[] | null) => {
+    piiReview?.resolve(categories);
+    setPiiReview(null);
+    setUploadState(categories ? 'validating' : 'idle');
   };
 
-  const processFile = async (file: File) => {
-    if (file.type !== 'application/json' && !file.name.endsWith('.json')) {
-      showError('Por favor, envie apenas arquivos .json');
-      return;
-    }
+  // O envio pausa até o usuário decidir entre abrir a sessão existente ou criar outra.
+  const confirmDuplicate = (match: SessionDuplicateMatch) =>
+    new Promise<boolean>((resolve) => {
+      setDuplicatePrompt({ match, resolve });
+      setUploadState('duplicate');
+    });
+
+  const resolveDuplicate = (force: boolean) => {
+    duplicatePrompt?.resolve(force);
+    setDuplicatePrompt(null);
+    setUploadState(force ? 'uploading' : 'idle');
+  };
 
-    setUploadState('validating');
+  const processFile = async (
+    file: File,
+    sessionMeta: Record<string, unknown> | undefined,
+    piiPatterns: string[],
+    force = false
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setErrorMessage('');
+    setValidationReport(null);
+    setImporter(null);
+
+    try {
+      const submission = await ingestSessionFile(file, {
+        sessionMeta,
+        piiPatterns,
+        onPiiReview: reviewPii,
+        onImported: setImporter,
+        onDuplicate: confirmDuplicate,
+        force,
+        onStage: (stage, count) => {
+          setUploadState(stage);
+          setEventCount(count);
+        },
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+
+      setUploadState('success');
+      onFileLoaded(submission);
+    } catch (error) {
+      if (error instanceof SessionUploadError && error.aborted) {
+        return;
+      }
 
-    const reader = new FileReader();
-
-    reader.onload = async (event) => {
-      try {
-        const text = String(event.target?.result ?? '');
-
-        let parsed: unknown;
-        try {
-          // Validamos o JSON localmente antes de bater na API para falhar rápido e com mensagem clara.
-          parsed = JSON.parse(text);
-        } catch {
-          showError('Erro ao processar o arquivo. Verifique se é um JSON válido.');
-          return;
-        }
-
-        const rrwebEvents = extractRrwebEvents(parsed);
-        if (!rrwebEvents) {
-          showError('Estrutura de JSON inválida. Esperado um objeto com rrweb.events não vazio.');
-          return;
-        }
-
-        setUploadState('uploading');
-
-        try {
-          // O upload envia o envelope bruto para preservar os metadados da sessão.
-          const response = await fetch('/api/ingest', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: text,
-          });
-
-          const data: unknown = await response.json().catch(() => ({}));
-          const submission = normalizeSessionJobSubmission(data);
-
-          if (!response.ok || !submission) {
-            const message =
-              data && typeof data === 'object' && 'error' in data && typeof (data as { error?: unknown }).error === 'string'
-                ? (data as { error: string }).error
-                : `Erro ao enviar arquivo: ${response.status}`;
-
-            if (response.status === 502 || response.status === 503) {
-              showError('A API está indisponível. Tente novamente mais tarde.');
-            } else if (response.status === 401 || response.status === 403) {
-              showError(message || 'Acesso negado. Verifique sua autenticação e permissões.');
-            } else {
-              showError(message);
+      // Outro envio do mesmo arquivo terminou entre a consulta e o upload: o BFF recusou com 409.
+      if (error instanceof SessionDuplicateError) {
+        setDuplicatePrompt({
+          match: error.match,
+          resolve: (confirmed) => {
+            if (confirmed) {
+              void processFile(file, sessionMeta, piiPatterns, true);
             }
-            return;
-          }
-
-          setUploadState('success');
-          onFileLoaded(rrwebEvents as RrwebSessionEvent[], submission);
-        } catch (fetchError) {
-          console.error('Erro ao enviar para API', fetchError);
-
-          if (fetchError instanceof TypeError && fetchError.message.includes('fetch')) {
-            showError('Não foi possível conectar à API. Verifique sua conexão.');
-          } else {
-            showError('Erro inesperado ao enviar arquivo. Tente novamente.');
-          }
-        }
-      } catch (error) {
-        console.error('Erro ao processar JSON', error);
-        showError('Erro inesperado ao processar o arquivo.');
+          },
+        });
+        setUploadState('duplicate');
+        return;
       }
-    };
 
-    reader.onerror = () => {
-      showError('Erro ao ler o arquivo. Tente novamente.');
-    };
-
-    reader.readAsText(file);
+      if (error instanceof SessionValidationError) {
+        setValidationReport(error.report);
+      }
+      console.error('Erro ao processar arquivo de sessão', error);
+      showError(error instanceof Error && error.message ? error.message : 'Erro inesperado ao processar o arquivo.');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
   };
 
   const renderIcon = () => {
@@ -150,6 +237,10 @@ export function FileUploader({ onFileLoaded }: Props) {
       case 'validating':
       case 'uploading':
         return <Loader2 className="app-icon-accent h-8 w-8 animate-spin" />;
+      case 'duplicate':
+        return <Copy className="h-8 w-8 text-[var(--status-queued-text)]" />;
+      case 'reviewing':
+        return <ShieldAlert className="h-8 w-8 text-[var(--status-error-text)]" />;
       case 'success':
         return <CheckCircle className="h-8 w-8 text-[var(--status-success-text)]" />;
       case 'error':
@@ -162,15 +253,49 @@ export function FileUploader({ onFileLoaded }: Props) {
   const renderStatusMessage = () => {
     switch (uploadState) {
       case 'validating':
-        return <p className="app-text-soft text-sm">Validando arquivo...</p>;
+        return <p className="app-text-soft text-sm">Lendo e validando arquivo...</p>;
+      case 'reviewing':
+        return piiReview ? (
+          <PiiReviewPanel
+            report={piiReview.report}
+            onConfirm={(categories) => resolvePiiReview(categories)}
+            onCancel={() => resolvePiiReview(null)}
+          />
+        ) : null;
+      case 'duplicate':
+        return duplicatePrompt ? (
+          <DuplicateSessionPanel
+            match={duplicatePrompt.match}
+            onForce={() => resolveDuplicate(true)}
+            onCancel={() => resolveDuplicate(false)}
+          />
+        ) : null;
       case 'uploading':
-        return <p className="app-text-soft text-sm">Enviando sessão para ingestão assíncrona...</p>;
+        return (
+          <div className="text-center">
+            <p className="app-text-soft text-sm">
+              Enviando {eventCount.toLocaleString('pt-BR')} eventos para ingestão assíncrona...
+            </p>
+            {importer && <p className="app-text-muted mt-1 text-xs">Formato detectado: {importer.label}</p>}
+          </div>
+        );
       case 'success':
-        return <p className="text-sm text-[var(--status-success-text)]">Sessão enviada. O worker irá processar em segundo plano.</p>;
-      case 'error':
         return (
           <div className="text-center">
-            <p className="mb-2 text-sm text-[var(--status-error-text)]">{errorMessage}</p>
+            <p className="text-sm text-[var(--status-success-text)]">Sessão enviada. O worker irá processar em segundo plano.</p>
+            {importer && <p className="app-text-muted mt-1 text-xs">Formato detectado: {importer.label}</p>}
+          </div>
+        );
+      case 'error':
+        return (
+          <div className="flex w-full flex-col items-center text-center">
+            {validationReport ? (
+              <div className="mb-3 flex w-full justify-center">
+                <RrwebValidationReportPanel report={validationReport} />
+              </div>
+            ) : (
+              <p className="mb-2 text-sm text-[var(--status-error-text)]">{errorMessage}</p>
+            )}
             <button onClick={clearError} className="app-icon-accent text-sm hover:underline">
               Tentar novamente
             </button>
@@ -179,13 +304,40 @@ export function FileUploader({ onFileLoaded }: Props) {
       default:
         return (
           <p className="app-text-soft mb-6 text-sm">
-            Arraste seu arquivo <code className="app-code rounded px-1 py-0.5">.json</code> aqui ou clique para selecionar.
+            Arraste arquivos <code className="app-code rounded px-1 py-0.5">.json</code>,{' '}
+            <code className="app-code rounded px-1 py-0.5">.ndjson</code> ou{' '}
+            <code className="app-code rounded px-1 py-0.5">.gz</code> (ou uma pasta inteira) aqui ou clique para selecionar.
+            <span className="mt-2 block text-xs">
+              Também aceita listas de eventos rrweb, eventos compactados com o pack do rrweb e exports do PostHog.
+            </span>
+            {resumableCount > 0 && (
+              <span className="mt-2 block text-xs text-[var(--status-queued-text)]">
+                {resumableCount} envio(s) interrompido(s): selecione o mesmo arquivo para retomar de onde parou.
+              </span>
+            )}
           </p>
         );
     }
   };
 
-  const isProcessing = uploadState === 'validating' || uploadState === 'uploading';
+  const isProcessing =
+    uploadState === 'validating' ||
+    uploadState === 'reviewing' ||
+    uploadState === 'duplicate' ||
+    uploadState === 'uploading';
+  const percent = progress && progress.total > 0 ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : 0;
+
+  if (queue.items.length > 0) {
+    return (
+      <SessionUploadQueue
+        items={queue.items}
+        skippedCount={skippedCount}
+        onRetry={queue.retry}
+        onForceDuplicates={queue.forceDuplicates}
+        onClear={clearQueue}
+      />
+    );
+  }
 
   return (
     <div className="w-full flex justify-center">
@@ -209,29 +361,59 @@ export function FileUploader({ onFileLoaded }: Props) {
             {renderStatusMessage()}
 
             {uploadState === 'idle' && (
-              <>
+              <div className="flex flex-wrap justify-center gap-2">
                 <label
                   htmlFor="file-upload"
                   className="cursor-pointer rounded-md bg-primary px-4 py-2 text-sm font-medium text-primary-foreground transition-colors hover:bg-primary/90"
                 >
-                  Selecionar Arquivo
+                  Selecionar Arquivos
                 </label>
                 <input
                   id="file-upload"
                   type="file"
-                  accept=".json"
+                  accept={SESSION_FILE_ACCEPT}
+                  multiple
                   className="hidden"
                   onChange={handleFileChange}
                   disabled={isProcessing}
                 />
-              </>
+                <label
+                  htmlFor="folder-upload"
+                  className="app-outline-action cursor-pointer rounded-md border px-4 py-2 text-sm font-medium transition-colors"
+                >
+                  Selecionar Pasta
+                </label>
+                <input
+                  id="folder-upload"
+                  type="file"
+                  // `webkitdirectory` não está na tipagem do React, então é aplicado direto no nó.
+                  ref={(node) => node?.setAttribute('webkitdirectory', '')}
+                  className="hidden"
+                  onChange={handleFolderChange}
+                  disabled={isProcessing}
+                />
+              </div>
             )}
 
-            {isProcessing && (
+            {uploadState === 'idle' && <PiiPatternSettings />}
+
+            {isProcessing && uploadState !== 'reviewing' && uploadState !== 'duplicate' && progress && (
               <div className="mt-2 w-full max-w-xs">
-                <div className="app-progress-track h-1.5 overflow-hidden rounded-full">
-                  <div className="h-full w-full animate-pulse bg-gradient-to-r from-[var(--status-queued-border)] to-[var(--status-success-border)]" />
+                <div
+                  className="app-progress-track h-1.5 overflow-hidden rounded-full"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={percent}
+                >
+                  <div
+                    className="h-full bg-gradient-to-r from-[var(--status-queued-border)] to-[var(--status-success-border)] transition-[width]"
+                    style={{ width: `${percent}%` }}
+                  />
                 </div>
+                <p className="app-text-muted mt-2 text-xs tabular-nums">
+                  {percent}% · {formatFileSize(progress.loaded)} de {formatFileSize(progress.total)}
+                </p>
               </div>
             )}
           </div>
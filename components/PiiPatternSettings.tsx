@@ -0,0 +1,32 @@
+'use client';
+
+import React, { useSyncExternalStore } from 'react';
+import { parsePiiPatterns, readStoredPiiPatterns, saveStoredPiiPatterns, subscribeToPiiPatterns } from '@/lib/pii-patterns';
+
+/** Expressões regulares extras procuradas pela remoção de dados pessoais, uma por linha. */
+export function PiiPatternSettings() {
+  const value = useSyncExternalStore(subscribeToPiiPatterns, readStoredPiiPatterns, () => '');
+  const { patterns, errors } = parsePiiPatterns(value);
+
+  return (
+    <details className="mt-4 w-full max-w-md text-left">
+      <summary className="app-text-soft cursor-pointer text-xs">
+        Padrões personalizados de dados pessoais{patterns.length > 0 ? ` (${patterns.length})` : ''}
+      </summary>
+      <textarea
+        value={value}
+        onChange={(event) => saveStoredPiiPatterns(event.target.value)}
+        rows={3}
+        spellCheck={false}
+        placeholder={'Uma expressão regular por linha, ex.: MAT-\\d{6}'}
+        aria-label="Padrões personalizados de dados pessoais"
+        className="app-outline-action mt-2 w-full rounded-md px-3 py-2 font-mono text-xs outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+      />
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-[var(--status-error-text)]">
+          {error}
+        </p>
+      ))}
+    </details>
+  );
+}
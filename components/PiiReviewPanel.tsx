@@ -0,0 +1,68 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PiiCategoryId, PiiScanReport } from '@/lib/pii-scrubber';
+
+interface Props {
+  report: PiiScanReport;
+  onConfirm: (categories: PiiCategoryId[]) => void;
+  onCancel: () => void;
+}
+
+/** Revisão dos dados pessoais encontrados antes de o arquivo sair da máquina do auditor. */
+export function PiiReviewPanel({ report, onConfirm, onCancel }: Props) {
+  const [selected, setSelected] = useState<PiiCategoryId[]>(() => report.categories.map((category) => category.id));
+
+  const toggle = (id: PiiCategoryId) => {
+    setSelected((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+  };
+
+  return (
+    <div className="w-full max-w-lg space-y-4 text-left">
+      <div className="app-callout-error flex items-start gap-3 rounded-xl px-4 py-3 text-sm">
+        <ShieldAlert className="mt-0.5 h-4 w-4 shrink-0" />
+        <p>
+          {report.total} possíveis dados pessoais encontrados em textos, atributos e inputs da gravação. As
+          categorias marcadas serão substituídas por asteriscos antes do envio.
+        </p>
+      </div>
+
+      <ul className="space-y-2">
+        {report.categories.map((category) => (
+          <li key={category.id} className="app-panel-muted rounded-xl px-4 py-3">
+            <label className="flex cursor-pointer items-center justify-between gap-3">
+              <span className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(category.id)}
+                  onChange={() => toggle(category.id)}
+                  className="h-4 w-4 accent-primary"
+                />
+                <span className="app-heading text-sm font-medium">{category.label}</span>
+              </span>
+              <span className="app-text-soft text-xs tabular-nums">{category.count} ocorrência(s)</span>
+            </label>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {category.samples.map((sample) => (
+                <code key={sample} className="app-code max-w-full truncate rounded px-1.5 py-0.5 text-xs">
+                  {sample}
+                </code>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>
+          Cancelar envio
+        </Button>
+        <Button size="sm" onClick={() => onConfirm(selected)}>
+          {selected.length > 0 ? 'Substituir e enviar' : 'Enviar sem substituir'}
+        </Button>
+      </div>
+    </div>
+  );
+}
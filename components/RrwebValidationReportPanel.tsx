@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { FileWarning } from 'lucide-react';
+import type { RrwebValidationIssue, RrwebValidationReport } from '@/lib/rrweb-validation';
+
+interface Props {
+  report: RrwebValidationReport;
+}
+
+function describeLocation(issue: RrwebValidationIssue): string {
+  const event = issue.eventIndex === null ? 'Gravação' : `Evento #${issue.eventIndex}`;
+  return issue.path ? `${event} · ${issue.path}` : event;
+}
+
+/** Problemas encontrados na validação do envelope, com o índice do evento para localizar no arquivo. */
+export function RrwebValidationReportPanel({ report }: Props) {
+  const hiddenCount = report.issueCount - report.issues.length;
+
+  return (
+    <div className="w-full max-w-lg space-y-3 text-left">
+      <div className="app-callout-error flex items-start gap-3 rounded-xl px-4 py-3 text-sm">
+        <FileWarning className="mt-0.5 h-4 w-4 shrink-0" />
+        <p>
+          O arquivo não é uma gravação rrweb válida: {report.issueCount} problema(s) em{' '}
+          {report.eventCount.toLocaleString('pt-BR')} eventos. Corrija a exportação e envie de novo.
+        </p>
+      </div>
+
+      <ul className="app-panel-muted max-h-64 divide-y overflow-y-auto rounded-xl text-xs">
+        {report.issues.map((issue, index) => (
+          <li key={`${issue.eventIndex}-${issue.path}-${index}`} className="space-y-0.5 px-4 py-2">
+            <p className="app-heading font-medium tabular-nums">{describeLocation(issue)}</p>
+            <p className="app-text-soft">{issue.message}</p>
+          </li>
+        ))}
+      </ul>
+
+      {hiddenCount > 0 && (
+        <p className="app-text-muted text-xs">
+          Mais {hiddenCount} problema(s) não listado(s). Os primeiros costumam explicar os seguintes.
+        </p>
+      )}
+    </div>
+  );
+}
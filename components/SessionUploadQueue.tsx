@@ -0,0 +1,177 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { ArrowRight, Copy, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { formatFileSize } from '@/lib/session-file';
+import type { QueueItemStatus, SessionUploadQueueItem } from '@/components/useSessionUploadQueue';
+
+interface Props {
+  items: SessionUploadQueueItem[];
+  skippedCount: number;
+  onRetry: (ids: string[]) => void;
+  onForceDuplicates: (ids: string[]) => void;
+  onClear: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: 'Na fila',
+  validating: 'Validando',
+  uploading: 'Enviando',
+  success: 'Importada',
+  duplicate: 'Duplicada',
+  error: 'Falhou',
+};
+
+function statusClassName(status: QueueItemStatus): string {
+  switch (status) {
+    case 'success':
+      return 'app-status-success';
+    case 'error':
+      return 'app-status-error';
+    case 'validating':
+    case 'uploading':
+      return 'app-status-processing';
+    default:
+      return 'app-status-queued';
+  }
+}
+
+function itemPercent(item: SessionUploadQueueItem): number {
+  if (item.status === 'success') {
+    return 100;
+  }
+  if (!item.progress || item.progress.total <= 0) {
+    return 0;
+  }
+  return Math.min(100, Math.round((item.progress.loaded / item.progress.total) * 100));
+}
+
+export function SessionUploadQueue({ items, skippedCount, onRetry, onForceDuplicates, onClear }: Props) {
+  const succeeded = items.filter((item) => item.status === 'success');
+  const failedIds = items.filter((item) => item.status === 'error').map((item) => item.id);
+  const duplicateIds = items.filter((item) => item.status === 'duplicate').map((item) => item.id);
+  const isFinished = items.every(
+    (item) => item.status === 'success' || item.status === 'duplicate' || item.status === 'error'
+  );
+
+  return (
+    <div className="w-full flex justify-center">
+      <Card className="app-panel w-full max-w-2xl py-0">
+        <CardContent className="space-y-4 p-6 md:p-8">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h3 className="app-heading text-lg font-semibold">Importação em lote</h3>
+              <p className="app-text-soft text-sm">
+                {succeeded.length} de {items.length} sessões importadas
+                {failedIds.length > 0 ? ` · ${failedIds.length} com falha` : ''}
+                {duplicateIds.length > 0 ? ` · ${duplicateIds.length} já importada(s) antes` : ''}
+                {skippedCount > 0 ? ` · ${skippedCount} arquivo(s) ignorado(s) por formato` : ''}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {duplicateIds.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onForceDuplicates(duplicateIds)} disabled={!isFinished}>
+                  <Copy className="h-4 w-4" />
+                  Enviar duplicadas
+                </Button>
+              )}
+              {failedIds.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => onRetry(failedIds)} disabled={!isFinished}>
+                  <RotateCcw className="h-4 w-4" />
+                  Repetir falhas
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={onClear}>
+                {isFinished ? 'Nova importação' : 'Cancelar'}
+              </Button>
+            </div>
+          </div>
+
+          <ul className="app-divider max-h-[28rem] overflow-y-auto rounded-xl border">
+            {items.map((item) => (
+              <li key={item.id} className="app-divider space-y-2 border-b px-4 py-3 last:border-b-0">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="app-heading truncate text-sm font-medium" title={item.name}>
+                      {item.name}
+                    </p>
+                    <p className="app-text-muted text-xs">
+                      {formatFileSize(item.size)}
+                      {item.eventCount > 0 ? ` · ${item.eventCount.toLocaleString('pt-BR')} eventos` : ''}
+                      {item.importerLabel ? ` · ${item.importerLabel}` : ''}
+                      {item.piiReplaced > 0 ? ` · ${item.piiReplaced} dado(s) pessoal(is) substituído(s)` : ''}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <span className={`${statusClassName(item.status)} rounded-full px-2 py-0.5 text-xs font-medium`}>
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                    {item.status === 'error' && (
+                      <Button variant="ghost" size="sm" onClick={() => onRetry([item.id])} aria-label={`Repetir ${item.name}`}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {(item.status === 'validating' || item.status === 'uploading') && (
+                  <div className="app-progress-track h-1 overflow-hidden rounded-full">
+                    <div
+                      className="h-full bg-gradient-to-r from-[var(--status-queued-border)] to-[var(--status-success-border)] transition-[width]"
+                      style={{ width: `${itemPercent(item)}%` }}
+                    />
+                  </div>
+                )}
+
+                {item.duplicate && (
+                  <p className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-[var(--status-queued-text)]">
+                    Esta gravação já foi importada.
+                    <Link
+                      href={`/sessions/${item.duplicate.session_uuid}`}
+                      className="app-icon-accent inline-flex items-center gap-1 font-medium hover:underline"
+                    >
+                      Abrir sessão existente
+                      <ArrowRight className="h-3 w-3" />
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => onForceDuplicates([item.id])}
+                      className="app-icon-accent font-medium hover:underline"
+                    >
+                      Enviar como nova sessão
+                    </button>
+                  </p>
+                )}
+
+                {item.error && <p className="text-xs text-[var(--status-error-text)]">{item.error}</p>}
+              </li>
+            ))}
+          </ul>
+
+          {isFinished && succeeded.length > 0 && (
+            <div className="app-callout-info rounded-xl px-4 py-3 text-sm">
+              <p className="mb-2 font-medium">Sessões criadas</p>
+              <ul className="space-y-1">
+                {succeeded.map((item) => (
+                  <li key={item.id} className="flex flex-wrap items-center gap-2">
+                    <Link
+                      href={`/sessions/${item.submission?.session_uuid}`}
+                      className="app-icon-accent inline-flex items-center gap-1 font-medium hover:underline"
+                    >
+                      {item.submission?.session_uuid}
+                      <ArrowRight className="h-3 w-3" />
+                    </Link>
+                    <span className="app-text-muted truncate text-xs">{item.name}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
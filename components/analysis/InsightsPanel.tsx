@@ -7,7 +7,7 @@ import type {
   SessionProcessResponse,
 } from "@/types/dashboard";
 import { safeNumber, safeString } from "@/lib/normalization";
-import { AlertTriangle, BarChart3, Clock3 } from "lucide-react";
+import { AlertTriangle, BarChart3, Clock3, Repeat } from "lucide-react";
 import { SemanticDiagnostics } from "./SemanticDiagnostics";
 import { JsonDataCard } from "./JsonDataCard";
 
@@ -17,6 +17,7 @@ interface Props {
   processingStatus: ProcessingStatus;
   processingError?: string | null;
   onReprocess?: () => void;
+  onLoopInsight?: (insight: InsightEvent) => void;
 }
 
 function formatInsightLabel(insight: InsightEvent): string {
@@ -93,6 +94,7 @@ export function InsightsPanel({
   processingStatus,
   processingError,
   onReprocess,
+  onLoopInsight,
 }: Props) {
   const insights = result?.insights ?? [];
   const activeInsights = insights.filter((insight) => Math.abs(insight.timestamp - currentTime) < 1000);
@@ -197,7 +199,20 @@ export function InsightsPanel({
                               {formatInsightLabel(insight)}
                             </Badge>
                           </div>
-                          <span className="text-[10px] text-muted-foreground">{insight.timestamp}ms</span>
+                          <div className="flex items-center gap-2">
+                            {onLoopInsight && (
+                              <button
+                                type="button"
+                                onClick={() => onLoopInsight(insight)}
+                                className="inline-flex items-center gap-1 rounded-md border border-border/60 px-2 py-0.5 text-[10px] text-muted-foreground transition-colors hover:app-hover-surface"
+                                title="Repetir 3s antes e depois do insight"
+                              >
+                                <Repeat className="h-3 w-3" />
+                                Repetir trecho
+                              </button>
+                            )}
+                            <span className="text-[10px] text-muted-foreground">{insight.timestamp}ms</span>
+                          </div>
                         </div>
                         <p className="mt-3 text-sm leading-relaxed text-foreground">{insight.message}</p>
                         {insight.boundingBox && (
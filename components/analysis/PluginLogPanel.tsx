@@ -0,0 +1,163 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Globe, Terminal } from "lucide-react";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  PLUGIN_LOG_LEVELS,
+  type PluginLogEntry,
+  type PluginLogLevel,
+} from "@/lib/plugin-events";
+
+interface Props {
+  entries: PluginLogEntry[];
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+// Entradas a até 1,5s do tempo atual ficam destacadas como "próximas".
+const NEAR_WINDOW_MS = 1500;
+
+const LEVEL_LABELS: Record<PluginLogLevel, string> = {
+  error: "Erro",
+  warn: "Aviso",
+  info: "Info",
+  log: "Log",
+  debug: "Debug",
+};
+
+function levelClassName(level: PluginLogLevel): string {
+  switch (level) {
+    case "error":
+      return "app-status-error";
+    case "warn":
+      return "app-status-processing";
+    case "info":
+      return "app-status-queued";
+    default:
+      return "app-status-neutral";
+  }
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+  return `${minutes.toString().padStart(2, "0")}:${seconds}`;
+}
+
+export function PluginLogPanel({ entries, currentTime, onSeek }: Props) {
+  const [hiddenLevels, setHiddenLevels] = useState<PluginLogLevel[]>([]);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<PluginLogLevel, number> = { error: 0, warn: 0, info: 0, log: 0, debug: 0 };
+    for (const entry of entries) {
+      counts[entry.level] += 1;
+    }
+    return counts;
+  }, [entries]);
+
+  const visibleEntries = useMemo(
+    () => entries.filter((entry) => !hiddenLevels.includes(entry.level)),
+    [entries, hiddenLevels]
+  );
+
+  const firstNearId =
+    visibleEntries.find((entry) => Math.abs(entry.offset - currentTime) <= NEAR_WINDOW_MS)?.id ?? null;
+
+  // Acompanha o replay rolando a lista até a primeira entrada próxima do tempo atual.
+  useEffect(() => {
+    if (!firstNearId) {
+      return;
+    }
+
+    const item = listRef.current?.querySelector<HTMLElement>(`[data-entry-id="${firstNearId}"]`);
+    item?.scrollIntoView({ block: "nearest" });
+  }, [firstNearId]);
+
+  function toggleLevel(level: PluginLogLevel) {
+    setHiddenLevels((current) =>
+      current.includes(level) ? current.filter((item) => item !== level) : [...current, level]
+    );
+  }
+
+  return (
+    <Card className="app-panel-muted gap-0 overflow-hidden py-0">
+      <CardHeader className="app-divider border-b !py-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="app-heading flex items-center gap-2 text-sm font-semibold uppercase tracking-wider">
+            <Terminal className="app-icon-accent h-4 w-4" />
+            Console e rede
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-1" role="group" aria-label="Filtrar por nível">
+            {PLUGIN_LOG_LEVELS.map((level) => {
+              const isVisible = !hiddenLevels.includes(level);
+
+              return (
+                <button
+                  key={level}
+                  type="button"
+                  onClick={() => toggleLevel(level)}
+                  aria-pressed={isVisible}
+                  className={`rounded-full border px-2 py-0.5 text-[10px] font-medium uppercase tracking-[0.14em] transition-opacity ${levelClassName(level)} ${
+                    isVisible ? "" : "opacity-40"
+                  }`}
+                >
+                  {LEVEL_LABELS[level]} · {levelCounts[level]}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0">
+        {entries.length === 0 ? (
+          <p className="app-text-soft px-6 py-4 text-sm">
+            A gravação não contém eventos dos plugins de console ou rede do rrweb.
+          </p>
+        ) : visibleEntries.length === 0 ? (
+          <p className="app-text-soft px-6 py-4 text-sm">Nenhuma entrada nos níveis selecionados.</p>
+        ) : (
+          <ol ref={listRef} className="max-h-80 divide-y divide-white/10 overflow-y-auto font-mono text-xs">
+            {visibleEntries.map((entry) => {
+              const isNear = Math.abs(entry.offset - currentTime) <= NEAR_WINDOW_MS;
+
+              return (
+                <li key={entry.id} data-entry-id={entry.id}>
+                  <button
+                    type="button"
+                    onClick={() => onSeek(entry.offset)}
+                    title={entry.detail || undefined}
+                    className={`flex w-full items-start gap-3 px-4 py-2 text-left transition-colors ${
+                      isNear ? "app-hover-surface" : "hover:app-hover-surface"
+                    }`}
+                  >
+                    <span className={`shrink-0 pt-0.5 text-[10px] ${isNear ? "app-icon-accent" : "app-text-muted"}`}>
+                      {formatOffset(entry.offset)}
+                    </span>
+                    <span
+                      className={`shrink-0 rounded-full border px-1.5 py-0.5 text-[9px] uppercase ${levelClassName(entry.level)}`}
+                    >
+                      {entry.kind === "network" ? <Globe className="inline h-2.5 w-2.5" /> : LEVEL_LABELS[entry.level]}
+                    </span>
+                    <span className="min-w-0 flex-1">
+                      <span className="app-heading block break-all">{entry.message}</span>
+                      {entry.detail && (
+                        <span className="app-text-soft mt-0.5 block truncate text-[10px]">
+                          {entry.detail.split("\n")[0]}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
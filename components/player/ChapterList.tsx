@@ -0,0 +1,77 @@
+'use client';
+
+import React from 'react';
+import { BookOpen, MousePointerClick, TriangleAlert } from 'lucide-react';
+import { formatChapterLabel, type SessionChapter } from '@/lib/chapters';
+
+interface Props {
+  chapters: SessionChapter[];
+  currentTime: number;
+  onSelect: (chapter: SessionChapter) => void;
+}
+
+function formatTime(ms: number): string {
+  const totalSeconds = Math.floor(Math.max(0, ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function ChapterList({ chapters, currentTime, onSelect }: Props) {
+  return (
+    <div className="app-panel-muted flex min-h-0 flex-col overflow-hidden rounded-xl">
+      <header className="app-divider flex items-center justify-between gap-2 border-b px-4 py-3">
+        <h3 className="app-heading flex items-center gap-2 text-xs font-semibold uppercase tracking-wider">
+          <BookOpen className="app-icon-accent h-4 w-4" />
+          Capítulos
+        </h3>
+        <span className="app-text-muted text-[10px]">{chapters.length} página(s)</span>
+      </header>
+
+      {chapters.length === 0 ? (
+        <p className="app-text-soft px-4 py-3 text-xs">Nenhum evento Meta ou snapshot completo na gravação.</p>
+      ) : (
+        <ol className="max-h-64 divide-y divide-white/10 overflow-y-auto">
+          {chapters.map((chapter) => {
+            const isActive = currentTime >= chapter.start && currentTime < chapter.end;
+
+            return (
+              <li key={chapter.index}>
+                <button
+                  type="button"
+                  onClick={() => onSelect(chapter)}
+                  aria-current={isActive ? 'step' : undefined}
+                  className={`flex w-full items-start gap-3 px-4 py-2.5 text-left text-xs transition-colors ${
+                    isActive ? 'app-hover-surface' : 'hover:app-hover-surface'
+                  }`}
+                >
+                  <span className={`mt-0.5 font-mono text-[10px] ${isActive ? 'app-icon-accent' : 'app-text-muted'}`}>
+                    {String(chapter.index + 1).padStart(2, '0')}
+                  </span>
+                  <span className="min-w-0 flex-1 space-y-1">
+                    <span className="app-heading block truncate font-mono" title={chapter.href}>
+                      {formatChapterLabel(chapter)}
+                    </span>
+                    <span className="app-text-soft flex flex-wrap items-center gap-3 text-[10px]">
+                      <span className="font-mono">
+                        {formatTime(chapter.start)}–{formatTime(chapter.end)}
+                      </span>
+                      <span className="inline-flex items-center gap-1">
+                        <MousePointerClick size={11} />
+                        {chapter.actionCount}
+                      </span>
+                      <span className="inline-flex items-center gap-1">
+                        <TriangleAlert size={11} />
+                        {chapter.insightCount}
+                      </span>
+                    </span>
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
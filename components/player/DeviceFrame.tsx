@@ -0,0 +1,68 @@
+'use client';
+
+import React from 'react';
+import type { DeviceFrameKind } from '@/lib/device';
+
+interface Props {
+  kind: DeviceFrameKind;
+  children: React.ReactNode;
+}
+
+interface FrameInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+/** Espaço ocupado pela moldura em volta do stage; o player desconta isso ao calcular o tamanho. */
+export const DEVICE_FRAME_INSETS: Record<DeviceFrameKind, FrameInsets> = {
+  none: { top: 0, right: 0, bottom: 0, left: 0 },
+  phone: { top: 28, right: 12, bottom: 20, left: 12 },
+  tablet: { top: 22, right: 18, bottom: 22, left: 18 },
+  desktop: { top: 30, right: 1, bottom: 1, left: 1 },
+};
+
+export const DEVICE_FRAME_LABELS: Record<DeviceFrameKind, string> = {
+  none: 'Sem moldura',
+  phone: 'Celular',
+  tablet: 'Tablet',
+  desktop: 'Desktop',
+};
+
+const FRAME_CLASS_NAMES: Record<DeviceFrameKind, string> = {
+  none: '',
+  phone: 'rounded-[2.25rem] bg-neutral-900 ring-1 ring-white/15',
+  tablet: 'rounded-[1.5rem] bg-neutral-900 ring-1 ring-white/15',
+  desktop: 'rounded-xl bg-neutral-800 ring-1 ring-white/15',
+};
+
+export function DeviceFrame({ kind, children }: Props) {
+  if (kind === 'none') {
+    return <>{children}</>;
+  }
+
+  const insets = DEVICE_FRAME_INSETS[kind];
+
+  return (
+    <div
+      className={`relative shrink-0 shadow-[var(--app-shadow-soft)] ${FRAME_CLASS_NAMES[kind]}`}
+      style={{ padding: `${insets.top}px ${insets.right}px ${insets.bottom}px ${insets.left}px` }}
+    >
+      {kind === 'phone' && (
+        <span className="absolute left-1/2 top-2.5 h-3 w-20 -translate-x-1/2 rounded-full bg-black" aria-hidden="true" />
+      )}
+      {kind === 'tablet' && (
+        <span className="absolute left-1/2 top-2 h-2 w-2 -translate-x-1/2 rounded-full bg-black/70" aria-hidden="true" />
+      )}
+      {kind === 'desktop' && (
+        <span className="absolute left-3 top-2.5 flex gap-1.5" aria-hidden="true">
+          <span className="h-2.5 w-2.5 rounded-full bg-red-400/80" />
+          <span className="h-2.5 w-2.5 rounded-full bg-amber-400/80" />
+          <span className="h-2.5 w-2.5 rounded-full bg-emerald-400/80" />
+        </span>
+      )}
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ScanSearch, X } from 'lucide-react';
+import {
+  getNodeMutationHistory,
+  type AxeFinding,
+  type InspectedNode,
+  type NodeHistoryKind,
+} from '@/lib/dom-inspector';
+import { insightSeverityClassName } from '@/lib/insights';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+interface Props {
+  node: InspectedNode | null;
+  axeFindings: AxeFinding[];
+  events: RrwebSessionEvent[];
+  currentTime: number;
+  onClose: () => void;
+}
+
+const HISTORY_LABELS: Record<NodeHistoryKind, string> = {
+  snapshot: 'snapshot',
+  added: 'inserido',
+  removed: 'removido',
+  attributes: 'atributos',
+  text: 'texto',
+  input: 'input',
+};
+
+// O axe usa critical/serious/moderate/minor; reaproveitamos as cores de severidade dos insights.
+function axeImpactSeverity(impact: string): string {
+  if (impact === 'critical' || impact === 'serious') {
+    return 'critical';
+  }
+
+  return impact === 'minor' ? 'low' : 'medium';
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="space-y-2">
+      <h4 className="app-eyebrow text-[10px] font-semibold">{title}</h4>
+      {children}
+    </section>
+  );
+}
+
+export function DomInspectorPanel({ node, axeFindings, events, currentTime, onClose }: Props) {
+  // A linha do tempo completa do nó é calculada uma vez; a cada frame só filtramos pelo tempo atual.
+  const nodeId = node?.nodeId ?? null;
+  const fullHistory = useMemo(() => {
+    return nodeId !== null ? getNodeMutationHistory(events, nodeId, Number.POSITIVE_INFINITY) : [];
+  }, [events, nodeId]);
+  const history = useMemo(
+    () => fullHistory.filter((entry) => entry.offset <= currentTime),
+    [currentTime, fullHistory]
+  );
+
+  return (
+    <aside className="app-elevated absolute inset-y-2 right-2 z-10 flex w-80 max-w-[calc(100%-1rem)] flex-col overflow-hidden rounded-2xl shadow-[var(--app-shadow-soft)] backdrop-blur">
+      <header className="app-divider flex items-center justify-between gap-2 border-b px-4 py-3">
+        <h3 className="app-heading flex items-center gap-2 text-xs font-semibold uppercase tracking-wider">
+          <ScanSearch className="app-icon-accent h-4 w-4" />
+          Inspetor de DOM
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="app-outline-action hover:app-outline-action-hover inline-flex h-7 w-7 items-center justify-center rounded-full"
+          aria-label="Sair do modo inspeção"
+        >
+          <X size={14} />
+        </button>
+      </header>
+
+      <div className="min-h-0 flex-1 space-y-4 overflow-y-auto px-4 py-3 text-xs">
+        {!node ? (
+          <p className="app-text-soft leading-relaxed">
+            Passe o mouse sobre o replay para destacar elementos e clique para inspecionar o nó no tempo atual.
+          </p>
+        ) : (
+          <>
+            <Section title="Elemento">
+              <p className="app-heading font-mono">
+                &lt;{node.tagName}&gt;
+                {node.nodeId !== null && <span className="app-text-muted"> · rrweb #{node.nodeId}</span>}
+              </p>
+              <p className="app-code break-all rounded px-2 py-1 font-mono text-[10px]">{node.selector}</p>
+            </Section>
+
+            <Section title="Acessibilidade">
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                <dt className="app-text-muted">Papel</dt>
+                <dd className="app-heading font-mono">{node.role ?? '—'}</dd>
+                <dt className="app-text-muted">Nome</dt>
+                <dd className="app-heading break-words">{node.accessibleName || '—'}</dd>
+              </dl>
+            </Section>
+
+            <Section title={`Atributos (${node.attributes.length})`}>
+              {node.attributes.length === 0 ? (
+                <p className="app-text-soft">Sem atributos.</p>
+              ) : (
+                <ul className="space-y-1 font-mono text-[10px]">
+                  {node.attributes.map((attribute) => (
+                    <li key={attribute.name} className="break-all">
+                      <span className={attribute.name.startsWith('aria-') || attribute.name === 'role' ? 'app-icon-accent' : 'app-text-soft'}>
+                        {attribute.name}
+                      </span>
+                      <span className="app-text-muted">=</span>
+                      <span className="app-heading">&quot;{attribute.value}&quot;</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            {node.text && (
+              <Section title="Texto">
+                <p className="app-text-soft break-words leading-relaxed">{node.text}</p>
+              </Section>
+            )}
+
+            <Section title={`Axe preliminar (${axeFindings.length})`}>
+              {axeFindings.length === 0 ? (
+                <p className="app-text-soft">Nenhuma ocorrência do axe para este elemento.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {axeFindings.map((finding, index) => (
+                    <li key={`${finding.ruleId}-${index}`} className="app-panel-muted rounded-lg p-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="app-heading font-mono text-[10px]">{finding.ruleId}</span>
+                        <span className={`rounded-full border px-1.5 py-0.5 text-[9px] uppercase ${insightSeverityClassName(axeImpactSeverity(finding.impact))}`}>
+                          {finding.impact || finding.outcome}
+                        </span>
+                      </div>
+                      {finding.help && <p className="app-text-soft mt-1 leading-relaxed">{finding.help}</p>}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </Section>
+
+            <Section title={`Histórico até ${Math.round(currentTime)}ms (${history.length})`}>
+              {node.nodeId === null ? (
+                <p className="app-text-soft">O nó não está registrado no mirror do rrweb.</p>
+              ) : history.length === 0 ? (
+                <p className="app-text-soft">Nenhuma mutação registrada para este nó.</p>
+              ) : (
+                <ol className="app-tree-line space-y-1 border-l pl-3">
+                  {history.map((entry, index) => (
+                    <li key={`${entry.offset}-${index}`}>
+                      <span className="app-text-muted font-mono text-[10px]">{entry.offset}ms</span>{' '}
+                      <span className="app-icon-accent text-[10px] uppercase">{HISTORY_LABELS[entry.kind]}</span>
+                      <p className="app-text-soft break-all">{entry.detail}</p>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </Section>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import type { HeatmapGrid, HeatmapLayerKind, SessionHeatmap } from '@/lib/heatmap';
+import { projectBoundingBox, type ReplayViewport, type ScrollPosition } from '@/lib/rrweb';
+
+interface Props {
+  heatmap: SessionHeatmap;
+  layer: HeatmapLayerKind;
+  viewport: ReplayViewport;
+  stageSize: ReplayViewport;
+  scroll: ScrollPosition;
+}
+
+export const HEATMAP_LAYER_LABELS: Record<HeatmapLayerKind, string> = {
+  clicks: 'Cliques',
+  deadClicks: 'Dead clicks',
+  moves: 'Movimento',
+  scrollReach: 'Alcance de scroll',
+};
+
+const LAYER_COLORS: Record<Exclude<HeatmapLayerKind, 'scrollReach'>, string> = {
+  clicks: '249 115 22',
+  deadClicks: '239 68 68',
+  moves: '34 211 238',
+};
+
+function drawGrid(
+  context: CanvasRenderingContext2D,
+  grid: HeatmapGrid,
+  color: string,
+  viewport: ReplayViewport,
+  stageSize: ReplayViewport,
+  scroll: ScrollPosition
+) {
+  if (grid.max <= 0) {
+    return;
+  }
+
+  for (const cell of grid.cells) {
+    const box = projectBoundingBox(
+      { left: cell.x, top: cell.y, width: grid.cellSize, height: grid.cellSize },
+      viewport,
+      stageSize,
+      scroll
+    );
+    if (!box) {
+      continue;
+    }
+
+    // Escala logarítmica para que um único ponto quente não apague o restante do mapa.
+    const intensity = Math.log1p(cell.count) / Math.log1p(grid.max);
+    const centerX = box.left + box.width / 2;
+    const centerY = box.top + box.height / 2;
+    const radius = Math.max(box.width, box.height) * 1.6;
+    const gradient = context.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius);
+    gradient.addColorStop(0, `rgb(${color} / ${0.15 + intensity * 0.6})`);
+    gradient.addColorStop(1, `rgb(${color} / 0)`);
+
+    context.fillStyle = gradient;
+    context.fillRect(centerX - radius, centerY - radius, radius * 2, radius * 2);
+  }
+}
+
+/**
+ * Camada de heatmap do replay. Os pontos agregados por `computeSessionHeatmap` estão em
+ * coordenadas do documento, então acompanham o scroll atual do replay como os overlays.
+ */
+export function HeatmapLayer({ heatmap, layer, viewport, stageSize, scroll }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || layer === 'scrollReach') {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.floor(stageSize.width * pixelRatio));
+    canvas.height = Math.max(1, Math.floor(stageSize.height * pixelRatio));
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, stageSize.width, stageSize.height);
+    context.globalCompositeOperation = 'lighter';
+
+    drawGrid(context, heatmap[layer], LAYER_COLORS[layer], viewport, stageSize, scroll);
+  }, [heatmap, layer, scroll, stageSize, viewport]);
+
+  if (layer === 'scrollReach') {
+    return (
+      <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+        {heatmap.scrollReach.map((band) => {
+          const box = projectBoundingBox(
+            { left: 0, top: band.top, width: viewport.width, height: band.height },
+            viewport,
+            stageSize,
+            scroll
+          );
+          if (!box) {
+            return null;
+          }
+
+          return (
+            <div
+              key={band.top}
+              className="absolute"
+              style={{
+                left: box.left,
+                top: box.top,
+                width: box.width,
+                height: box.height + 1,
+                // Faixas pouco vistas ficam frias (azul) e as mais vistas, quentes (laranja).
+                background: `rgb(${band.ratio > 0.5 ? '249 115 22' : '14 165 233'} / ${0.08 + band.ratio * 0.35})`,
+              }}
+            />
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none absolute inset-0 h-full w-full mix-blend-screen"
+      aria-hidden="true"
+    />
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { insightSeverityClassName } from '@/lib/insights';
+import {
+  getViewportAt,
+  projectBoundingBox,
+  type ReplayViewport,
+  type ScrollPosition,
+  type ViewportChange,
+} from '@/lib/rrweb';
+import { InsightEvent } from '@/types/dashboard';
+
+interface Props {
+  insights: InsightEvent[];
+  viewport: ReplayViewport;
+  viewportChanges?: ViewportChange[];
+  stageSize: ReplayViewport;
+  scroll: ScrollPosition;
+}
+
+/**
+ * Camada de bounding boxes sobre o stage do replay.
+ * As caixas chegam em coordenadas do documento gravado e são reprojetadas a cada
+ * mudança de tamanho do stage ou de scroll do replay. Cada caixa é projetada com o
+ * viewport vigente no timestamp do seu insight, que é o espaço em que ela foi medida. Se ele
+ * difere do viewport exibido agora, a caixa é omitida (e contada) em vez de reescalada.
+ */
+export function InsightOverlayLayer({ insights, viewport, viewportChanges = [], stageSize, scroll }: Props) {
+  const { projected, mismatched } = useMemo(() => {
+    const withBoxes = insights.filter((insight) => insight.boundingBox);
+    const sameViewport = withBoxes.filter((insight) => {
+      const insightViewport = getViewportAt(viewportChanges, insight.timestamp, viewport);
+      return insightViewport.width === viewport.width && insightViewport.height === viewport.height;
+    });
+
+    return {
+      projected: sameViewport.flatMap((insight) => {
+        const box = insight.boundingBox && projectBoundingBox(insight.boundingBox, viewport, stageSize, scroll);
+        return box ? [{ insight, box }] : [];
+      }),
+      mismatched: withBoxes.length - sameViewport.length,
+    };
+  }, [insights, scroll, stageSize, viewport, viewportChanges]);
+
+  if (projected.length === 0 && mismatched === 0) {
+    return null;
+  }
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden" aria-hidden="true">
+      {projected.map(({ insight, box }) => (
+        <div
+          key={insight.id}
+          className={`absolute rounded-md border-2 shadow-[0_0_18px_currentColor] transition-[left,top,width,height] duration-150 ${insightSeverityClassName(insight.severity)}`}
+          style={{
+            left: box.left,
+            top: box.top,
+            width: box.width,
+            height: box.height,
+          }}
+        >
+          <span className="app-elevated absolute -top-6 left-0 max-w-[16rem] truncate rounded-full px-2 py-0.5 text-[10px] font-medium">
+            {insight.type} · {insight.message}
+          </span>
+        </div>
+      ))}
+      {mismatched > 0 && (
+        <span className="app-elevated app-text-soft absolute bottom-3 left-3 rounded-full px-2 py-0.5 text-[10px]">
+          {mismatched} insight(s) medido(s) em outro viewport
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { formatChapterLabel, type SessionChapter } from '@/lib/chapters';
+import { groupInsightMarkers, insightSeverityClassName } from '@/lib/insights';
+import type { TimeRange } from '@/lib/rrweb';
+import { InsightEvent } from '@/types/dashboard';
+
+interface Props {
+  duration: number;
+  currentTime: number;
+  disabled: boolean;
+  insights: InsightEvent[];
+  density: number[];
+  idleSegments: TimeRange[];
+  highlightIdle: boolean;
+  loopRange: TimeRange | null;
+  pendingLoopStart: number | null;
+  chapters?: SessionChapter[];
+  onSeek: (time: number) => void;
+}
+
+// Insights a menos de 1,5% da duração total viram um único marcador.
+const MARKER_GROUP_RATIO = 0.015;
+const MIN_MARKER_GROUP_MS = 500;
+const IDLE_HATCH =
+  'repeating-linear-gradient(135deg, rgb(148 163 184 / 0.35) 0 3px, transparent 3px 7px)';
+
+function toPercent(time: number, duration: number): number {
+  if (duration <= 0) {
+    return 0;
+  }
+
+  return Math.min(100, Math.max(0, (time / duration) * 100));
+}
+
+export function PlayerTimeline({
+  duration,
+  currentTime,
+  disabled,
+  insights,
+  density,
+  idleSegments,
+  highlightIdle,
+  loopRange,
+  pendingLoopStart,
+  chapters = [],
+  onSeek,
+}: Props) {
+  const markerGroups = useMemo(() => {
+    const threshold = Math.max(MIN_MARKER_GROUP_MS, duration * MARKER_GROUP_RATIO);
+    return groupInsightMarkers(
+      insights.filter((insight) => insight.timestamp >= 0 && insight.timestamp <= duration),
+      threshold
+    );
+  }, [duration, insights]);
+
+  return (
+    <div className="relative flex min-w-0 flex-col gap-1 pt-3">
+      <div className="pointer-events-none absolute inset-x-0 top-0 h-3">
+        {markerGroups.map((group) => (
+          <button
+            key={group.id}
+            type="button"
+            disabled={disabled}
+            onClick={() => onSeek(group.timestamp)}
+            title={group.insights.map((insight) => insight.message).join('\n')}
+            aria-label={`Ir para ${group.insights.length} insight(s) em ${group.timestamp}ms`}
+            className={`pointer-events-auto absolute top-0 flex h-3 min-w-3 -translate-x-1/2 items-center justify-center rounded-full border px-0.5 text-[8px] font-semibold leading-none transition-transform hover:scale-125 disabled:cursor-not-allowed ${insightSeverityClassName(group.tone)}`}
+            style={{ left: `${toPercent(group.timestamp, duration)}%` }}
+          >
+            {group.insights.length > 1 ? group.insights.length : null}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative h-5 w-full">
+        <div className="pointer-events-none absolute inset-x-0 top-0 h-2.5" aria-hidden="true">
+          {idleSegments.map((segment) => (
+            <span
+              key={`${segment.start}-${segment.end}`}
+              className={`absolute inset-y-0 rounded-sm transition-opacity ${highlightIdle ? 'opacity-100' : 'opacity-40'}`}
+              style={{
+                left: `${toPercent(segment.start, duration)}%`,
+                width: `${toPercent(segment.end, duration) - toPercent(segment.start, duration)}%`,
+                backgroundImage: IDLE_HATCH,
+              }}
+            />
+          ))}
+        </div>
+        <div className="pointer-events-none absolute inset-x-0 top-0 flex h-2.5 items-end gap-px" aria-hidden="true">
+          {density.map((value, index) => (
+            <span
+              key={index}
+              className="bg-brand/50 flex-1 rounded-t-sm"
+              style={{ height: `${Math.max(value > 0 ? 15 : 0, value * 100)}%` }}
+            />
+          ))}
+        </div>
+        {loopRange && (
+          <div
+            className="app-status-queued pointer-events-none absolute bottom-[-3px] h-3 rounded-sm border"
+            style={{
+              left: `${toPercent(loopRange.start, duration)}%`,
+              width: `${toPercent(loopRange.end, duration) - toPercent(loopRange.start, duration)}%`,
+            }}
+            aria-hidden="true"
+          />
+        )}
+        {pendingLoopStart !== null && (
+          <div
+            className="pointer-events-none absolute bottom-[-3px] h-3 w-0.5 -translate-x-1/2 rounded-full bg-[var(--status-queued-text)]"
+            style={{ left: `${toPercent(pendingLoopStart, duration)}%` }}
+            aria-hidden="true"
+          />
+        )}
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          value={currentTime ?? 0}
+          onChange={(event) => onSeek(Number(event.target.value))}
+          disabled={disabled}
+          aria-label="Posição do replay"
+          className="app-divider app-progress-track absolute inset-x-0 bottom-0 h-1.5 w-full cursor-pointer appearance-none rounded-full border accent-primary disabled:cursor-not-allowed"
+        />
+      </div>
+
+      {chapters.length > 1 && (
+        <div className="relative h-4 w-full" role="group" aria-label="Capítulos da sessão">
+          {chapters.map((chapter) => {
+            const isActive = currentTime >= chapter.start && currentTime < chapter.end;
+            const label = formatChapterLabel(chapter);
+
+            return (
+              <button
+                key={chapter.index}
+                type="button"
+                disabled={disabled}
+                onClick={() => onSeek(chapter.start)}
+                title={`${label} · ${chapter.actionCount} ação(ões) · ${chapter.insightCount} insight(s)`}
+                className={`absolute inset-y-0 truncate border-l px-1 text-left text-[9px] leading-4 transition-colors disabled:cursor-not-allowed ${
+                  isActive ? 'app-status-queued' : 'app-divider app-text-muted hover:app-hover-surface'
+                }`}
+                style={{
+                  left: `${toPercent(chapter.start, duration)}%`,
+                  width: `${toPercent(chapter.end, duration) - toPercent(chapter.start, duration)}%`,
+                }}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { lowerBoundByOffset, type PointerSample, type RageClickBurst } from '@/lib/pointer';
+import { getStageTransform, type ReplayViewport } from '@/lib/rrweb';
+
+interface Props {
+  samples: PointerSample[];
+  clicks: PointerSample[];
+  bursts: RageClickBurst[];
+  currentTime: number;
+  viewport: ReplayViewport;
+  stageSize: ReplayViewport;
+}
+
+const POINTER_TRAIL_MS = 3000;
+const CLICK_RIPPLE_MS = 700;
+// Rajadas continuam destacadas por um tempo após o último clique para não sumirem em 4x.
+const RAGE_HIGHLIGHT_MS = 1500;
+
+/**
+ * Rastro do ponteiro e ondas de clique desenhados sobre o stage.
+ * As posições do mouse já estão em coordenadas do viewport, então dispensam o scroll.
+ */
+export function PointerTrailLayer({ samples, clicks, bursts, currentTime, viewport, stageSize }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    const transform = getStageTransform(viewport, stageSize);
+    if (!canvas || !context || !transform) {
+      return;
+    }
+
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.max(1, Math.floor(stageSize.width * pixelRatio));
+    canvas.height = Math.max(1, Math.floor(stageSize.height * pixelRatio));
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, stageSize.width, stageSize.height);
+
+    const toStage = (sample: { x: number; y: number }) => ({
+      x: sample.x * transform.scale + transform.offsetLeft,
+      y: sample.y * transform.scale + transform.offsetTop,
+    });
+
+    const trailStart = lowerBoundByOffset(samples, currentTime - POINTER_TRAIL_MS);
+    const trailEnd = lowerBoundByOffset(samples, currentTime + 1);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+
+    for (let index = Math.max(trailStart, 1); index < trailEnd; index += 1) {
+      const from = toStage(samples[index - 1]);
+      const to = toStage(samples[index]);
+      const age = (currentTime - samples[index].offset) / POINTER_TRAIL_MS;
+      const alpha = Math.max(0, 1 - age);
+
+      context.strokeStyle = `rgb(34 211 238 / ${alpha * 0.85})`;
+      context.lineWidth = 1 + alpha * 3;
+      context.beginPath();
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+      context.stroke();
+    }
+
+    const rippleStart = lowerBoundByOffset(clicks, currentTime - CLICK_RIPPLE_MS);
+    const rippleEnd = lowerBoundByOffset(clicks, currentTime + 1);
+    for (let index = rippleStart; index < rippleEnd; index += 1) {
+      const point = toStage(clicks[index]);
+      const progress = (currentTime - clicks[index].offset) / CLICK_RIPPLE_MS;
+
+      context.strokeStyle = `rgb(125 211 252 / ${1 - progress})`;
+      context.lineWidth = 2;
+      context.beginPath();
+      context.arc(point.x, point.y, 6 + progress * 22, 0, Math.PI * 2);
+      context.stroke();
+    }
+
+    for (const burst of bursts) {
+      if (currentTime < burst.start || currentTime > burst.end + RAGE_HIGHLIGHT_MS) {
+        continue;
+      }
+
+      const point = toStage(burst);
+      context.fillStyle = 'rgb(239 68 68 / 0.22)';
+      context.strokeStyle = 'rgb(239 68 68 / 0.95)';
+      context.lineWidth = 2.5;
+      context.beginPath();
+      context.arc(point.x, point.y, 30, 0, Math.PI * 2);
+      context.fill();
+      context.stroke();
+
+      context.fillStyle = 'rgb(254 202 202)';
+      context.font = '600 11px Arial, Helvetica, sans-serif';
+      context.textAlign = 'center';
+      context.fillText(`rage ×${burst.count}`, point.x, point.y - 38);
+    }
+  }, [bursts, clicks, currentTime, samples, stageSize, viewport]);
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" aria-hidden="true" />;
+}
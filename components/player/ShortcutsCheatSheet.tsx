@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { Keyboard, X } from 'lucide-react';
+import { PLAYER_SHORTCUTS } from './usePlayerShortcuts';
+
+interface Props {
+  onClose: () => void;
+}
+
+export function ShortcutsCheatSheet({ onClose }: Props) {
+  return (
+    <div
+      className="absolute inset-0 z-20 flex items-center justify-center bg-slate-950/70 p-4 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Atalhos de teclado do replay"
+      onClick={onClose}
+    >
+      <div
+        className="app-elevated w-full max-w-md rounded-2xl p-5 shadow-[var(--app-shadow-soft)]"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between gap-3">
+          <h3 className="app-heading flex items-center gap-2 text-sm font-semibold uppercase tracking-wider">
+            <Keyboard className="app-icon-accent h-4 w-4" />
+            Atalhos do replay
+          </h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="app-outline-action hover:app-outline-action-hover inline-flex h-8 w-8 items-center justify-center rounded-full"
+            aria-label="Fechar atalhos"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <ul className="space-y-2">
+          {PLAYER_SHORTCUTS.map((shortcut) => (
+            <li key={shortcut.description} className="flex items-center justify-between gap-4 text-xs">
+              <span className="app-text-soft">{shortcut.description}</span>
+              <span className="flex shrink-0 gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd key={key} className="app-code min-w-6 rounded px-1.5 py-0.5 text-center font-mono text-[10px]">
+                    {key}
+                  </kbd>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
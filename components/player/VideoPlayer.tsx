@@ -3,8 +3,40 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import rrwebPlayer from 'rrweb-player';
 import 'rrweb-player/dist/style.css';
-import { FastForward, Pause, Play, RotateCcw } from 'lucide-react';
+import { Camera, EyeOff, FastForward, Flame, Globe, Keyboard, MonitorSmartphone, MousePointer2, Pause, Play, ScanSearch, Repeat, RotateCcw, ShieldAlert, SkipForward, X } from 'lucide-react';
+import { findChapterAt, type SessionChapter } from '@/lib/chapters';
+import { type DeviceFrameKind } from '@/lib/device';
+import { type HeatmapLayerKind } from '@/lib/heatmap';
+import { findAdjacentInsight } from '@/lib/insights';
+import { countUnmaskedInputValues, type PrivacyRules } from '@/lib/privacy';
+import {
+  computeActivityDensity,
+  findAdjacentEventOffset,
+  getViewportAt,
+  listViewportChanges,
+  type TimeRange,
+} from '@/lib/rrweb';
 import { InsightEvent, RrwebSessionEvent } from '@/types/dashboard';
+import { DEVICE_FRAME_INSETS, DEVICE_FRAME_LABELS, DeviceFrame } from './DeviceFrame';
+import { DomInspectorPanel } from './DomInspectorPanel';
+import { HEATMAP_LAYER_LABELS, HeatmapLayer } from './HeatmapLayer';
+import { InsightOverlayLayer } from './InsightOverlayLayer';
+import { PointerTrailLayer } from './PointerTrailLayer';
+import { PlayerTimeline } from './PlayerTimeline';
+import { ShortcutsCheatSheet } from './ShortcutsCheatSheet';
+import { useDeviceFrame } from './useDeviceFrame';
+import { useDomInspector } from './useDomInspector';
+import { useFrameCapture } from './useFrameCapture';
+import { useHeatmapLayer } from './useHeatmapLayer';
+import { useLoopRange } from './useLoopRange';
+import { useOverlayScroll } from './useOverlayScroll';
+import { usePlayerPrivacy } from './usePlayerPrivacy';
+import { usePlayerShortcuts } from './usePlayerShortcuts';
+import { usePointerTrail } from './usePointerTrail';
+import { IDLE_THRESHOLD_MS, useSkipIdle } from './useSkipIdle';
+import { useVideoPlayerController, type VideoPlayerController } from './useVideoPlayerController';
+
+export type { VideoPlayerController } from './useVideoPlayerController';
 
 type RrwebPlayerInstance = InstanceType<typeof rrwebPlayer>;
 type RrwebPlayerWithDestroy = RrwebPlayerInstance & {
@@ -25,11 +57,28 @@ interface Props {
   events: RrwebSessionEvent[];
   onTimeUpdate: (time: number) => void;
   overlays: InsightEvent[];
+  insights: InsightEvent[];
+  // Calculados pela página, que também usa os capítulos na lista lateral.
+  chapters: SessionChapter[];
   currentTime: number;
+  enableShortcuts?: boolean;
+  loopRange?: TimeRange | null;
+  onLoopRangeChange?: (range: TimeRange | null) => void;
+  rageClickCount?: number | null;
+  axeAnalysis?: Record<string, unknown>;
+  showControls?: boolean;
+  sessionUuid?: string;
+  sessionMeta?: Record<string, unknown>;
+  privacyRules?: PrivacyRules | null;
+  redacted?: boolean;
+  controllerRef?: React.Ref<VideoPlayerController>;
 }
 
 const DEFAULT_WIDTH = 1280;
 const DEFAULT_HEIGHT = 720;
+const DENSITY_BUCKETS = 120;
+// Tolerância para que "insight anterior" não volte para o insight em que o replay acabou de parar.
+const INSIGHT_JUMP_TOLERANCE_MS = 250;
 
 function formatTime(ms: number): string {
   if (!ms || ms < 0) {
@@ -75,7 +124,25 @@ function fitStageSize(
   };
 }
 
-export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTime }: Props) {
+export default function VideoPlayer({
+  events,
+  onTimeUpdate,
+  overlays,
+  insights,
+  chapters,
+  currentTime,
+  enableShortcuts = true,
+  loopRange = null,
+  onLoopRangeChange,
+  rageClickCount = null,
+  axeAnalysis,
+  showControls = true,
+  sessionUuid,
+  sessionMeta,
+  privacyRules = null,
+  redacted = false,
+  controllerRef,
+}: Props) {
   const wrapperRef = useRef<HTMLDivElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -96,9 +163,22 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
 
   const hasPlayableEvents = events.length >= 2;
   const metadata = useMemo(() => getEventMetadata(events), [events]);
-  const metadataAspectRatio = useMemo(() => {
-    return metadata.width > 0 && metadata.height > 0 ? metadata.width / metadata.height : DEFAULT_WIDTH / DEFAULT_HEIGHT;
-  }, [metadata.height, metadata.width]);
+  // O stage acompanha o viewport vigente (Meta/ViewportResize) em vez de fixar o primeiro.
+  const viewportChanges = useMemo(() => listViewportChanges(events), [events]);
+  const { width: activeWidth, height: activeHeight } = getViewportAt(viewportChanges, currentTime, metadata);
+  const activeViewport = useMemo(() => ({ width: activeWidth, height: activeHeight }), [activeHeight, activeWidth]);
+  const viewportAspectRatio = useMemo(() => {
+    return activeWidth > 0 && activeHeight > 0 ? activeWidth / activeHeight : DEFAULT_WIDTH / DEFAULT_HEIGHT;
+  }, [activeHeight, activeWidth]);
+  const unmaskedInputCount = useMemo(() => countUnmaskedInputValues(events), [events]);
+  const { autoDeviceFrame, deviceFrame, deviceFrameSetting, deviceInfo, setDeviceFrameSetting } = useDeviceFrame(
+    sessionMeta,
+    activeViewport
+  );
+  const overlayScroll = useOverlayScroll(events, currentTime);
+  const { heatmap, heatmapLayer, isHeatmapActive, setHeatmapLayer, toggleHeatmap } = useHeatmapLayer(events);
+  const { pointerTrail, showPointerTrail, togglePointerTrail } = usePointerTrail(events);
+  const currentChapter = findChapterAt(chapters, currentTime);
   const duration = useMemo(() => {
     if (events.length < 2) {
       return 0;
@@ -109,6 +189,8 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
     return Math.max(0, lastTimestamp - firstTimestamp);
   }, [events]);
 
+  const activityDensity = useMemo(() => computeActivityDensity(events, DENSITY_BUCKETS), [events]);
+
   const destroyPlayer = useCallback(() => {
     // A instância do rrweb precisa ser destruída explicitamente para não deixar iframe e listeners órfãos.
     playerResizeObserverRef.current?.disconnect();
@@ -146,7 +228,12 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
       }
 
       const { width, height } = viewportRef.current.getBoundingClientRect();
-      const nextSize = fitStageSize(width, height, metadataAspectRatio);
+      const insets = DEVICE_FRAME_INSETS[deviceFrame];
+      const nextSize = fitStageSize(
+        width - insets.left - insets.right,
+        height - insets.top - insets.bottom,
+        viewportAspectRatio
+      );
 
       stageSizeRef.current = nextSize;
       setStageSize((current) => {
@@ -168,7 +255,7 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
       layoutObserverRef.current?.disconnect();
       layoutObserverRef.current = null;
     };
-  }, [hasPlayableEvents, metadataAspectRatio]);
+  }, [deviceFrame, hasPlayableEvents, viewportAspectRatio]);
 
   useLayoutEffect(() => {
     let cancelled = false;
@@ -243,6 +330,8 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
     };
   }, [destroyPlayer, events, hasPlayableEvents, metadata]);
 
+  usePlayerPrivacy(playerRef, events, privacyRules, redacted);
+
   useLayoutEffect(() => {
     if (!hasPlayableEvents || playerError || !stageSize || !playerRef.current) {
       return;
@@ -276,30 +365,104 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
     setPlayerState('playing');
   }, [playerError, playerState]);
 
-  const handleSeek = useCallback(
-    (event: React.ChangeEvent<HTMLInputElement>) => {
-      const time = Number(event.target.value);
-      onTimeUpdateRef.current(time);
+  const seekTo = useCallback(
+    (time: number) => {
+      const nextTime = Math.min(Math.max(0, time), duration);
+      onTimeUpdateRef.current(nextTime);
 
       const player = playerRef.current;
-      if (player) {
+      if (player && !playerError) {
         // O goto recebe o time offset e, opcionalmente, continua tocando se o replay já estava em play.
-        player.goto(time, playerState === 'playing');
+        player.goto(nextTime, playerState === 'playing');
+      }
+    },
+    [duration, playerError, playerState]
+  );
+
+  const isPlaying = playerState === 'playing';
+  const { idleSegments, skipInactivity, toggleSkipInactivity } = useSkipIdle({ events, currentTime, playing: isPlaying, seekTo });
+  const { activeLoop, pendingLoopStart, markLoopStart, markLoopEnd, clearLoop } = useLoopRange({
+    loopRange,
+    onLoopRangeChange,
+    duration,
+    currentTime,
+    playing: isPlaying,
+    seekTo,
+  });
+
+  const pause = useCallback(() => {
+    playerRef.current?.pause();
+    setPlayerState('paused');
+  }, []);
+
+  const setPlaying = useCallback((playing: boolean) => {
+    setPlayerState(playing ? 'playing' : 'paused');
+  }, []);
+
+  const applySpeed = useCallback(
+    (nextSpeed: number) => {
+      const player = playerRef.current;
+      if (!player || playerError) {
+        return;
       }
+
+      player.setSpeed(nextSpeed);
+      setSpeed(nextSpeed);
     },
-    [playerState]
+    [playerError]
   );
 
   const cycleSpeed = useCallback(() => {
-    const player = playerRef.current;
-    if (!player || playerError) {
-      return;
-    }
+    applySpeed(speed === 1 ? 2 : speed === 2 ? 4 : speed === 4 ? 0.5 : 1);
+  }, [applySpeed, speed]);
+
+  const pauseAt = useCallback(
+    (time: number) => {
+      const player = playerRef.current;
+      if (!player || playerError) {
+        return;
+      }
+
+      const nextTime = Math.min(Math.max(0, time), duration);
+      player.pause();
+      player.goto(nextTime, false);
+      setPlayerState('paused');
+      onTimeUpdateRef.current(nextTime);
+    },
+    [duration, playerError]
+  );
+
+  const stepEvent = useCallback(
+    (direction: -1 | 1) => {
+      const target = findAdjacentEventOffset(events, currentTime, direction);
+      if (target !== null) {
+        pauseAt(target);
+      }
+    },
+    [currentTime, events, pauseAt]
+  );
+
+  const jumpInsight = useCallback(
+    (direction: -1 | 1) => {
+      const reference = direction < 0 ? currentTime - INSIGHT_JUMP_TOLERANCE_MS : currentTime;
+      const target = findAdjacentInsight(insights, reference, direction);
+      if (target) {
+        seekTo(target.timestamp);
+      }
+    },
+    [currentTime, insights, seekTo]
+  );
 
-    const nextSpeed = speed === 1 ? 2 : speed === 2 ? 4 : speed === 4 ? 0.5 : 1;
-    player.setSpeed(nextSpeed);
-    setSpeed(nextSpeed);
-  }, [playerError, speed]);
+  const shortcutHandlers = useMemo(
+    () => ({
+      togglePlay,
+      seekBy: (deltaMs: number) => seekTo(currentTime + deltaMs),
+      stepEvent,
+      jumpInsight,
+      setSpeed: applySpeed,
+    }),
+    [applySpeed, currentTime, jumpInsight, seekTo, stepEvent, togglePlay]
+  );
 
   const restart = useCallback(() => {
     const player = playerRef.current;
@@ -312,19 +475,119 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
     onTimeUpdateRef.current(0);
   }, [playerError]);
 
+  const { captureStatus, captureFrame } = useFrameCapture({
+    playerRef,
+    disabled: playerError !== null,
+    pause,
+    events,
+    currentTime,
+    currentTimeLabel: formatTime(currentTime),
+    viewport: activeViewport,
+    scroll: overlayScroll,
+    overlays,
+    sessionUuid,
+  });
+
+  const {
+    inspectMode,
+    inspectHoverBox,
+    inspection,
+    toggleInspectMode,
+    handleInspectHover,
+    handleInspectLeave,
+    handleInspectClick,
+  } = useDomInspector({ playerRef, playing: isPlaying, pause, viewport: activeViewport, stageSize, axeAnalysis });
+
+  useVideoPlayerController(controllerRef, {
+    playerRef,
+    duration,
+    onPlayingChange: setPlaying,
+    onTimeUpdateRef,
+    setSpeed: applySpeed,
+  });
+
+  const { showShortcuts, toggleShortcuts, closeShortcuts } = usePlayerShortcuts(
+    enableShortcuts && hasPlayableEvents && !playerError,
+    shortcutHandlers
+  );
+
   const fallbackMessage = !hasPlayableEvents
     ? 'A sessão precisa de pelo menos dois eventos rrweb para renderizar um replay funcional.'
     : playerError;
   const isInteractive = hasPlayableEvents && !playerError;
   const showFallback = fallbackMessage !== null;
-  const renderedStageSize = stageSize ?? metadata;
+  const renderedStageSize = stageSize ?? activeViewport;
 
   return (
     <div className="app-elevated flex h-full min-h-0 min-w-0 w-full flex-col overflow-hidden rounded-xl shadow-[var(--app-shadow-soft)] backdrop-blur">
+      {hasPlayableEvents && (
+        <div className="app-panel-muted app-divider flex flex-wrap items-center gap-2 border-b px-4 py-2">
+          <div className="app-elevated flex min-w-0 flex-1 items-center gap-2 rounded-full px-3 py-1.5" title="URL da página no tempo atual">
+            <Globe size={12} className="app-text-muted shrink-0" />
+            <span className="app-heading truncate font-mono text-[11px]">{currentChapter?.href || 'URL não registrada'}</span>
+          </div>
+          {currentChapter && chapters.length > 1 && (
+            <span className="app-text-muted shrink-0 text-[10px] uppercase tracking-[0.2em]">
+              Página {currentChapter.index + 1}/{chapters.length}
+            </span>
+          )}
+          <span
+            className="app-chip app-text-soft max-w-[18rem] shrink-0 truncate rounded-full px-2.5 py-1 font-mono text-[10px]"
+            title={deviceInfo?.userAgent ?? 'User agent não registrado em session_meta'}
+          >
+            {activeWidth}×{activeHeight}
+            {deviceInfo?.screen ? ` · tela ${deviceInfo.screen.width}×${deviceInfo.screen.height}` : ''}
+            {deviceInfo?.userAgent ? ` · ${deviceInfo.userAgent}` : ''}
+          </span>
+          <label className="app-text-muted flex shrink-0 items-center gap-1 text-[10px]">
+            <MonitorSmartphone size={12} />
+            <select
+              value={deviceFrameSetting}
+              onChange={(event) => setDeviceFrameSetting(event.target.value as DeviceFrameKind | 'auto')}
+              className="app-chip rounded-md px-1.5 py-0.5 text-[10px]"
+              aria-label="Moldura de dispositivo"
+            >
+              <option value="auto">Automática ({DEVICE_FRAME_LABELS[autoDeviceFrame]})</option>
+              {(Object.keys(DEVICE_FRAME_LABELS) as DeviceFrameKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {DEVICE_FRAME_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {(unmaskedInputCount > 0 || redacted) && (
+        <div
+          className={`app-divider flex items-center gap-2 border-b px-4 py-2 text-xs ${
+            unmaskedInputCount > 0 ? 'app-callout-error' : 'app-callout-info'
+          }`}
+          role="status"
+        >
+          {unmaskedInputCount > 0 ? <ShieldAlert size={14} className="shrink-0" /> : <EyeOff size={14} className="shrink-0" />}
+          <span>
+            {unmaskedInputCount > 0
+              ? `A gravação contém ${unmaskedInputCount} valor(es) de input sem máscara. ${
+                  redacted ? 'A visão redigida oculta textos, inputs e mídia.' : 'Os campos cobertos pelas regras de privacidade são redigidos no replay.'
+                }`
+              : 'Visão redigida: textos, inputs e mídia do replay estão mascarados para o seu perfil.'}
+          </span>
+        </div>
+      )}
       <div
         ref={wrapperRef}
         className="app-stage relative flex min-h-0 min-w-0 flex-1 items-center justify-center overflow-hidden p-2"
       >
+        {showShortcuts && <ShortcutsCheatSheet onClose={closeShortcuts} />}
+        {inspectMode && (
+          <DomInspectorPanel
+            node={inspection?.node ?? null}
+            axeFindings={inspection?.findings ?? []}
+            events={events}
+            currentTime={currentTime}
+            onClose={toggleInspectMode}
+          />
+        )}
         <div ref={viewportRef} className="relative flex h-full min-h-0 min-w-0 w-full items-center justify-center overflow-hidden">
           {showFallback ? (
             <div className="flex min-h-[24rem] w-full items-center justify-center text-center">
@@ -339,76 +602,292 @@ export default function VideoPlayer({ events, onTimeUpdate, overlays, currentTim
               </div>
             </div>
           ) : (
-            <div
-              className="app-elevated relative flex shrink-0 items-center justify-center overflow-hidden rounded-2xl shadow-[var(--app-shadow-soft)]"
-              style={{
-                width: renderedStageSize.width,
-                height: renderedStageSize.height,
-              }}
-            >
-              <div ref={containerRef} className="h-full w-full" />
-              <div className="app-elevated app-text-soft pointer-events-none absolute left-4 top-4 flex items-center gap-2 rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.28em] shadow-lg">
-                <span className="bg-brand h-2 w-2 rounded-full" />
-                {playerState === 'playing' ? 'Reproduzindo' : 'Reprise pronta'}
-              </div>
-              {overlays.length > 0 && (
-                <div className="app-elevated app-text-soft pointer-events-none absolute right-4 top-4 rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.28em] shadow-lg">
-                  {overlays.length} overlay{overlays.length === 1 ? '' : 's'}
+            <DeviceFrame kind={deviceFrame}>
+              <div
+                className="app-elevated relative flex shrink-0 items-center justify-center overflow-hidden rounded-2xl shadow-[var(--app-shadow-soft)]"
+                style={{
+                  width: renderedStageSize.width,
+                  height: renderedStageSize.height,
+                }}
+              >
+                <div ref={containerRef} className="h-full w-full" />
+                {heatmap && heatmapLayer && (
+                  <HeatmapLayer
+                    heatmap={heatmap}
+                    layer={heatmapLayer}
+                    viewport={activeViewport}
+                    stageSize={renderedStageSize}
+                    scroll={overlayScroll}
+                  />
+                )}
+                {pointerTrail && (
+                  <PointerTrailLayer
+                    samples={pointerTrail.samples}
+                    clicks={pointerTrail.clicks}
+                    bursts={pointerTrail.bursts}
+                    currentTime={currentTime}
+                    viewport={activeViewport}
+                    stageSize={renderedStageSize}
+                  />
+                )}
+                <InsightOverlayLayer
+                  insights={overlays}
+                  viewport={activeViewport}
+                  viewportChanges={viewportChanges}
+                  stageSize={renderedStageSize}
+                  scroll={overlayScroll}
+                />
+                <div className="app-elevated app-text-soft pointer-events-none absolute left-4 top-4 flex items-center gap-2 rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.28em] shadow-lg">
+                  <span className="bg-brand h-2 w-2 rounded-full" />
+                  {playerState === 'playing' ? 'Reproduzindo' : 'Reprise pronta'}
                 </div>
-              )}
-            </div>
+                {heatmap && heatmapLayer && (
+                  <div
+                    className="app-elevated absolute bottom-4 left-1/2 flex -translate-x-1/2 items-center gap-1 rounded-full p-1 text-[10px] shadow-lg"
+                    role="group"
+                    aria-label="Camada do heatmap"
+                  >
+                    {(Object.keys(HEATMAP_LAYER_LABELS) as HeatmapLayerKind[]).map((layer) => (
+                      <button
+                        key={layer}
+                        type="button"
+                        onClick={() => setHeatmapLayer(layer)}
+                        aria-pressed={heatmapLayer === layer}
+                        className={`rounded-full border px-2.5 py-1 font-medium uppercase tracking-[0.18em] ${
+                          heatmapLayer === layer ? 'app-status-queued' : 'app-text-soft border-transparent hover:app-hover-surface'
+                        }`}
+                      >
+                        {HEATMAP_LAYER_LABELS[layer]}
+                        {layer !== 'scrollReach' ? ` · ${heatmap[layer].total}` : ''}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {inspectMode && (
+                  <div
+                    className="absolute inset-0 z-[5] cursor-crosshair"
+                    onMouseMove={handleInspectHover}
+                    onMouseLeave={handleInspectLeave}
+                    onClick={handleInspectClick}
+                  >
+                    {inspectHoverBox && (
+                      <div
+                        className="app-status-queued pointer-events-none absolute rounded-sm border-2"
+                        style={{
+                          left: inspectHoverBox.left,
+                          top: inspectHoverBox.top,
+                          width: inspectHoverBox.width,
+                          height: inspectHoverBox.height,
+                        }}
+                      />
+                    )}
+                  </div>
+                )}
+                {pointerTrail && (
+                  <div
+                    className={`app-elevated pointer-events-none absolute left-4 top-12 rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.2em] shadow-lg ${
+                      rageClickCount !== null && rageClickCount !== pointerTrail.bursts.length ? 'text-[var(--status-processing-text)]' : 'app-text-soft'
+                    }`}
+                    title="Rajadas detectadas no replay comparadas com stats.rage_clicks do backend"
+                  >
+                    Rage clicks: {pointerTrail.bursts.length} no replay
+                    {rageClickCount !== null ? ` · ${rageClickCount} no backend` : ''}
+                  </div>
+                )}
+                {captureStatus && (
+                  <div
+                    className={`pointer-events-none absolute bottom-4 right-4 rounded-full border px-3 py-1 text-[10px] uppercase tracking-[0.2em] shadow-lg ${
+                      captureStatus.tone === 'error' ? 'app-status-error' : captureStatus.tone === 'done' ? 'app-status-success' : 'app-status-queued'
+                    }`}
+                    role="status"
+                  >
+                    {captureStatus.message}
+                  </div>
+                )}
+                {overlays.length > 0 && (
+                  <div className="app-elevated app-text-soft pointer-events-none absolute right-4 top-4 rounded-full px-3 py-1 text-[10px] uppercase tracking-[0.28em] shadow-lg">
+                    {overlays.length} overlay{overlays.length === 1 ? '' : 's'}
+                  </div>
+                )}
+              </div>
+            </DeviceFrame>
           )}
         </div>
       </div>
 
-      <div className="app-panel-muted app-divider flex flex-wrap items-center gap-3 border-t px-4 py-3">
-        <button
-          type="button"
-          onClick={togglePlay}
-          disabled={!isInteractive}
-          className="inline-flex h-10 w-10 items-center justify-center rounded-full bg-primary text-primary-foreground transition-colors hover:bg-primary/90 disabled:app-disabled disabled:cursor-not-allowed"
-          aria-label={playerState === 'playing' ? 'Pausar replay' : 'Reproduzir replay'}
-        >
-          {playerState === 'playing' ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
-        </button>
-
-        <button
-          type="button"
-          onClick={restart}
-          disabled={!isInteractive}
-          className="app-outline-action hover:app-outline-action-hover inline-flex h-10 w-10 items-center justify-center rounded-full disabled:cursor-not-allowed disabled:opacity-50"
-          aria-label="Reiniciar replay"
-        >
-          <RotateCcw size={16} />
-        </button>
-
-        <div className="app-elevated app-heading min-w-[7rem] rounded-full px-3 py-2 font-mono text-xs">
-          {formatTime(currentTime)} / {formatTime(duration)}
-        </div>
+      {showControls && (
+        <div className="app-panel-muted app-divider flex flex-wrap items-center gap-3 border-t px-4 py-3">
+          <button
+            type="button"
+            onClick={togglePlay}
+            disabled={!isInteractive}
+            className="inline-flex h-10 w-10 items-center justify-center rounded-full bg-primary text-primary-foreground transition-colors hover:bg-primary/90 disabled:app-disabled disabled:cursor-not-allowed"
+            aria-label={playerState === 'playing' ? 'Pausar replay' : 'Reproduzir replay'}
+          >
+            {playerState === 'playing' ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+          </button>
+
+          <button
+            type="button"
+            onClick={restart}
+            disabled={!isInteractive}
+            className="app-outline-action hover:app-outline-action-hover inline-flex h-10 w-10 items-center justify-center rounded-full disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label="Reiniciar replay"
+          >
+            <RotateCcw size={16} />
+          </button>
+
+          <div className="app-elevated app-heading min-w-[7rem] rounded-full px-3 py-2 font-mono text-xs">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </div>
+
+          <div className="min-w-0 flex-1">
+            <PlayerTimeline
+              duration={duration}
+              currentTime={currentTime ?? 0}
+              disabled={!isInteractive}
+              insights={insights}
+              density={activityDensity}
+              idleSegments={idleSegments}
+              highlightIdle={skipInactivity}
+              loopRange={activeLoop}
+              pendingLoopStart={pendingLoopStart}
+              chapters={chapters}
+              onSeek={seekTo}
+            />
+          </div>
+
+          {onLoopRangeChange && (
+            <div className="app-elevated flex items-center gap-1 rounded-full p-1" role="group" aria-label="Repetição A/B">
+              <Repeat size={14} className={`mx-1 ${activeLoop ? 'app-icon-accent' : 'app-text-muted'}`} />
+              <button
+                type="button"
+                onClick={markLoopStart}
+                disabled={!isInteractive}
+                className={`inline-flex h-8 w-8 items-center justify-center rounded-full text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+                  pendingLoopStart !== null ? 'app-status-queued border' : 'hover:app-hover-surface'
+                }`}
+                aria-label="Marcar ponto A no tempo atual"
+                title="Marcar ponto A"
+              >
+                A
+              </button>
+              <button
+                type="button"
+                onClick={markLoopEnd}
+                disabled={!isInteractive || (pendingLoopStart === null && !activeLoop)}
+                className="hover:app-hover-surface inline-flex h-8 w-8 items-center justify-center rounded-full text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+                aria-label="Marcar ponto B no tempo atual"
+                title="Marcar ponto B"
+              >
+                B
+              </button>
+              {(activeLoop || pendingLoopStart !== null) && (
+                <button
+                  type="button"
+                  onClick={clearLoop}
+                  className="hover:app-hover-surface inline-flex h-8 w-8 items-center justify-center rounded-full"
+                  aria-label="Remover repetição A/B"
+                  title={activeLoop ? `${formatTime(activeLoop.start)}–${formatTime(activeLoop.end)}` : 'Remover ponto A'}
+                >
+                  <X size={14} />
+                </button>
+              )}
+            </div>
+          )}
 
-        <div className="min-w-0 flex-1">
-          <input
-            type="range"
-            min={0}
-            max={duration || 1}
-            value={currentTime ?? 0}
-            onChange={handleSeek}
+          <button
+            type="button"
+            onClick={toggleInspectMode}
+            disabled={!isInteractive || redacted}
+            aria-pressed={inspectMode}
+            className={`inline-flex h-10 items-center justify-center gap-1 rounded-full border px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+              inspectMode ? 'app-status-queued' : 'app-outline-action hover:app-outline-action-hover'
+            }`}
+            aria-label="Alternar inspetor de DOM"
+            title={redacted ? 'O inspetor expõe atributos e valores brutos e fica indisponível na visão redigida' : undefined}
+          >
+            <ScanSearch size={14} />
+            Inspecionar
+          </button>
+
+          <button
+            type="button"
+            onClick={togglePointerTrail}
             disabled={!isInteractive}
-            className="app-divider app-progress-track h-1.5 w-full cursor-pointer appearance-none rounded-full border accent-primary disabled:cursor-not-allowed"
-          />
+            aria-pressed={showPointerTrail}
+            className={`inline-flex h-10 items-center justify-center gap-1 rounded-full border px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+              showPointerTrail ? 'app-status-queued' : 'app-outline-action hover:app-outline-action-hover'
+            }`}
+            aria-label="Alternar rastro do mouse e cliques"
+          >
+            <MousePointer2 size={14} />
+            Rastro
+          </button>
+
+          <button
+            type="button"
+            onClick={toggleHeatmap}
+            disabled={!isInteractive}
+            aria-pressed={isHeatmapActive}
+            className={`inline-flex h-10 items-center justify-center gap-1 rounded-full border px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+              isHeatmapActive ? 'app-status-queued' : 'app-outline-action hover:app-outline-action-hover'
+            }`}
+            aria-label="Alternar heatmap da sessão"
+          >
+            <Flame size={14} />
+            Heatmap
+          </button>
+
+          <button
+            type="button"
+            onClick={toggleSkipInactivity}
+            disabled={!isInteractive || idleSegments.length === 0}
+            aria-pressed={skipInactivity}
+            className={`inline-flex h-10 items-center justify-center gap-1 rounded-full border px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50 ${
+              skipInactivity ? 'app-status-queued' : 'app-outline-action hover:app-outline-action-hover'
+            }`}
+            aria-label="Pular trechos sem interação"
+            title={`${idleSegments.length} trecho(s) ocioso(s) acima de ${IDLE_THRESHOLD_MS / 1000}s`}
+          >
+            <SkipForward size={14} />
+            Ociosidade
+          </button>
+
+          <button
+            type="button"
+            onClick={() => void captureFrame()}
+            disabled={!isInteractive || captureStatus?.tone === 'pending'}
+            className="app-outline-action hover:app-outline-action-hover inline-flex h-10 w-10 items-center justify-center rounded-full disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label="Capturar frame atual como PNG"
+            title="Capturar frame (PNG com overlays)"
+          >
+            <Camera size={16} />
+          </button>
+
+          <button
+            type="button"
+            onClick={cycleSpeed}
+            disabled={!isInteractive}
+            className="app-outline-action hover:app-outline-action-hover inline-flex h-10 min-w-[4.75rem] items-center justify-center gap-1 rounded-full px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+            aria-label="Alterar velocidade de reprodução"
+          >
+            <FastForward size={14} />
+            {speed}x
+          </button>
+
+          <button
+            type="button"
+            onClick={toggleShortcuts}
+            className="app-outline-action hover:app-outline-action-hover inline-flex h-10 w-10 items-center justify-center rounded-full"
+            aria-label="Mostrar atalhos de teclado"
+            aria-pressed={showShortcuts}
+            title="Atalhos de teclado (?)"
+          >
+            <Keyboard size={16} />
+          </button>
         </div>
-
-        <button
-          type="button"
-          onClick={cycleSpeed}
-          disabled={!isInteractive}
-          className="app-outline-action hover:app-outline-action-hover inline-flex h-10 min-w-[4.75rem] items-center justify-center gap-1 rounded-full px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
-          aria-label="Alterar velocidade de reprodução"
-        >
-          <FastForward size={14} />
-          {speed}x
-        </button>
-      </div>
+      )}
     </div>
   );
 }
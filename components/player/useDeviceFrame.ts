@@ -0,0 +1,14 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { inferDeviceFrame, readSessionDeviceInfo, type DeviceFrameKind } from '@/lib/device';
+
+/** Moldura de dispositivo do stage: a escolhida pelo usuário ou, em "auto", a inferida do viewport e do session_meta. */
+export function useDeviceFrame(sessionMeta: Record<string, unknown> | undefined, viewport: { width: number; height: number }) {
+  const [deviceFrameSetting, setDeviceFrameSetting] = useState<DeviceFrameKind | 'auto'>('none');
+  const deviceInfo = useMemo(() => readSessionDeviceInfo(sessionMeta), [sessionMeta]);
+  const autoDeviceFrame = inferDeviceFrame(viewport, deviceInfo);
+  const deviceFrame = deviceFrameSetting === 'auto' ? autoDeviceFrame : deviceFrameSetting;
+
+  return { autoDeviceFrame, deviceFrame, deviceFrameSetting, deviceInfo, setDeviceFrameSetting };
+}
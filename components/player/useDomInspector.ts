@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useCallback, useMemo, useState, type RefObject } from 'react';
+import type rrwebPlayer from 'rrweb-player';
+import {
+  describeElement,
+  extractAxeFindings,
+  matchAxeFindings,
+  type AxeFinding,
+  type InspectedNode,
+} from '@/lib/dom-inspector';
+import { getStageTransform } from '@/lib/rrweb';
+import { BoundingBox } from '@/types/dashboard';
+
+interface DomInspectorOptions {
+  playerRef: RefObject<InstanceType<typeof rrwebPlayer> | null>;
+  playing: boolean;
+  pause: () => void;
+  viewport: { width: number; height: number };
+  stageSize: { width: number; height: number } | null;
+  axeAnalysis?: Record<string, unknown>;
+}
+
+/** Modo de inspeção do DOM do replay: destaque sob o mouse e o nó clicado com os achados do axe. */
+export function useDomInspector({ playerRef, playing, pause, viewport, stageSize, axeAnalysis }: DomInspectorOptions) {
+  const [inspectMode, setInspectMode] = useState(false);
+  const [inspectHoverBox, setInspectHoverBox] = useState<BoundingBox | null>(null);
+  const [inspection, setInspection] = useState<{ node: InspectedNode; findings: AxeFinding[] } | null>(null);
+  const axeFindings = useMemo(() => extractAxeFindings(axeAnalysis), [axeAnalysis]);
+
+  const toggleInspectMode = useCallback(() => {
+    if (!inspectMode && playing) {
+      // Inspecionar exige um DOM estável: o replay é pausado no frame atual.
+      pause();
+    }
+
+    setInspectMode((current) => !current);
+    setInspectHoverBox(null);
+    setInspection(null);
+  }, [inspectMode, pause, playing]);
+
+  // Converte a posição do mouse no stage para o viewport do iframe e devolve o elemento do replay.
+  const resolveInspectTarget = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const player = playerRef.current;
+      const transform = getStageTransform(viewport, stageSize ?? viewport);
+      const document = player?.getReplayer().iframe.contentDocument;
+      if (!player || !transform || !document) {
+        return null;
+      }
+
+      const rect = event.currentTarget.getBoundingClientRect();
+      const x = (event.clientX - rect.left - transform.offsetLeft) / transform.scale;
+      const y = (event.clientY - rect.top - transform.offsetTop) / transform.scale;
+      const element = document.elementFromPoint(x, y);
+      if (!element) {
+        return null;
+      }
+
+      const elementRect = element.getBoundingClientRect();
+      return {
+        player,
+        element,
+        box: {
+          left: elementRect.left * transform.scale + transform.offsetLeft,
+          top: elementRect.top * transform.scale + transform.offsetTop,
+          width: elementRect.width * transform.scale,
+          height: elementRect.height * transform.scale,
+        },
+      };
+    },
+    [playerRef, stageSize, viewport]
+  );
+
+  const handleInspectHover = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      setInspectHoverBox(resolveInspectTarget(event)?.box ?? null);
+    },
+    [resolveInspectTarget]
+  );
+
+  const handleInspectLeave = useCallback(() => {
+    setInspectHoverBox(null);
+  }, []);
+
+  const handleInspectClick = useCallback(
+    (event: React.MouseEvent<HTMLDivElement>) => {
+      const target = resolveInspectTarget(event);
+      if (!target) {
+        return;
+      }
+
+      const nodeId = target.player.getReplayer().getMirror().getId(target.element);
+      setInspection({
+        node: describeElement(target.element, nodeId >= 0 ? nodeId : null),
+        findings: matchAxeFindings(axeFindings, target.element),
+      });
+    },
+    [axeFindings, resolveInspectTarget]
+  );
+
+  return {
+    inspectMode,
+    inspectHoverBox,
+    inspection,
+    toggleInspectMode,
+    handleInspectHover,
+    handleInspectLeave,
+    handleInspectClick,
+  };
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useEffect, useState, type RefObject } from 'react';
+import type rrwebPlayer from 'rrweb-player';
+import { buildFrameCaptureFileName, captureReplayFrame, downloadBlob } from '@/lib/frame-capture';
+import { extractPointerSamples, lowerBoundByOffset } from '@/lib/pointer';
+import { InsightEvent, RrwebSessionEvent } from '@/types/dashboard';
+
+interface FrameCaptureOptions {
+  playerRef: RefObject<InstanceType<typeof rrwebPlayer> | null>;
+  disabled: boolean;
+  pause: () => void;
+  events: RrwebSessionEvent[];
+  currentTime: number;
+  // Tempo atual já formatado para a mensagem de sucesso.
+  currentTimeLabel: string;
+  viewport: { width: number; height: number };
+  scroll: { x: number; y: number };
+  overlays: InsightEvent[];
+  sessionUuid?: string;
+}
+
+type CaptureStatus = { tone: 'pending' | 'done' | 'error'; message: string };
+
+/** Captura o frame atual do replay como PNG, com overlays e cursor, e expõe o status da captura por alguns segundos. */
+export function useFrameCapture({
+  playerRef,
+  disabled,
+  pause,
+  events,
+  currentTime,
+  currentTimeLabel,
+  viewport,
+  scroll,
+  overlays,
+  sessionUuid,
+}: FrameCaptureOptions) {
+  const [captureStatus, setCaptureStatus] = useState<CaptureStatus | null>(null);
+
+  // O frame é capturado pausado para que DOM, scroll e cursor correspondam exatamente ao currentTime.
+  const captureFrame = useCallback(async () => {
+    const player = playerRef.current;
+    const document = player?.getReplayer().iframe.contentDocument;
+    if (!player || !document || disabled) {
+      return;
+    }
+
+    pause();
+    setCaptureStatus({ tone: 'pending', message: 'Capturando frame...' });
+
+    const samples = extractPointerSamples(events);
+    const cursorIndex = lowerBoundByOffset(samples, currentTime + 1) - 1;
+    const info = { sessionUuid: sessionUuid ?? null, timeOffset: currentTime, capturedAt: new Date().toISOString() };
+
+    try {
+      const blob = await captureReplayFrame({
+        document,
+        viewport,
+        scroll,
+        insights: overlays,
+        cursor: cursorIndex >= 0 ? samples[cursorIndex] : null,
+        info,
+      });
+      downloadBlob(blob, buildFrameCaptureFileName(info));
+      setCaptureStatus({ tone: 'done', message: `Frame ${currentTimeLabel} salvo` });
+    } catch (error) {
+      setCaptureStatus({
+        tone: 'error',
+        message: error instanceof Error ? error.message : 'Falha ao capturar o frame.',
+      });
+    }
+  }, [currentTime, currentTimeLabel, disabled, events, overlays, pause, playerRef, scroll, sessionUuid, viewport]);
+
+  useEffect(() => {
+    if (!captureStatus || captureStatus.tone === 'pending') {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => setCaptureStatus(null), 3000);
+    return () => window.clearTimeout(timeout);
+  }, [captureStatus]);
+
+  return { captureStatus, captureFrame };
+}
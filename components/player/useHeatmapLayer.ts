@@ -0,0 +1,18 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { computeSessionHeatmap, type HeatmapLayerKind } from '@/lib/heatmap';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+/** Camada de heatmap escolhida no player; o heatmap só é calculado enquanto alguma camada estiver ativa. */
+export function useHeatmapLayer(events: RrwebSessionEvent[]) {
+  const [heatmapLayer, setHeatmapLayer] = useState<HeatmapLayerKind | null>(null);
+  const isHeatmapActive = heatmapLayer !== null;
+  const heatmap = useMemo(() => (isHeatmapActive ? computeSessionHeatmap(events) : null), [events, isHeatmapActive]);
+
+  const toggleHeatmap = useCallback(() => {
+    setHeatmapLayer((current) => (current ? null : 'clicks'));
+  }, []);
+
+  return { heatmap, heatmapLayer, isHeatmapActive, setHeatmapLayer, toggleHeatmap };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { clampTimeRange, type TimeRange } from '@/lib/rrweb';
+
+interface LoopRangeOptions {
+  loopRange: TimeRange | null;
+  onLoopRangeChange?: (range: TimeRange | null) => void;
+  duration: number;
+  currentTime: number;
+  playing: boolean;
+  seekTo: (time: number) => void;
+}
+
+/**
+ * Repetição A/B: marca os pontos no tempo atual e mantém o replay dentro do intervalo enquanto toca.
+ * O intervalo confirmado pertence à página (vai para a URL); aqui fica só o ponto A ainda sem B.
+ */
+export function useLoopRange({ loopRange, onLoopRangeChange, duration, currentTime, playing, seekTo }: LoopRangeOptions) {
+  const [pendingLoopStart, setPendingLoopStart] = useState<number | null>(null);
+  const activeLoop = useMemo(() => (loopRange ? clampTimeRange(loopRange, duration) : null), [duration, loopRange]);
+
+  useEffect(() => {
+    if (!activeLoop || !playing) {
+      return;
+    }
+
+    // Fora do intervalo A/B o replay volta para o ponto A e continua tocando.
+    if (currentTime >= activeLoop.end || currentTime < activeLoop.start) {
+      seekTo(activeLoop.start);
+    }
+  }, [activeLoop, currentTime, playing, seekTo]);
+
+  const markLoopStart = useCallback(() => {
+    setPendingLoopStart(currentTime);
+  }, [currentTime]);
+
+  const markLoopEnd = useCallback(() => {
+    const start = pendingLoopStart ?? activeLoop?.start ?? null;
+    if (start === null || currentTime <= start) {
+      return;
+    }
+
+    setPendingLoopStart(null);
+    onLoopRangeChange?.({ start, end: currentTime });
+  }, [activeLoop?.start, currentTime, onLoopRangeChange, pendingLoopStart]);
+
+  const clearLoop = useCallback(() => {
+    setPendingLoopStart(null);
+    onLoopRangeChange?.(null);
+  }, [onLoopRangeChange]);
+
+  return { activeLoop, pendingLoopStart, markLoopStart, markLoopEnd, clearLoop };
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { useMemo } from 'react';
+import { getScrollPositionAt, listScrollChanges } from '@/lib/rrweb';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+/**
+ * Posição de scroll do documento no tempo atual, usada para alinhar overlays, heatmap e captura ao replay.
+ * O stream é varrido uma vez por gravação; a cada frame só há uma busca binária.
+ */
+export function useOverlayScroll(events: RrwebSessionEvent[], currentTime: number) {
+  const scrollChanges = useMemo(() => listScrollChanges(events), [events]);
+  return useMemo(() => getScrollPositionAt(scrollChanges, currentTime), [currentTime, scrollChanges]);
+}
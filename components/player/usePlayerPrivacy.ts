@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, type RefObject } from 'react';
+import type rrwebPlayer from 'rrweb-player';
+import { applyReplayPrivacy, type PrivacyRules } from '@/lib/privacy';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+/**
+ * Aplica as regras de privacidade (ou a visão redigida) ao DOM do replay.
+ *
+ * O rrweb reescreve nós e valores a cada evento, e os emite (`event-cast`, `fullsnapshot-rebuilded`)
+ * de forma síncrona logo após aplicá-los. A máscara roda em uma microtask: antes da próxima pintura,
+ * então o DOM sem máscara nunca aparece, e uma só vez para o lote de eventos aplicados num seek.
+ */
+export function usePlayerPrivacy(
+  playerRef: RefObject<InstanceType<typeof rrwebPlayer> | null>,
+  events: RrwebSessionEvent[],
+  privacyRules: PrivacyRules | null,
+  redacted: boolean
+) {
+  // `events` entra nas dependências porque o player é recriado a cada gravação.
+  useEffect(() => {
+    const replayer = playerRef.current?.getReplayer();
+    if (!replayer || (!privacyRules && !redacted)) {
+      return;
+    }
+
+    const rules = privacyRules ?? { maskAllInputs: true, maskInputTypes: [], maskTextSelectors: [], blockSelectors: [] };
+    const mode = redacted ? 'redacted' : 'rules';
+    let active = true;
+    let scheduled = false;
+
+    const applyPrivacy = () => {
+      scheduled = false;
+      const document = replayer.iframe.contentDocument;
+      if (active && document) {
+        applyReplayPrivacy(document, rules, mode);
+      }
+    };
+    const schedulePrivacy = () => {
+      if (active && !scheduled) {
+        scheduled = true;
+        queueMicrotask(applyPrivacy);
+      }
+    };
+
+    replayer.on('event-cast', schedulePrivacy);
+    replayer.on('fullsnapshot-rebuilded', schedulePrivacy);
+    applyPrivacy();
+
+    return () => {
+      active = false;
+      replayer.off('event-cast', schedulePrivacy);
+      replayer.off('fullsnapshot-rebuilded', schedulePrivacy);
+    };
+  }, [events, playerRef, privacyRules, redacted]);
+}
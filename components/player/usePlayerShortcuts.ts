@@ -0,0 +1,119 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export interface PlayerShortcutHandlers {
+  togglePlay: () => void;
+  seekBy: (deltaMs: number) => void;
+  stepEvent: (direction: -1 | 1) => void;
+  jumpInsight: (direction: -1 | 1) => void;
+  setSpeed: (speed: number) => void;
+}
+
+export const SHORTCUT_SPEEDS = [0.5, 1, 2, 4] as const;
+
+export const PLAYER_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['Espaço'], description: 'Reproduzir / pausar' },
+  { keys: ['←', '→'], description: 'Voltar / avançar 1s' },
+  { keys: ['Shift', '←', '→'], description: 'Voltar / avançar 5s' },
+  { keys: [',', '.'], description: 'Evento rrweb anterior / próximo' },
+  { keys: ['[', ']'], description: 'Insight anterior / próximo' },
+  { keys: ['1', '2', '3', '4'], description: `Velocidade ${SHORTCUT_SPEEDS.map((speed) => `${speed}x`).join(' / ')}` },
+  { keys: ['?'], description: 'Mostrar / ocultar atalhos' },
+  { keys: ['Esc'], description: 'Fechar atalhos' },
+];
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) {
+    return true;
+  }
+
+  // O range do replay continua recebendo atalhos; campos de texto não.
+  return target instanceof HTMLInputElement && !['range', 'button', 'checkbox', 'radio'].includes(target.type);
+}
+
+/**
+ * Liga os atalhos de teclado do replay na janela enquanto `enabled` for verdadeiro e controla a folha de atalhos.
+ * Os handlers ficam numa ref para que o listener não seja recriado a cada frame de tempo.
+ */
+export function usePlayerShortcuts(enabled: boolean, handlers: PlayerShortcutHandlers) {
+  const handlersRef = useRef(handlers);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+
+  const toggleShortcuts = useCallback(() => {
+    setShowShortcuts((current) => !current);
+  }, []);
+
+  const closeShortcuts = useCallback(() => {
+    setShowShortcuts(false);
+  }, []);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  }, [handlers]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.metaKey || event.ctrlKey || event.altKey || isTypingTarget(event.target)) {
+        return;
+      }
+
+      const current = handlersRef.current;
+      const speedIndex = Number(event.key) - 1;
+
+      switch (event.key) {
+        case ' ':
+          current.togglePlay();
+          break;
+        case 'ArrowLeft':
+          current.seekBy(event.shiftKey ? -5000 : -1000);
+          break;
+        case 'ArrowRight':
+          current.seekBy(event.shiftKey ? 5000 : 1000);
+          break;
+        case ',':
+          current.stepEvent(-1);
+          break;
+        case '.':
+          current.stepEvent(1);
+          break;
+        case '[':
+          current.jumpInsight(-1);
+          break;
+        case ']':
+          current.jumpInsight(1);
+          break;
+        case '?':
+          toggleShortcuts();
+          break;
+        case 'Escape':
+          closeShortcuts();
+          break;
+        default:
+          if (Number.isInteger(speedIndex) && speedIndex >= 0 && speedIndex < SHORTCUT_SPEEDS.length) {
+            current.setSpeed(SHORTCUT_SPEEDS[speedIndex]);
+            break;
+          }
+
+          return;
+      }
+
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [closeShortcuts, enabled, toggleShortcuts]);
+
+  return { showShortcuts, toggleShortcuts, closeShortcuts };
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { detectRageClickBursts, extractClickSamples, extractPointerSamples } from '@/lib/pointer';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+/** Rastro do mouse, cliques e rajadas de rage click; as amostras só são extraídas com o rastro ligado. */
+export function usePointerTrail(events: RrwebSessionEvent[]) {
+  const [showPointerTrail, setShowPointerTrail] = useState(false);
+
+  const pointerTrail = useMemo(() => {
+    if (!showPointerTrail) {
+      return null;
+    }
+
+    const clicks = extractClickSamples(events);
+    return {
+      samples: extractPointerSamples(events),
+      clicks,
+      bursts: detectRageClickBursts(clicks),
+    };
+  }, [events, showPointerTrail]);
+
+  const togglePointerTrail = useCallback(() => {
+    setShowPointerTrail((current) => !current);
+  }, []);
+
+  return { pointerTrail, showPointerTrail, togglePointerTrail };
+}
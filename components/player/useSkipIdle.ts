@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { detectIdleSegments, findTimeRangeAt } from '@/lib/rrweb';
+import { RrwebSessionEvent } from '@/types/dashboard';
+
+export const IDLE_THRESHOLD_MS = 5000;
+// Ao pular um trecho ocioso, paramos um pouco antes da próxima interação para dar contexto.
+const IDLE_SKIP_LEAD_MS = 800;
+
+interface SkipIdleOptions {
+  events: RrwebSessionEvent[];
+  currentTime: number;
+  playing: boolean;
+  seekTo: (time: number) => void;
+}
+
+/** Detecta os trechos sem interação e, com o pulo ligado, avança sobre eles durante a reprodução. */
+export function useSkipIdle({ events, currentTime, playing, seekTo }: SkipIdleOptions) {
+  const [skipInactivity, setSkipInactivity] = useState(false);
+  const idleSegments = useMemo(() => detectIdleSegments(events, IDLE_THRESHOLD_MS), [events]);
+
+  useEffect(() => {
+    if (!skipInactivity || !playing) {
+      return;
+    }
+
+    const segment = findTimeRangeAt(idleSegments, currentTime);
+    if (!segment) {
+      return;
+    }
+
+    const target = segment.end - IDLE_SKIP_LEAD_MS;
+    if (target - currentTime < IDLE_SKIP_LEAD_MS) {
+      return;
+    }
+
+    seekTo(target);
+  }, [currentTime, idleSegments, playing, seekTo, skipInactivity]);
+
+  const toggleSkipInactivity = useCallback(() => {
+    setSkipInactivity((current) => !current);
+  }, []);
+
+  return { idleSegments, skipInactivity, toggleSkipInactivity };
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useImperativeHandle, type RefObject } from 'react';
+import type rrwebPlayer from 'rrweb-player';
+
+/** Controle imperativo usado quando outro componente comanda o relógio do replay (ex.: comparação). */
+export interface VideoPlayerController {
+  play: () => void;
+  pause: () => void;
+  seek: (time: number, play?: boolean) => void;
+  setSpeed: (speed: number) => void;
+}
+
+interface VideoPlayerControllerOptions {
+  playerRef: RefObject<InstanceType<typeof rrwebPlayer> | null>;
+  duration: number;
+  onPlayingChange: (playing: boolean) => void;
+  onTimeUpdateRef: RefObject<(time: number) => void>;
+  setSpeed: (speed: number) => void;
+}
+
+/** Expõe o `VideoPlayerController` em `controllerRef`, mantendo o estado da UI em sincronia com cada comando. */
+export function useVideoPlayerController(
+  controllerRef: React.Ref<VideoPlayerController> | undefined,
+  { playerRef, duration, onPlayingChange, onTimeUpdateRef, setSpeed }: VideoPlayerControllerOptions
+) {
+  useImperativeHandle(
+    controllerRef,
+    () => ({
+      play: () => {
+        playerRef.current?.play();
+        onPlayingChange(true);
+      },
+      pause: () => {
+        playerRef.current?.pause();
+        onPlayingChange(false);
+      },
+      seek: (time: number, play = false) => {
+        const player = playerRef.current;
+        if (!player) {
+          return;
+        }
+
+        const nextTime = Math.min(Math.max(0, time), duration);
+        player.goto(nextTime, play);
+        onPlayingChange(play);
+        onTimeUpdateRef.current(nextTime);
+      },
+      setSpeed,
+    }),
+    [duration, onPlayingChange, onTimeUpdateRef, playerRef, setSpeed]
+  );
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { FileWarning } from "lucide-react";
+
+import type { ContractWarning, ContractWarningKind } from "@/lib/dashboard-contract";
+
+interface ContractWarningsIndicatorProps {
+  warnings: ContractWarning[];
+}
+
+const KIND_LABELS: Record<ContractWarningKind, string> = {
+  missing: "ausente",
+  coerced: "normalizado",
+  unknown: "desconhecido",
+};
+
+/**
+ * Divergências entre a última resposta do backend e o contrato. A tela continua funcionando
+ * com os valores normalizados; o indicador existe para que a mudança no backend seja notada.
+ */
+export function ContractWarningsIndicator({ warnings }: ContractWarningsIndicatorProps) {
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <details className="relative">
+      <summary className="app-status-queued inline-flex cursor-pointer list-none items-center gap-1 rounded-full border px-2 py-0.5 text-xs">
+        <FileWarning className="h-3 w-3" />
+        {warnings.length} aviso(s) de contrato
+      </summary>
+      <div className="app-elevated absolute left-0 z-20 mt-2 w-80 rounded-xl p-3 shadow-lg">
+        <p className="app-text-soft mb-2 text-xs">
+          A última resposta do backend não segue o contrato esperado; os campos abaixo foram preenchidos ou
+          ajustados pela normalização.
+        </p>
+        <ul className="max-h-64 divide-y overflow-y-auto text-xs">
+          {warnings.map((warning, index) => (
+            <li key={`${warning.path}-${index}`} className="space-y-0.5 py-1.5">
+              <p className="app-heading font-mono">
+                {warning.path} <span className="app-text-muted font-sans">· {KIND_LABELS[warning.kind]}</span>
+              </p>
+              <p className="app-text-soft">{warning.message}</p>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  );
+}
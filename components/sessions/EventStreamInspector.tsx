@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, type FormEvent } from "react";
+import { Crosshair, ListTree, LocateFixed } from "lucide-react";
+
+import { JsonTree } from "@/components/sessions/JsonTree";
+import { Input } from "@/components/ui/input";
+import { decodeRrwebEvent, eventFilterKey, eventFilterLabel } from "@/lib/event-inspector";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+interface Props {
+  events: RrwebSessionEvent[];
+  currentTime?: number;
+  onSeek?: (time: number) => void;
+  redactValues?: boolean;
+}
+
+const ROW_HEIGHT = 28;
+const VIEWPORT_HEIGHT = 448;
+const OVERSCAN_ROWS = 12;
+const ALL_FILTER = "all";
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(3).padStart(6, "0");
+  return `${minutes.toString().padStart(2, "0")}:${seconds}`;
+}
+
+// Busca binária sobre posições já ordenadas (índices de eventos ou offsets).
+function lastPositionAtOrBefore(length: number, valueAt: (position: number) => number, target: number): number {
+  let low = 0;
+  let high = length - 1;
+  let result = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >>> 1;
+    if (valueAt(middle) <= target) {
+      result = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Lista virtualizada do stream rrweb: só as linhas visíveis são decodificadas e montadas,
+ * o que mantém a navegação fluida mesmo com centenas de milhares de eventos.
+ */
+export function EventStreamInspector({ events, currentTime, onSeek, redactValues = false }: Props) {
+  const [filter, setFilter] = useState(ALL_FILTER);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [followReplay, setFollowReplay] = useState(currentTime !== undefined);
+  const [jumpTarget, setJumpTarget] = useState("");
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const start = events[0]?.timestamp ?? 0;
+
+  const filterKeys = useMemo(() => events.map(eventFilterKey), [events]);
+  const filterOptions = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const key of filterKeys) {
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    return Array.from(counts.entries()).sort(([left], [right]) => left.localeCompare(right, undefined, { numeric: true }));
+  }, [filterKeys]);
+
+  const visibleIndices = useMemo(() => {
+    if (filter === ALL_FILTER) {
+      return null;
+    }
+
+    const indices: number[] = [];
+    filterKeys.forEach((key, index) => {
+      if (key === filter) {
+        indices.push(index);
+      }
+    });
+    return indices;
+  }, [filter, filterKeys]);
+
+  const rowCount = visibleIndices ? visibleIndices.length : events.length;
+  const eventIndexAt = (position: number) => (visibleIndices ? visibleIndices[position] : position);
+
+  const activePosition =
+    currentTime === undefined
+      ? -1
+      : lastPositionAtOrBefore(rowCount, (position) => events[eventIndexAt(position)].timestamp - start, currentTime);
+
+  // Mantém a linha do evento atual centralizada enquanto o modo "seguir replay" estiver ativo.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!followReplay || !viewport || activePosition < 0) {
+      return;
+    }
+
+    viewport.scrollTop = Math.max(0, activePosition * ROW_HEIGHT - VIEWPORT_HEIGHT / 2 + ROW_HEIGHT / 2);
+  }, [activePosition, followReplay]);
+
+  function scrollToPosition(position: number) {
+    if (viewportRef.current) {
+      viewportRef.current.scrollTop = Math.max(0, position * ROW_HEIGHT - VIEWPORT_HEIGHT / 2);
+    }
+  }
+
+  function jumpToEvent(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const index = Number(jumpTarget.replace(/\D/g, ""));
+    if (!Number.isInteger(index) || index < 0 || index >= events.length) {
+      return;
+    }
+
+    const position = visibleIndices
+      ? lastPositionAtOrBefore(visibleIndices.length, (candidate) => visibleIndices[candidate], index)
+      : index;
+    setFollowReplay(false);
+    setSelectedIndex(index);
+    scrollToPosition(Math.max(0, position));
+  }
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const rows: number[] = [];
+  for (let position = firstRow; position < lastRow; position += 1) {
+    rows.push(position);
+  }
+
+  const selectedEvent = selectedIndex !== null ? events[selectedIndex] : null;
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="app-eyebrow mr-auto flex items-center gap-2 text-xs font-semibold tracking-[0.24em]">
+          <ListTree className="app-icon-accent h-4 w-4" />
+          Eventos ({rowCount.toLocaleString("pt-BR")}
+          {visibleIndices ? ` de ${events.length.toLocaleString("pt-BR")}` : ""})
+        </h3>
+        <select
+          value={filter}
+          onChange={(event) => {
+            setFilter(event.target.value);
+            setScrollTop(0);
+            if (viewportRef.current) {
+              viewportRef.current.scrollTop = 0;
+            }
+          }}
+          className="app-chip h-9 rounded-md px-2 text-xs"
+          aria-label="Filtrar por tipo e fonte"
+        >
+          <option value={ALL_FILTER}>Todos os tipos</option>
+          {filterOptions.map(([key, count]) => (
+            <option key={key} value={key}>
+              {eventFilterLabel(key)} ({count})
+            </option>
+          ))}
+        </select>
+        <form onSubmit={jumpToEvent} className="flex items-center gap-1">
+          <Input
+            value={jumpTarget}
+            onChange={(event) => setJumpTarget(event.target.value)}
+            placeholder="Ir para #"
+            inputMode="numeric"
+            className="h-9 w-28 font-mono text-xs"
+            aria-label="Ir para o evento de índice"
+          />
+        </form>
+        {currentTime !== undefined && (
+          <button
+            type="button"
+            onClick={() => setFollowReplay((current) => !current)}
+            aria-pressed={followReplay}
+            className={`inline-flex h-9 items-center gap-1 rounded-full border px-3 text-xs font-semibold ${
+              followReplay ? "app-status-queued" : "app-outline-action hover:app-outline-action-hover"
+            }`}
+          >
+            <LocateFixed className="h-3.5 w-3.5" />
+            Seguir replay
+          </button>
+        )}
+      </div>
+
+      <div
+        ref={viewportRef}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        onWheel={() => setFollowReplay(false)}
+        className="app-elevated relative overflow-y-auto rounded-xl font-mono text-xs"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+          {rows.map((position) => {
+            const index = eventIndexAt(position);
+            const event = events[index];
+            const decoded = decodeRrwebEvent(event, redactValues);
+            const offset = event.timestamp - start;
+            const isActive = position === activePosition;
+
+            return (
+              <div
+                key={index}
+                className={`absolute inset-x-0 flex items-center gap-3 pr-3 ${
+                  index === selectedIndex ? "app-status-queued" : isActive ? "app-hover-surface" : "hover:app-hover-surface"
+                }`}
+                style={{ top: position * ROW_HEIGHT, height: ROW_HEIGHT }}
+              >
+                {/* Seleção e busca são botões irmãos: a linha em si não é interativa. */}
+                <button
+                  type="button"
+                  onClick={() => setSelectedIndex(index)}
+                  aria-pressed={index === selectedIndex}
+                  className="flex min-w-0 flex-1 items-center gap-3 self-stretch pl-3 text-left"
+                >
+                  <span className="app-text-muted w-16 shrink-0 text-right">#{index}</span>
+                  <span className={`w-24 shrink-0 ${isActive ? "app-icon-accent" : "app-text-soft"}`}>
+                    {formatOffset(offset)}
+                  </span>
+                  <span className="app-heading w-44 shrink-0 truncate">
+                    {decoded.sourceLabel ?? decoded.typeLabel}
+                  </span>
+                  <span className="app-text-muted w-14 shrink-0">{decoded.nodeId !== null ? `#${decoded.nodeId}` : ""}</span>
+                  <span className="app-text-soft min-w-0 flex-1 truncate">{decoded.summary}</span>
+                </button>
+                {onSeek && (
+                  <button
+                    type="button"
+                    onClick={() => onSeek(offset)}
+                    className="hover:app-hover-surface inline-flex h-6 w-6 shrink-0 items-center justify-center rounded-full"
+                    aria-label={`Posicionar o replay no evento ${index}`}
+                    title="Posicionar o replay neste evento"
+                  >
+                    <Crosshair className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedEvent &&
+        (redactValues ? (
+          <p className="app-callout-info rounded-xl px-4 py-3 text-xs">
+            O JSON completo do evento fica disponível apenas para auditores.
+          </p>
+        ) : (
+          <div className="app-elevated max-h-80 overflow-auto rounded-xl p-4">
+            <JsonTree key={selectedIndex} value={selectedEvent} />
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -1,20 +1,41 @@
 "use client";
 
+import { zodResolver } from "@hookform/resolvers/zod";
 import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { useForm } from "react-hook-form";
 
 import { FileUploader } from "@/components/FileUploader";
-import type {
-  RrwebSessionEvent,
-  SessionJobSubmissionResponse,
-} from "@/types/dashboard";
+import { SessionMetadataForm } from "@/components/sessions/SessionMetadataForm";
+import { UrlImporter } from "@/components/sessions/UrlImporter";
+import { Button } from "@/components/ui/button";
+import {
+  EMPTY_SESSION_METADATA,
+  sessionMetadataSchema,
+  toSessionMeta,
+  type SessionMetadata,
+  type SessionMetadataFormValues,
+} from "@/lib/session-metadata";
+import type { SessionJobSubmissionResponse } from "@/types/dashboard";
+
+type ImportMode = "file" | "url";
 
 export function NewSessionClient() {
   const router = useRouter();
+  const [mode, setMode] = useState<ImportMode>("file");
+  const form = useForm<SessionMetadataFormValues, unknown, SessionMetadata>({
+    resolver: zodResolver(sessionMetadataSchema),
+    defaultValues: EMPTY_SESSION_METADATA,
+    mode: "onBlur",
+  });
+
+  // Chamado pelo uploader ao receber arquivos: valida e devolve o `session_meta` a mesclar.
+  async function resolveSessionMeta(): Promise<Record<string, unknown> | null> {
+    const isValid = await form.trigger();
+    return isValid ? toSessionMeta(sessionMetadataSchema.parse(form.getValues())) : null;
+  }
 
-  function handleFileLoaded(
-    _events: RrwebSessionEvent[],
-    submission: SessionJobSubmissionResponse
-  ) {
+  function handleFileLoaded(submission: SessionJobSubmissionResponse) {
     router.push(`/sessions/${submission.session_uuid}`);
   }
 
@@ -29,11 +50,36 @@ export function NewSessionClient() {
             Envie uma sessão JSON para iniciar a auditoria.
           </h2>
           <p className="app-text-soft mt-3 text-sm leading-relaxed md:text-base">
-            Apos a ingestão, a aplicação redireciona imediatamente para a sessão e inicia o acompanhamento do processamento.
+            Apos a ingestão, a aplicação redireciona imediatamente para a sessão e inicia o acompanhamento do processamento. Vários arquivos ou uma pasta entram em uma fila de importação em lote.
           </p>
         </div>
 
-        <FileUploader onFileLoaded={handleFileLoaded} />
+        <SessionMetadataForm form={form} />
+
+        <div className="flex justify-center gap-2" role="group" aria-label="Origem da gravação">
+          <Button
+            size="sm"
+            variant={mode === "file" ? "default" : "outline"}
+            aria-pressed={mode === "file"}
+            onClick={() => setMode("file")}
+          >
+            Arquivo
+          </Button>
+          <Button
+            size="sm"
+            variant={mode === "url" ? "default" : "outline"}
+            aria-pressed={mode === "url"}
+            onClick={() => setMode("url")}
+          >
+            URL
+          </Button>
+        </div>
+
+        {mode === "file" ? (
+          <FileUploader onFileLoaded={handleFileLoaded} resolveSessionMeta={resolveSessionMeta} />
+        ) : (
+          <UrlImporter onImported={handleFileLoaded} resolveSessionMeta={resolveSessionMeta} />
+        )}
       </div>
     </section>
   );
@@ -3,13 +3,20 @@
 import Link from "next/link";
 import { useEffect, useState } from "react";
 
+import { EventStreamInspector } from "@/components/sessions/EventStreamInspector";
 import { JsonTree } from "@/components/sessions/JsonTree";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { isSessionRawResponse } from "@/lib/rrweb";
 import type { SessionRawResponse } from "@/types/dashboard";
 
-export function RawSessionClient({ uuid }: { uuid: string }) {
+export function RawSessionClient({
+  uuid,
+  canViewUnredacted = false,
+}: {
+  uuid: string;
+  canViewUnredacted?: boolean;
+}) {
   const [payload, setPayload] = useState<SessionRawResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -114,12 +121,7 @@ export function RawSessionClient({ uuid }: { uuid: string }) {
                 </div>
               </div>
 
-              <div className="app-elevated overflow-auto rounded-xl p-4">
-                <h3 className="app-eyebrow mb-4 text-xs font-semibold tracking-[0.24em]">
-                  Events
-                </h3>
-                <JsonTree value={payload?.events ?? []} />
-              </div>
+              <EventStreamInspector events={payload?.events ?? []} redactValues={!canViewUnredacted} />
 
               <div className="app-elevated overflow-auto rounded-xl p-4">
                 <h3 className="app-eyebrow mb-4 text-xs font-semibold tracking-[0.24em]">
@@ -0,0 +1,464 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { AlertCircle, Columns2, FastForward, Pause, Play, RotateCcw } from "lucide-react";
+
+import { PlayerTimeline } from "@/components/player/PlayerTimeline";
+import VideoPlayer, { type VideoPlayerController } from "@/components/player/VideoPlayer";
+import { ContractWarningsIndicator } from "@/components/sessions/ContractWarningsIndicator";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { buildSessionChapters, type SessionChapter } from "@/lib/chapters";
+import { parseSessionJobStatus, type ContractWarning } from "@/lib/dashboard-contract";
+import { resolvePrivacyRules, type PrivacyRules } from "@/lib/privacy";
+import {
+  computeActivityDensity,
+  extractRrwebEvents,
+  isSessionRawResponse,
+  listNavigationEvents,
+  type NavigationMarker,
+} from "@/lib/rrweb";
+import type { InsightEvent, RrwebSessionEvent } from "@/types/dashboard";
+
+type CompareSide = "a" | "b";
+
+interface ComparedSession {
+  events: RrwebSessionEvent[];
+  insights: InsightEvent[];
+  privacyRules: PrivacyRules;
+  contractWarnings: ContractWarning[];
+}
+
+const SIDES: CompareSide[] = ["a", "b"];
+// Diferença máxima tolerada entre o relógio mestre e cada replay antes de ressincronizar.
+const MAX_DRIFT_MS = 250;
+const DENSITY_BUCKETS = 120;
+
+function formatSignedTime(ms: number): string {
+  const sign = ms < 0 ? "-" : "";
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${sign}${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function sessionDuration(events: RrwebSessionEvent[]): number {
+  return events.length < 2 ? 0 : Math.max(0, events[events.length - 1].timestamp - events[0].timestamp);
+}
+
+async function readJson(response: Response, fallbackMessage: string): Promise<unknown> {
+  const data: unknown = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const message =
+      data && typeof data === "object" && "error" in data
+        ? String((data as { error?: unknown }).error ?? fallbackMessage)
+        : `Erro HTTP ${response.status}`;
+    throw new Error(message);
+  }
+
+  return data;
+}
+
+async function loadComparedSession(uuid: string): Promise<ComparedSession> {
+  const [rawData, statusData] = await Promise.all([
+    fetch(`/api/sessions/${uuid}/raw`, { headers: { "Content-Type": "application/json" } }).then((response) =>
+      readJson(response, "Erro ao carregar replay")
+    ),
+    fetch(`/api/sessions/${uuid}/status`, { headers: { "Content-Type": "application/json" } })
+      .then((response) => readJson(response, "Erro ao consultar status"))
+      .catch(() => null),
+  ]);
+
+  const events = extractRrwebEvents(rawData);
+  if (!events) {
+    throw new Error(`Payload bruto da sessão ${uuid} sem events na raiz.`);
+  }
+
+  const status = parseSessionJobStatus(statusData);
+  return {
+    events,
+    insights: status?.data.status === "completed" ? status.data.result?.insights ?? [] : [],
+    privacyRules: resolvePrivacyRules(isSessionRawResponse(rawData) ? rawData.metadata : null),
+    contractWarnings: status?.warnings ?? [],
+  };
+}
+
+export function SessionCompareClient({
+  a,
+  b,
+  canViewUnredacted = false,
+}: {
+  a: string;
+  b: string;
+  canViewUnredacted?: boolean;
+}) {
+  const uuids = useMemo<Record<CompareSide, string>>(() => ({ a, b }), [a, b]);
+  const [sessions, setSessions] = useState<Partial<Record<CompareSide, ComparedSession>>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [anchors, setAnchors] = useState<Record<CompareSide, number>>({ a: 0, b: 0 });
+  const [urlFilter, setUrlFilter] = useState("");
+  const [times, setTimes] = useState<Record<CompareSide, number>>({ a: 0, b: 0 });
+  const [masterTime, setMasterTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const controllersRef = useRef<Record<CompareSide, VideoPlayerController | null>>({ a: null, b: null });
+  const timesRef = useRef<Record<CompareSide, number>>({ a: 0, b: 0 });
+  const sidePlayingRef = useRef<Record<CompareSide, boolean>>({ a: false, b: false });
+  const masterTimeRef = useRef(0);
+
+  useEffect(() => {
+    let active = true;
+
+    async function loadBoth() {
+      try {
+        if (!a || !b) {
+          throw new Error("Informe as duas sessões a comparar pelos parâmetros ?a= e ?b=.");
+        }
+
+        const [sessionA, sessionB] = await Promise.all([loadComparedSession(a), loadComparedSession(b)]);
+        if (active) {
+          setSessions({ a: sessionA, b: sessionB });
+          setError(null);
+        }
+      } catch (fetchError) {
+        if (active) {
+          setError(
+            fetchError instanceof Error
+              ? fetchError.message
+              : "Nao foi possivel carregar as sessões para comparação."
+          );
+        }
+      }
+    }
+
+    void loadBoth();
+    return () => {
+      active = false;
+    };
+  }, [a, b]);
+
+  const durations = useMemo<Record<CompareSide, number>>(
+    () => ({
+      a: sessionDuration(sessions.a?.events ?? []),
+      b: sessionDuration(sessions.b?.events ?? []),
+    }),
+    [sessions]
+  );
+  const navigations = useMemo<Record<CompareSide, NavigationMarker[]>>(
+    () => ({
+      a: listNavigationEvents(sessions.a?.events ?? []),
+      b: listNavigationEvents(sessions.b?.events ?? []),
+    }),
+    [sessions]
+  );
+  const chapters = useMemo<Record<CompareSide, SessionChapter[]>>(
+    () => ({
+      a: buildSessionChapters(sessions.a?.events ?? [], sessions.a?.insights ?? []),
+      b: buildSessionChapters(sessions.b?.events ?? [], sessions.b?.insights ?? []),
+    }),
+    [sessions]
+  );
+  const densities = useMemo<Record<CompareSide, number[]>>(
+    () => ({
+      a: computeActivityDensity(sessions.a?.events ?? [], DENSITY_BUCKETS),
+      b: computeActivityDensity(sessions.b?.events ?? [], DENSITY_BUCKETS),
+    }),
+    [sessions]
+  );
+
+  // O relógio mestre é medido a partir do ponto de alinhamento, então pode começar negativo.
+  const masterMin = -Math.max(anchors.a, anchors.b);
+  const masterMax = Math.max(durations.a - anchors.a, durations.b - anchors.b, 0);
+
+  const syncSide = useCallback(
+    (side: CompareSide, master: number, playing: boolean) => {
+      const controller = controllersRef.current[side];
+      if (!controller) {
+        return;
+      }
+
+      const target = master + anchors[side];
+      const outOfRange = target < 0 || target > durations[side];
+      const drift = Math.abs(timesRef.current[side] - target);
+
+      if (!playing || outOfRange) {
+        if (sidePlayingRef.current[side]) {
+          controller.pause();
+          sidePlayingRef.current[side] = false;
+        }
+
+        const clamped = Math.min(Math.max(0, target), durations[side]);
+        if (Math.abs(timesRef.current[side] - clamped) > MAX_DRIFT_MS / 5) {
+          controller.seek(clamped, false);
+        }
+        return;
+      }
+
+      if (!sidePlayingRef.current[side] || drift > MAX_DRIFT_MS) {
+        controller.seek(target, true);
+        sidePlayingRef.current[side] = true;
+      }
+    },
+    [anchors, durations]
+  );
+
+  useEffect(() => {
+    for (const side of SIDES) {
+      syncSide(side, masterTime, isPlaying);
+    }
+  }, [isPlaying, masterTime, syncSide]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+
+    let frame = 0;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      const next = Math.min(masterMax, masterTimeRef.current + (now - last) * speed);
+      last = now;
+      masterTimeRef.current = next;
+      setMasterTime(next);
+
+      if (next >= masterMax) {
+        setIsPlaying(false);
+        return;
+      }
+
+      frame = window.requestAnimationFrame(tick);
+    };
+
+    frame = window.requestAnimationFrame(tick);
+    return () => {
+      window.cancelAnimationFrame(frame);
+    };
+  }, [isPlaying, masterMax, speed]);
+
+  const seekMaster = useCallback(
+    (time: number) => {
+      const next = Math.min(Math.max(masterMin, time), masterMax);
+      masterTimeRef.current = next;
+      setMasterTime(next);
+    },
+    [masterMax, masterMin]
+  );
+
+  const handleTimeUpdate = useCallback((side: CompareSide, time: number) => {
+    timesRef.current[side] = time;
+    setTimes((current) => (current[side] === time ? current : { ...current, [side]: time }));
+  }, []);
+  const handleTimeUpdateA = useCallback((time: number) => handleTimeUpdate("a", time), [handleTimeUpdate]);
+  const handleTimeUpdateB = useCallback((time: number) => handleTimeUpdate("b", time), [handleTimeUpdate]);
+
+  const updateAnchor = useCallback(
+    (side: CompareSide, offset: number) => {
+      setAnchors((current) => ({ ...current, [side]: offset }));
+      setIsPlaying(false);
+      masterTimeRef.current = 0;
+      setMasterTime(0);
+    },
+    []
+  );
+
+  const alignByUrl = useCallback(() => {
+    const query = urlFilter.trim().toLowerCase();
+    if (!query) {
+      return;
+    }
+
+    const next = { ...anchors };
+    for (const side of SIDES) {
+      const match = navigations[side].find((navigation) => navigation.href.toLowerCase().includes(query));
+      if (match) {
+        next[side] = match.offset;
+      }
+    }
+
+    setAnchors(next);
+    setIsPlaying(false);
+    masterTimeRef.current = 0;
+    setMasterTime(0);
+  }, [anchors, navigations, urlFilter]);
+
+  const cycleSpeed = useCallback(() => {
+    const nextSpeed = speed === 1 ? 2 : speed === 2 ? 4 : speed === 4 ? 0.5 : 1;
+    setSpeed(nextSpeed);
+    for (const side of SIDES) {
+      controllersRef.current[side]?.setSpeed(nextSpeed);
+    }
+  }, [speed]);
+
+  const isReady = Boolean(sessions.a && sessions.b);
+
+  return (
+    <section className="px-4 py-4 md:px-6 md:py-6">
+      <div className="flex flex-col gap-4">
+        <header className="app-panel-muted flex flex-col gap-3 rounded-2xl px-4 py-4 lg:flex-row lg:items-center lg:justify-between">
+          <div className="min-w-0">
+            <h2 className="app-heading flex items-center gap-2 text-sm font-semibold">
+              <Columns2 className="app-icon-accent h-4 w-4" />
+              Comparação de sessões
+            </h2>
+            <p className="app-text-soft mt-1 text-xs">
+              Os dois replays seguem um relógio mestre contado a partir do ponto de alinhamento de cada sessão.
+            </p>
+          </div>
+          <form
+            className="flex flex-wrap items-center gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              alignByUrl();
+            }}
+          >
+            <Input
+              value={urlFilter}
+              onChange={(event) => setUrlFilter(event.target.value)}
+              placeholder="Alinhar na 1ª navegação para URL contendo..."
+              className="h-9 w-72"
+            />
+            <Button type="submit" variant="outline" className="app-outline-action hover:app-outline-action-hover" disabled={!isReady}>
+              Alinhar
+            </Button>
+          </form>
+        </header>
+
+        {error && (
+          <div className="app-callout-error flex items-start gap-2 rounded-xl px-4 py-3 text-sm">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <p>{error}</p>
+          </div>
+        )}
+
+        <div className="grid min-h-0 gap-4 xl:grid-cols-2">
+          {SIDES.map((side) => {
+            const session = sessions[side];
+            const insights = session?.insights ?? [];
+
+            return (
+              <div key={side} className="app-panel-muted flex min-w-0 flex-col overflow-hidden rounded-2xl">
+                <div className="app-divider flex flex-wrap items-center justify-between gap-2 border-b px-4 py-3">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <Link href={`/sessions/${uuids[side]}`} className="app-heading truncate font-mono text-xs hover:underline">
+                      {side.toUpperCase()} · {uuids[side]}
+                    </Link>
+                    <ContractWarningsIndicator warnings={session?.contractWarnings ?? []} />
+                  </div>
+                  <select
+                    value={anchors[side]}
+                    onChange={(event) => updateAnchor(side, Number(event.target.value))}
+                    disabled={!session}
+                    className="app-chip max-w-[16rem] truncate rounded-md px-2 py-1 text-xs"
+                    aria-label={`Ponto de alinhamento da sessão ${side.toUpperCase()}`}
+                  >
+                    <option value={0}>Início da sessão</option>
+                    {navigations[side]
+                      .filter((navigation) => navigation.offset > 0)
+                      .map((navigation) => (
+                        <option key={`${navigation.offset}-${navigation.href}`} value={navigation.offset}>
+                          {formatSignedTime(navigation.offset)} · {navigation.href || "navegação"}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+                <div className="flex min-h-[360px] min-w-0 flex-1">
+                  {session ? (
+                    <VideoPlayer
+                      events={session.events}
+                      insights={insights}
+                      chapters={chapters[side]}
+                      overlays={insights.filter(
+                        (insight) => Math.abs(insight.timestamp - times[side]) < 1000 && Boolean(insight.boundingBox)
+                      )}
+                      currentTime={times[side]}
+                      onTimeUpdate={side === "a" ? handleTimeUpdateA : handleTimeUpdateB}
+                      privacyRules={session.privacyRules}
+                      redacted={!canViewUnredacted}
+                      showControls={false}
+                      enableShortcuts={false}
+                      controllerRef={(controller) => {
+                        controllersRef.current[side] = controller;
+                      }}
+                    />
+                  ) : (
+                    <div className="app-text-soft flex flex-1 items-center justify-center p-6 text-sm">
+                      {error ? "Replay indisponível." : "Carregando eventos rrweb..."}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="app-panel-muted flex flex-col gap-3 rounded-2xl px-4 py-3">
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setIsPlaying((current) => !current)}
+              disabled={!isReady}
+              className="inline-flex h-10 w-10 items-center justify-center rounded-full bg-primary text-primary-foreground transition-colors hover:bg-primary/90 disabled:app-disabled disabled:cursor-not-allowed"
+              aria-label={isPlaying ? "Pausar comparação" : "Reproduzir comparação"}
+            >
+              {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" className="ml-0.5" />}
+            </button>
+            <button
+              type="button"
+              onClick={() => seekMaster(masterMin)}
+              disabled={!isReady}
+              className="app-outline-action hover:app-outline-action-hover inline-flex h-10 w-10 items-center justify-center rounded-full disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Voltar ao início da comparação"
+            >
+              <RotateCcw size={16} />
+            </button>
+            <div className="app-elevated app-heading min-w-[9rem] rounded-full px-3 py-2 font-mono text-xs">
+              {formatSignedTime(masterTime)} / {formatSignedTime(masterMax)}
+            </div>
+            <input
+              type="range"
+              min={masterMin}
+              max={masterMax || 1}
+              value={masterTime}
+              onChange={(event) => seekMaster(Number(event.target.value))}
+              disabled={!isReady}
+              aria-label="Relógio mestre da comparação"
+              className="app-divider app-progress-track h-1.5 min-w-0 flex-1 cursor-pointer appearance-none rounded-full border accent-primary disabled:cursor-not-allowed"
+            />
+            <button
+              type="button"
+              onClick={cycleSpeed}
+              disabled={!isReady}
+              className="app-outline-action hover:app-outline-action-hover inline-flex h-10 min-w-[4.75rem] items-center justify-center gap-1 rounded-full px-3 text-xs font-semibold disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label="Alterar velocidade da comparação"
+            >
+              <FastForward size={14} />
+              {speed}x
+            </button>
+          </div>
+
+          {SIDES.map((side) => (
+            <div key={side} className="grid grid-cols-[2rem_minmax(0,1fr)] items-end gap-2">
+              <span className="app-eyebrow pb-1 text-[10px] font-semibold">{side.toUpperCase()}</span>
+              <PlayerTimeline
+                duration={durations[side]}
+                currentTime={times[side]}
+                disabled={!isReady}
+                insights={sessions[side]?.insights ?? []}
+                density={densities[side]}
+                idleSegments={[]}
+                highlightIdle={false}
+                loopRange={null}
+                pendingLoopStart={null}
+                onSeek={(time) => seekMaster(time - anchors[side])}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -1,29 +1,48 @@
 "use client";
 
 import Link from "next/link";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AlertCircle, Database, FileJson, RefreshCw, Sparkles } from "lucide-react";
 
 import { InsightsPanel } from "@/components/analysis/InsightsPanel";
+import { PluginLogPanel } from "@/components/analysis/PluginLogPanel";
 import { SemanticSummary } from "@/components/analysis/SemanticSummary";
-import VideoPlayer from "@/components/player/VideoPlayer";
+import { ChapterList } from "@/components/player/ChapterList";
+import VideoPlayer, { type VideoPlayerController } from "@/components/player/VideoPlayer";
+import { ContractWarningsIndicator } from "@/components/sessions/ContractWarningsIndicator";
+import { EventStreamInspector } from "@/components/sessions/EventStreamInspector";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { extractRrwebEvents } from "@/lib/rrweb";
+import { buildSessionChapters, type SessionChapter } from "@/lib/chapters";
 import {
-  normalizeSessionJobStatus,
-  normalizeSessionReprocessResponse,
-} from "@/lib/normalization";
+  parseSessionJobStatus,
+  parseSessionReprocessResponse,
+  type ContractWarning,
+} from "@/lib/dashboard-contract";
+import { insightLoopRange } from "@/lib/insights";
+import { extractPluginLogEntries } from "@/lib/plugin-events";
+import { resolvePrivacyRules } from "@/lib/privacy";
+import {
+  extractRrwebEvents,
+  formatTimeRangeParam,
+  parseTimeRangeParam,
+  type TimeRange,
+} from "@/lib/rrweb";
 import type {
   InsightEvent,
   ProcessingStatus,
   RrwebSessionEvent,
   SessionJobStatusResponse,
+  SessionRawMetadata,
   SessionRawResponse,
 } from "@/types/dashboard";
 
 const POLLING_INTERVAL_MS = 5000;
+// Referência estável para as props do player enquanto a análise não terminou.
+const NO_INSIGHTS: InsightEvent[] = [];
+const LOOP_SEARCH_PARAM = "loop";
 
 function statusLabel(status: ProcessingStatus): string {
   switch (status) {
@@ -78,9 +97,17 @@ function statusCopy(
   }
 }
 
-export function SessionDetailClient({ uuid }: { uuid: string }) {
+export function SessionDetailClient({
+  uuid,
+  canViewUnredacted = false,
+}: {
+  uuid: string;
+  canViewUnredacted?: boolean;
+}) {
   const [uploadedEvents, setUploadedEvents] = useState<RrwebSessionEvent[]>([]);
+  const [rawMetadata, setRawMetadata] = useState<SessionRawMetadata | null>(null);
   const [sessionData, setSessionData] = useState<SessionJobStatusResponse | null>(null);
+  const [contractWarnings, setContractWarnings] = useState<ContractWarning[]>([]);
   const [processingStatus, setProcessingStatus] = useState<ProcessingStatus>("queued");
   const [processingError, setProcessingError] = useState<string | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
@@ -89,13 +116,62 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [isReprocessing, setIsReprocessing] = useState(false);
   const pollRef = useRef<number | null>(null);
+  const playerControllerRef = useRef<VideoPlayerController | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  // O intervalo A/B vive na URL para que o trecho possa ser compartilhado com outro auditor.
+  const loopRange = useMemo(
+    () => parseTimeRangeParam(searchParams.get(LOOP_SEARCH_PARAM)),
+    [searchParams]
+  );
+
+  const updateLoopRange = useCallback(
+    (range: TimeRange | null) => {
+      const params = new URLSearchParams(searchParams.toString());
+      if (range) {
+        params.set(LOOP_SEARCH_PARAM, formatTimeRangeParam(range));
+      } else {
+        params.delete(LOOP_SEARCH_PARAM);
+      }
+
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+    },
+    [pathname, router, searchParams]
+  );
+
+  const loopInsight = useCallback(
+    (insight: InsightEvent) => {
+      updateLoopRange(insightLoopRange(insight));
+    },
+    [updateLoopRange]
+  );
+
+  const insights = sessionData?.result?.insights ?? NO_INSIGHTS;
+  const chapters = useMemo(() => buildSessionChapters(uploadedEvents, insights), [insights, uploadedEvents]);
 
-  const activeOverlays = useMemo<InsightEvent[]>(() => {
-    const insights = sessionData?.result?.insights ?? [];
-    return insights.filter(
-      (insight) => Math.abs(insight.timestamp - currentTime) < 1000 && Boolean(insight.boundingBox)
-    );
-  }, [currentTime, sessionData?.result?.insights]);
+  const privacyRules = useMemo(() => resolvePrivacyRules(rawMetadata), [rawMetadata]);
+
+  const pluginLogEntries = useMemo(() => extractPluginLogEntries(uploadedEvents), [uploadedEvents]);
+
+  const seekPlayer = useCallback((time: number) => {
+    playerControllerRef.current?.seek(time);
+  }, []);
+
+  const seekToChapter = useCallback(
+    (chapter: SessionChapter) => {
+      seekPlayer(chapter.start);
+    },
+    [seekPlayer]
+  );
+
+  const activeOverlays = useMemo<InsightEvent[]>(
+    () =>
+      insights.filter((insight) => Math.abs(insight.timestamp - currentTime) < 1000 && Boolean(insight.boundingBox)),
+    [currentTime, insights]
+  );
 
   const loadStatus = useCallback(async () => {
     setIsRefreshing(true);
@@ -114,12 +190,14 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
         throw new Error(message);
       }
 
-      const normalized = normalizeSessionJobStatus(data);
-      if (!normalized) {
+      const parsed = parseSessionJobStatus(data);
+      if (!parsed) {
         throw new Error("Resposta de status invalida.");
       }
 
+      const normalized = parsed.data;
       setSessionData(normalized);
+      setContractWarnings(parsed.warnings);
       setProcessingStatus(normalized.status);
       setProcessingError(normalized.processing_error);
       setStatusError(null);
@@ -153,10 +231,12 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
         throw new Error(message);
       }
 
-      const normalized = normalizeSessionReprocessResponse(data);
-      if (!normalized) {
+      const parsed = parseSessionReprocessResponse(data);
+      if (!parsed) {
         throw new Error("Resposta de reprocessamento invalida.");
       }
+      const normalized = parsed.data;
+      setContractWarnings(parsed.warnings);
 
       setSessionData((previous) => ({
         session_uuid: normalized.session_uuid || previous?.session_uuid || uuid,
@@ -209,6 +289,7 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
 
         if (active) {
           setUploadedEvents(events);
+          setRawMetadata(rawPayload.metadata ?? null);
           setRawError(null);
         }
       } catch (fetchError) {
@@ -285,6 +366,7 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
                     resultado pronto
                   </span>
                 ) : null}
+                <ContractWarningsIndicator warnings={contractWarnings} />
               </div>
             </div>
 
@@ -345,10 +427,21 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
                   <div className="flex min-h-0 min-w-0 flex-1 pt-6">
                     <VideoPlayer
                       key={uuid}
+                      sessionUuid={uuid}
                       events={uploadedEvents}
                       currentTime={currentTime}
                       overlays={activeOverlays}
+                      insights={insights}
+                      chapters={chapters}
+                      loopRange={loopRange}
+                      onLoopRangeChange={updateLoopRange}
+                      axeAnalysis={rawMetadata?.axe_preliminary_analysis}
+                      sessionMeta={rawMetadata?.session_meta}
+                      privacyRules={privacyRules}
+                      redacted={!canViewUnredacted}
+                      rageClickCount={analysisReady ? sessionData?.result?.stats.rage_clicks ?? null : null}
                       onTimeUpdate={setCurrentTime}
+                      controllerRef={playerControllerRef}
                     />
                   </div>
                 ) : (
@@ -358,6 +451,14 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
                 )}
               </CardContent>
             </Card>
+
+            {uploadedEvents.length > 0 && (
+              <ChapterList chapters={chapters} currentTime={currentTime} onSelect={seekToChapter} />
+            )}
+
+            {uploadedEvents.length > 0 && (
+              <PluginLogPanel entries={pluginLogEntries} currentTime={currentTime} onSeek={seekPlayer} />
+            )}
           </section>
 
           <section className="flex min-h-0 min-w-0 flex-col">
@@ -376,8 +477,24 @@ export function SessionDetailClient({ uuid }: { uuid: string }) {
               processingStatus={processingStatus}
               processingError={processingError}
               onReprocess={() => void reprocessSession()}
+              onLoopInsight={loopInsight}
             />
           </section>
+
+          {uploadedEvents.length > 0 && (
+            <section className="flex min-h-0 min-w-0 flex-col lg:col-span-2">
+              <Card className="app-panel-muted">
+                <CardContent className="px-6">
+                  <EventStreamInspector
+                    events={uploadedEvents}
+                    currentTime={currentTime}
+                    onSeek={seekPlayer}
+                    redactValues={!canViewUnredacted}
+                  />
+                </CardContent>
+              </Card>
+            </section>
+          )}
         </main>
       </div>
     </section>
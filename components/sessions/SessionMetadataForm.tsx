@@ -0,0 +1,107 @@
+"use client";
+
+import type { UseFormReturn } from "react-hook-form";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  SESSION_DEVICE_OPTIONS,
+  type SessionMetadata,
+  type SessionMetadataFormValues,
+} from "@/lib/session-metadata";
+
+interface SessionMetadataFormProps {
+  form: UseFormReturn<SessionMetadataFormValues, unknown, SessionMetadata>;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-[var(--status-error-text)]">{message}</p> : null;
+}
+
+/**
+ * Dados do estudo informados no upload. O formulário não tem botão próprio: o `FileUploader`
+ * valida os campos quando um arquivo é solto e mescla o resultado em `session_meta`.
+ */
+export function SessionMetadataForm({ form }: SessionMetadataFormProps) {
+  const {
+    register,
+    formState: { errors },
+  } = form;
+
+  return (
+    <Card className="app-panel mx-auto w-full max-w-2xl">
+      <CardHeader>
+        <CardTitle className="app-heading text-base">Dados da sessão</CardTitle>
+        <CardDescription className="app-text-soft">
+          Identificam a gravação no histórico. A descrição da tarefa também orienta a análise de intenção do backend.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="session-study-name">Estudo *</Label>
+            <Input
+              id="session-study-name"
+              placeholder="Ex.: Checkout rodada 3"
+              aria-invalid={Boolean(errors.studyName)}
+              {...register("studyName")}
+            />
+            <FieldError message={errors.studyName?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-participant-code">Participante</Label>
+            <Input
+              id="session-participant-code"
+              placeholder="Ex.: P07"
+              aria-invalid={Boolean(errors.participantCode)}
+              {...register("participantCode")}
+            />
+            <FieldError message={errors.participantCode?.message} />
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="session-task-description">Tarefa</Label>
+            <textarea
+              id="session-task-description"
+              rows={3}
+              placeholder="O que o participante foi instruído a fazer"
+              aria-invalid={Boolean(errors.taskDescription)}
+              className="app-outline-action w-full rounded-md px-3 py-2 text-sm outline-none focus-visible:ring-2 focus-visible:ring-ring/50"
+              {...register("taskDescription")}
+            />
+            <FieldError message={errors.taskDescription?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-device">Dispositivo</Label>
+            <select
+              id="session-device"
+              className="app-outline-action h-9 w-full rounded-md px-3 text-sm"
+              {...register("device")}
+            >
+              {SESSION_DEVICE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <FieldError message={errors.device?.message} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-tags">Tags</Label>
+            <Input
+              id="session-tags"
+              placeholder="Separadas por vírgula"
+              aria-invalid={Boolean(errors.tags)}
+              {...register("tags")}
+            />
+            <FieldError message={errors.tags?.message} />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
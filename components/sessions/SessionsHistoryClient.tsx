@@ -2,12 +2,13 @@
 
 import Link from "next/link";
 import { useEffect, useState } from "react";
-import { ArrowRight, Clock3, RefreshCw } from "lucide-react";
+import { ArrowRight, Clock3, Columns2, RefreshCw } from "lucide-react";
 
+import { ContractWarningsIndicator } from "@/components/sessions/ContractWarningsIndicator";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { normalizeSessionHistoryList } from "@/lib/normalization";
+import { parseSessionHistoryList, type ContractWarning } from "@/lib/dashboard-contract";
 import type { SessionHistoryItem } from "@/types/dashboard";
 
 function statusClassName(status: SessionHistoryItem["status"]): string {
@@ -40,6 +41,17 @@ export function SessionsHistoryClient() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [contractWarnings, setContractWarnings] = useState<ContractWarning[]>([]);
+  const [compareSelection, setCompareSelection] = useState<string[]>([]);
+
+  // Mantém no máximo duas sessões selecionadas; a mais antiga sai quando uma terceira entra.
+  function toggleCompare(uuid: string) {
+    setCompareSelection((current) =>
+      current.includes(uuid)
+        ? current.filter((item) => item !== uuid)
+        : [...current, uuid].slice(-2)
+    );
+  }
 
   async function loadSessions(refresh = false) {
     if (refresh) {
@@ -62,7 +74,9 @@ export function SessionsHistoryClient() {
         throw new Error(message);
       }
 
-      setSessions(normalizeSessionHistoryList(data));
+      const parsed = parseSessionHistoryList(data);
+      setSessions(parsed?.data ?? []);
+      setContractWarnings(parsed?.warnings ?? []);
       setError(null);
     } catch (fetchError) {
       setError(
@@ -92,17 +106,34 @@ export function SessionsHistoryClient() {
               <p className="app-text-soft mt-2 text-sm">
                 Consulte as análise de sessões anteriores.
               </p>
+              <div className="mt-2">
+                <ContractWarningsIndicator warnings={contractWarnings} />
+              </div>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              {compareSelection.length === 2 ? (
+                <Button asChild variant="outline" className="app-outline-action hover:app-outline-action-hover">
+                  <Link href={`/sessions/compare?a=${compareSelection[0]}&b=${compareSelection[1]}`}>
+                    <Columns2 className="mr-2 h-4 w-4" />
+                    Comparar
+                  </Link>
+                </Button>
+              ) : (
+                <span className="app-text-muted hidden text-xs md:inline">
+                  Selecione 2 sessões para comparar
+                </span>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => void loadSessions(true)}
+                disabled={isRefreshing}
+                className="app-outline-action hover:app-outline-action-hover"
+              >
+                <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+                Atualizar
+              </Button>
             </div>
-            <Button
-              type="button"
-              variant="outline"
-              onClick={() => void loadSessions(true)}
-              disabled={isRefreshing}
-              className="app-outline-action hover:app-outline-action-hover"
-            >
-              <RefreshCw className={`mr-2 h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
-              Atualizar
-            </Button>
           </div>
         </CardHeader>
 
@@ -118,38 +149,68 @@ export function SessionsHistoryClient() {
           ) : (
             <div className="divide-y divide-white/10">
               {sessions.map((session) => (
-                <Link
-                  key={session.session_uuid}
-                  href={`/sessions/${session.session_uuid}`}
-                  className="block transition-colors hover:app-hover-surface"
-                >
-                  <div className="flex flex-col gap-4 px-6 py-5 md:flex-row md:items-center md:justify-between">
-                    <div className="min-w-0 space-y-2">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span className="app-heading font-mono text-sm">
-                          {session.session_uuid}
-                        </span>
-                        <Badge
-                          variant="outline"
-                          className={`h-6 px-2 text-[10px] ${statusClassName(session.status)}`}
-                        >
-                          {session.status}
-                        </Badge>
+                <div key={session.session_uuid} className="flex items-stretch">
+                  <label
+                    className="flex shrink-0 cursor-pointer items-center pl-6"
+                    title="Selecionar para comparação"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={compareSelection.includes(session.session_uuid)}
+                      onChange={() => toggleCompare(session.session_uuid)}
+                      className="h-4 w-4 accent-primary"
+                      aria-label={`Comparar sessão ${session.session_uuid}`}
+                    />
+                  </label>
+                  <Link
+                    href={`/sessions/${session.session_uuid}`}
+                    className="block min-w-0 flex-1 transition-colors hover:app-hover-surface"
+                  >
+                    <div className="flex flex-col gap-4 px-6 py-5 md:flex-row md:items-center md:justify-between">
+                      <div className="min-w-0 space-y-2">
+                        {session.study_name && (
+                          <p className="app-heading truncate text-sm font-semibold">
+                            {session.study_name}
+                            {session.participant_code ? ` · ${session.participant_code}` : ""}
+                          </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span
+                            className={
+                              session.study_name
+                                ? "app-text-muted font-mono text-xs"
+                                : "app-heading font-mono text-sm"
+                            }
+                          >
+                            {session.session_uuid}
+                          </span>
+                          <Badge
+                            variant="outline"
+                            className={`h-6 px-2 text-[10px] ${statusClassName(session.status)}`}
+                          >
+                            {session.status}
+                          </Badge>
+                          {session.tags.map((tag) => (
+                            <span key={tag} className="app-chip rounded-full px-2 py-0.5 text-[10px]">
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                        <p className="app-text-soft line-clamp-2 text-sm">
+                          {session.narrative_preview ?? "Sem narrativa resumida disponivel."}
+                        </p>
                       </div>
-                      <p className="app-text-soft line-clamp-2 text-sm">
-                        {session.narrative_preview ?? "Sem narrativa resumida disponivel."}
-                      </p>
-                    </div>
 
-                    <div className="app-text-soft flex shrink-0 items-center gap-4 text-xs">
-                      <div className="flex items-center gap-2">
-                        <Clock3 className="h-4 w-4" />
-                        <span>{formatDate(session.created_at)}</span>
+                      <div className="app-text-soft flex shrink-0 items-center gap-4 text-xs">
+                        <div className="flex items-center gap-2">
+                          <Clock3 className="h-4 w-4" />
+                          <span>{formatDate(session.created_at)}</span>
+                        </div>
+                        <ArrowRight className="app-icon-accent h-4 w-4" />
                       </div>
-                      <ArrowRight className="app-icon-accent h-4 w-4" />
                     </div>
-                  </div>
-                </Link>
+                  </Link>
+                </div>
               ))}
             </div>
           )}
@@ -0,0 +1,162 @@
+"use client";
+
+import { AlertCircle, Link2, Loader2 } from "lucide-react";
+import { useEffect, useRef, useState, type FormEvent } from "react";
+
+import { DuplicateSessionPanel } from "@/components/DuplicateSessionPanel";
+import { RrwebValidationReportPanel } from "@/components/RrwebValidationReportPanel";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { RrwebValidationReport } from "@/lib/rrweb-validation";
+import {
+  importSessionFromUrl,
+  SessionDuplicateError,
+  SessionUploadError,
+  SessionValidationError,
+} from "@/lib/session-upload";
+import type { SessionDuplicateMatch, SessionJobSubmissionResponse } from "@/types/dashboard";
+
+interface UrlImporterProps {
+  onImported: (submission: SessionJobSubmissionResponse) => void;
+  resolveSessionMeta?: () => Promise<Record<string, unknown> | null>;
+}
+
+type ImportState = "idle" | "importing" | "duplicate" | "error";
+
+interface PendingImport {
+  url: string;
+  sessionMeta: Record<string, unknown> | undefined;
+}
+
+/**
+ * Importação de gravações hospedadas (bucket, storage da ferramenta de gravação): o BFF baixa
+ * o arquivo, então gravações grandes não passam pelo navegador do auditor.
+ */
+export function UrlImporter({ onImported, resolveSessionMeta }: UrlImporterProps) {
+  const [url, setUrl] = useState("");
+  const [state, setState] = useState<ImportState>("idle");
+  const [errorMessage, setErrorMessage] = useState("");
+  const [validationReport, setValidationReport] = useState<RrwebValidationReport | null>(null);
+  const [duplicate, setDuplicate] = useState<SessionDuplicateMatch | null>(null);
+  const pendingRef = useRef<PendingImport | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runImport = async (pending: PendingImport, force = false) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    pendingRef.current = pending;
+    setState("importing");
+    setErrorMessage("");
+    setValidationReport(null);
+
+    try {
+      const submission = await importSessionFromUrl(pending.url, {
+        sessionMeta: pending.sessionMeta,
+        force,
+        signal: controller.signal,
+      });
+      onImported(submission);
+    } catch (error) {
+      if (error instanceof SessionUploadError && error.aborted) {
+        return;
+      }
+      if (error instanceof SessionDuplicateError) {
+        setDuplicate(error.match);
+        setState("duplicate");
+        return;
+      }
+      if (error instanceof SessionValidationError) {
+        setValidationReport(error.report);
+      }
+      console.error("Erro ao importar sessão por URL", error);
+      setErrorMessage(error instanceof Error && error.message ? error.message : "Erro inesperado ao importar a URL.");
+      setState("error");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!url.trim()) {
+      return;
+    }
+
+    const sessionMeta = resolveSessionMeta ? await resolveSessionMeta() : undefined;
+    if (sessionMeta === null) {
+      setErrorMessage("Revise os dados da sessão antes de importar.");
+      setState("error");
+      return;
+    }
+
+    void runImport({ url: url.trim(), sessionMeta });
+  };
+
+  const resolveDuplicate = (force: boolean) => {
+    setDuplicate(null);
+    if (force && pendingRef.current) {
+      void runImport(pendingRef.current, true);
+      return;
+    }
+    setState("idle");
+  };
+
+  return (
+    <div className="flex w-full justify-center">
+      <Card className="app-panel w-full max-w-2xl py-0">
+        <CardContent className="space-y-4 p-6 md:p-8">
+          <form className="space-y-2" onSubmit={handleSubmit}>
+            <Label htmlFor="session-import-url">URL da gravação</Label>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                id="session-import-url"
+                type="text"
+                inputMode="url"
+                placeholder="https://… ou s3://bucket/caminho/gravacao.json.gz"
+                value={url}
+                onChange={(event) => setUrl(event.target.value)}
+                disabled={state === "importing" || state === "duplicate"}
+              />
+              <Button type="submit" disabled={!url.trim() || state === "importing" || state === "duplicate"}>
+                {state === "importing" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />}
+                Importar
+              </Button>
+            </div>
+            <p className="app-text-muted text-xs">
+              O servidor baixa o arquivo, então só origens liberadas pela configuração são aceitas. Dados pessoais
+              encontrados são substituídos sem revisão.
+            </p>
+          </form>
+
+          {state === "importing" && (
+            <p className="app-text-soft text-sm">Baixando e validando a gravação no servidor...</p>
+          )}
+
+          {state === "duplicate" && duplicate && (
+            <DuplicateSessionPanel
+              match={duplicate}
+              onForce={() => resolveDuplicate(true)}
+              onCancel={() => resolveDuplicate(false)}
+            />
+          )}
+
+          {state === "error" &&
+            (validationReport ? (
+              <RrwebValidationReportPanel report={validationReport} />
+            ) : (
+              <div className="app-callout-error flex items-start gap-3 rounded-xl px-4 py-3 text-sm">
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                <p>{errorMessage}</p>
+              </div>
+            ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SessionDuplicateMatch, SessionJobSubmissionResponse } from '@/types/dashboard';
+import {
+  ingestSessionFile,
+  SessionDuplicateError,
+  SessionUploadError,
+  SessionValidationError,
+  type UploadProgress,
+} from '@/lib/session-upload';
+
+export type QueueItemStatus = 'queued' | 'validating' | 'uploading' | 'success' | 'duplicate' | 'error';
+
+export interface SessionUploadQueueItem {
+  id: string;
+  name: string;
+  size: number;
+  status: QueueItemStatus;
+  progress: UploadProgress | null;
+  eventCount: number;
+  piiReplaced: number;
+  importerLabel: string | null;
+  error: string | null;
+  submission: SessionJobSubmissionResponse | null;
+  // Sessão já importada com o mesmo conteúdo; o arquivo aguarda confirmação para seguir.
+  duplicate: SessionDuplicateMatch | null;
+}
+
+// Uploads simultâneos: o suficiente para ocupar a banda sem sobrecarregar o BFF e o worker.
+const MAX_CONCURRENT_UPLOADS = 3;
+
+let nextItemId = 0;
+
+/**
+ * Fila de importação em lote: cada arquivo passa pelo mesmo fluxo do upload único, com
+ * no máximo `MAX_CONCURRENT_UPLOADS` em andamento e novas tentativas para os que falharam.
+ */
+export function useSessionUploadQueue() {
+  const [items, setItems] = useState<SessionUploadQueueItem[]>([]);
+  const filesRef = useRef(
+    new Map<string, { file: File; sessionMeta?: Record<string, unknown>; piiPatterns: string[]; force?: boolean }>()
+  );
+  const pendingRef = useRef<string[]>([]);
+  const runningRef = useRef(0);
+  const abortRef = useRef(new AbortController());
+
+  // Cancela os envios em andamento se o usuário sair da página. O controller é criado no efeito
+  // porque o Strict Mode desmonta e remonta o componente: abortar o da primeira montagem deixaria
+  // a fila presa em um sinal já cancelado.
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const updateItem = useCallback((id: string, patch: Partial<SessionUploadQueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  }, []);
+
+  const runItem = useCallback(
+    async (id: string) => {
+      const entry = filesRef.current.get(id);
+      if (!entry) {
+        return;
+      }
+
+      try {
+        const submission = await ingestSessionFile(entry.file, {
+          sessionMeta: entry.sessionMeta,
+          piiPatterns: entry.piiPatterns,
+          force: entry.force,
+          // Em lote não há revisão por arquivo: todos os dados pessoais encontrados são substituídos.
+          onImported: (importer) => updateItem(id, { importerLabel: importer.label }),
+          onScrubbed: (report) => updateItem(id, { piiReplaced: report.total }),
+          onStage: (stage, eventCount) => updateItem(id, { status: stage, eventCount }),
+          onProgress: (progress) => updateItem(id, { progress }),
+          signal: abortRef.current.signal,
+        });
+        updateItem(id, { status: 'success', submission });
+      } catch (error) {
+        if (error instanceof SessionUploadError && error.aborted) {
+          return;
+        }
+        if (error instanceof SessionDuplicateError) {
+          updateItem(id, { status: 'duplicate', duplicate: error.match });
+          return;
+        }
+        const message =
+          error instanceof Error && error.message ? error.message : 'Erro inesperado ao processar o arquivo.';
+        // Na fila não há espaço para o relatório inteiro; o primeiro problema costuma bastar.
+        const firstIssue = error instanceof SessionValidationError ? error.report.issues[0] : undefined;
+        const location = firstIssue?.eventIndex === null ? 'gravação' : `evento #${firstIssue?.eventIndex}`;
+        updateItem(id, {
+          status: 'error',
+          error: firstIssue ? `${message} Primeiro problema (${location}): ${firstIssue.message}` : message,
+        });
+      }
+    },
+    [updateItem]
+  );
+
+  const pump = useCallback(() => {
+    const startNext = () => {
+      while (runningRef.current < MAX_CONCURRENT_UPLOADS && pendingRef.current.length > 0) {
+        const id = pendingRef.current.shift() as string;
+        runningRef.current += 1;
+        void runItem(id).finally(() => {
+          runningRef.current -= 1;
+          startNext();
+        });
+      }
+    };
+
+    startNext();
+  }, [runItem]);
+
+  const enqueue = useCallback(
+    (files: File[], sessionMeta: Record<string, unknown> | undefined, piiPatterns: string[]) => {
+      const added = files.map<SessionUploadQueueItem>((file) => {
+        nextItemId += 1;
+        const id = `upload-${nextItemId}`;
+        filesRef.current.set(id, { file, sessionMeta, piiPatterns });
+        pendingRef.current.push(id);
+        return {
+          id,
+          name: file.webkitRelativePath || file.name,
+          size: file.size,
+          status: 'queued',
+          progress: null,
+          eventCount: 0,
+          piiReplaced: 0,
+          importerLabel: null,
+          error: null,
+          submission: null,
+          duplicate: null,
+        };
+      });
+
+      setItems((current) => [...current, ...added]);
+      pump();
+    },
+    [pump]
+  );
+
+  const retry = useCallback(
+    (ids: string[]) => {
+      for (const id of ids) {
+        pendingRef.current.push(id);
+        updateItem(id, { status: 'queued', error: null, progress: null, duplicate: null });
+      }
+      pump();
+    },
+    [pump, updateItem]
+  );
+
+  // Envia como novas sessões os arquivos que o índice de hashes apontou como já importados.
+  const forceDuplicates = useCallback(
+    (ids: string[]) => {
+      for (const id of ids) {
+        const entry = filesRef.current.get(id);
+        if (entry) {
+          filesRef.current.set(id, { ...entry, force: true });
+        }
+      }
+      retry(ids);
+    },
+    [retry]
+  );
+
+  const clear = useCallback(() => {
+    abortRef.current.abort();
+    abortRef.current = new AbortController();
+    filesRef.current.clear();
+    pendingRef.current = [];
+    setItems([]);
+  }, []);
+
+  return { items, enqueue, retry, forceDuplicates, clear };
+}
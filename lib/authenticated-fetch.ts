@@ -15,6 +15,8 @@ export type AuthenticatedFetchErrorCode =
 export interface AuthenticatedFetchOptions extends RequestInit {
   baseUrl?: string;
   throwOnError?: boolean;
+  // Exigido pelo fetch do Node quando o corpo é um ReadableStream.
+  duplex?: "half";
 }
 
 export class AuthenticatedFetchError extends Error {
@@ -224,6 +226,20 @@ export async function authenticatedPost<T = unknown>(
   });
 }
 
+/** Repassa um corpo em stream sem bufferizar, usado para gravações grandes. */
+export async function authenticatedPostStream<T = unknown>(
+  endpoint: string,
+  body: ReadableStream<Uint8Array>,
+  options?: Omit<AuthenticatedFetchOptions, "method" | "body" | "duplex">
+): Promise<T> {
+  return authenticatedFetch<T>(endpoint, {
+    ...options,
+    method: "POST",
+    body,
+    duplex: "half",
+  });
+}
+
 export async function authenticatedPut<T = unknown>(
   endpoint: string,
   body: unknown,
@@ -0,0 +1,135 @@
+import {
+  getSessionStartTimestamp,
+  readEventData,
+  RRWEB_EVENT_TYPE,
+  RRWEB_INCREMENTAL_SOURCE,
+} from "@/lib/rrweb";
+import type { InsightEvent, RrwebSessionEvent } from "@/types/dashboard";
+
+/** Trecho da sessão correspondente a um carregamento de página. Tempos em ms desde o início. */
+export interface SessionChapter {
+  index: number;
+  href: string;
+  start: number;
+  end: number;
+  insightCount: number;
+  actionCount: number;
+}
+
+const MOUSE_INTERACTION_CLICK = 2;
+
+/** Cliques e alterações de input contam como ações explícitas do usuário. */
+function isUserActionEvent(event: RrwebSessionEvent): boolean {
+  if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+    return false;
+  }
+
+  const data = readEventData(event);
+  return (
+    (data.source === RRWEB_INCREMENTAL_SOURCE.MouseInteraction && data.type === MOUSE_INTERACTION_CLICK) ||
+    data.source === RRWEB_INCREMENTAL_SOURCE.Input
+  );
+}
+
+/**
+ * Divide a sessão em capítulos de navegação. Cada evento Meta (carregamento de página)
+ * abre um capítulo; snapshots completos sem Meta anterior são checkouts periódicos do
+ * rrweb e só abrem capítulo quando a gravação começa sem nenhum Meta.
+ */
+export function buildSessionChapters(
+  events: RrwebSessionEvent[],
+  insights: InsightEvent[] = []
+): SessionChapter[] {
+  if (events.length === 0) {
+    return [];
+  }
+
+  const start = getSessionStartTimestamp(events);
+  const duration = Math.max(0, events[events.length - 1].timestamp - start);
+  const chapters: SessionChapter[] = [];
+  let awaitingSnapshot = false;
+  let leadingActions = 0;
+
+  const openChapter = (offset: number, href: string) => {
+    const previous = chapters[chapters.length - 1];
+    // Um Meta repetido no mesmo instante (ex.: reenvio do recorder) não gera capítulo vazio.
+    if (previous && previous.start === offset) {
+      previous.href = href || previous.href;
+      return;
+    }
+
+    chapters.push({ index: chapters.length, href, start: offset, end: duration, insightCount: 0, actionCount: 0 });
+  };
+
+  for (const event of events) {
+    const offset = event.timestamp - start;
+
+    if (event.type === RRWEB_EVENT_TYPE.Meta) {
+      const href = readEventData(event).href;
+      openChapter(offset, typeof href === "string" ? href : "");
+      awaitingSnapshot = true;
+      continue;
+    }
+
+    if (event.type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      if (!awaitingSnapshot && chapters.length === 0) {
+        openChapter(offset, "");
+      }
+      awaitingSnapshot = false;
+      continue;
+    }
+
+    if (isUserActionEvent(event)) {
+      const current = chapters[chapters.length - 1];
+      if (current) {
+        current.actionCount += 1;
+      } else {
+        leadingActions += 1;
+      }
+    }
+  }
+
+  if (chapters.length === 0) {
+    return [];
+  }
+
+  // O primeiro capítulo cobre também eventos anteriores ao primeiro Meta/snapshot.
+  chapters[0].start = 0;
+  chapters[0].actionCount += leadingActions;
+  for (let index = 0; index < chapters.length - 1; index += 1) {
+    chapters[index].end = chapters[index + 1].start;
+  }
+
+  for (const insight of insights) {
+    const chapter = findChapterAt(chapters, insight.timestamp);
+    if (chapter) {
+      chapter.insightCount += 1;
+    }
+  }
+
+  return chapters;
+}
+
+export function findChapterAt(chapters: SessionChapter[], time: number): SessionChapter | null {
+  for (let index = chapters.length - 1; index >= 0; index -= 1) {
+    if (time >= chapters[index].start) {
+      return chapters[index];
+    }
+  }
+
+  return chapters[0] ?? null;
+}
+
+/** Rótulo curto do capítulo: caminho da URL ou, na falta dela, o número do capítulo. */
+export function formatChapterLabel(chapter: SessionChapter): string {
+  if (!chapter.href) {
+    return `Página ${chapter.index + 1}`;
+  }
+
+  try {
+    const url = new URL(chapter.href);
+    return `${url.pathname}${url.search}` || url.host;
+  } catch {
+    return chapter.href;
+  }
+}
@@ -0,0 +1,354 @@
+import "server-only";
+
+import { createHash, randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { auth } from "@/auth";
+import { AuthenticatedFetchError } from "@/lib/authenticated-fetch";
+import { describeIngestError, submitSessionStream, type IngestErrorBody } from "@/lib/session-ingest";
+import type { ChunkedUploadStatus, SessionJobSubmissionResponse } from "@/types/dashboard";
+
+export type ChunkedUploadErrorCode =
+  | "UNAUTHENTICATED"
+  | "INVALID_REQUEST"
+  | "NOT_FOUND"
+  | "FORBIDDEN"
+  | "INCOMPLETE"
+  | "CHECKSUM_MISMATCH"
+  | "TOO_LARGE";
+
+export class ChunkedUploadError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: ChunkedUploadErrorCode
+  ) {
+    super(message);
+    this.name = "ChunkedUploadError";
+  }
+}
+
+interface UploadManifest {
+  uploadId: string;
+  owner: string;
+  size: number;
+  chunkSize: number;
+  totalChunks: number;
+  createdAt: number;
+}
+
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_MAX_UPLOAD_BYTES = 1024 * 1024 * 1024;
+// Uploads abandonados são descartados depois desse prazo.
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const MANIFEST_FILE = "manifest.json";
+const UPLOAD_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Armazenamento local das partes. Serve como substituto de um object storage enquanto o
+ * backend não oferece upload em partes; em produção precisa ser um volume compartilhado.
+ */
+function resolveStorageRoot(): string {
+  return process.env.INGEST_UPLOAD_DIR || path.join(tmpdir(), "ux-auditor-uploads");
+}
+
+function resolveMaxUploadBytes(): number {
+  const configured = Number(process.env.INGEST_UPLOAD_MAX_BYTES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+function uploadDir(uploadId: string): string {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    throw new ChunkedUploadError("Upload não encontrado", 404, "NOT_FOUND");
+  }
+
+  return path.join(resolveStorageRoot(), uploadId);
+}
+
+function chunkPath(uploadId: string, index: number): string {
+  return path.join(uploadDir(uploadId), `${index}.part`);
+}
+
+function sha256(data: Buffer | string): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Checksum do upload inteiro: SHA-256 da concatenação dos SHA-256 (hex) de cada parte.
+ * Assim o navegador calcula parte a parte sem carregar o arquivo inteiro na memória.
+ */
+export function combineChunkChecksums(chunkChecksums: string[]): string {
+  return sha256(chunkChecksums.join(""));
+}
+
+function toStatus(manifest: UploadManifest, receivedChunks: number[]): ChunkedUploadStatus {
+  return {
+    upload_id: manifest.uploadId,
+    size: manifest.size,
+    chunk_size: manifest.chunkSize,
+    total_chunks: manifest.totalChunks,
+    received_chunks: receivedChunks,
+    expires_at: new Date(manifest.createdAt + UPLOAD_TTL_MS).toISOString(),
+  };
+}
+
+async function readManifest(uploadId: string, owner: string): Promise<UploadManifest> {
+  let manifest: UploadManifest;
+  try {
+    manifest = JSON.parse(await readFile(path.join(uploadDir(uploadId), MANIFEST_FILE), "utf8")) as UploadManifest;
+  } catch (error) {
+    if (error instanceof ChunkedUploadError) {
+      throw error;
+    }
+    throw new ChunkedUploadError("Upload não encontrado", 404, "NOT_FOUND");
+  }
+
+  if (manifest.owner !== owner) {
+    throw new ChunkedUploadError("Upload pertence a outro usuário", 403, "FORBIDDEN");
+  }
+  if (Date.now() - manifest.createdAt > UPLOAD_TTL_MS) {
+    await rm(uploadDir(uploadId), { recursive: true, force: true });
+    throw new ChunkedUploadError("Upload expirado", 404, "NOT_FOUND");
+  }
+
+  return manifest;
+}
+
+async function listReceivedChunks(uploadId: string): Promise<number[]> {
+  const entries = await readdir(uploadDir(uploadId));
+  return entries
+    .filter((entry) => entry.endsWith(".part"))
+    .map((entry) => Number(entry.slice(0, -".part".length)))
+    .filter(Number.isInteger)
+    .sort((a, b) => a - b);
+}
+
+async function removeExpiredUploads() {
+  const root = resolveStorageRoot();
+  const entries = await readdir(root).catch(() => [] as string[]);
+
+  await Promise.all(
+    entries.map(async (entry) => {
+      const info = await stat(path.join(root, entry)).catch(() => null);
+      if (info && Date.now() - info.mtimeMs > UPLOAD_TTL_MS) {
+        await rm(path.join(root, entry), { recursive: true, force: true });
+      }
+    })
+  );
+}
+
+export async function createChunkedUpload(owner: string, size: number): Promise<ChunkedUploadStatus> {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new ChunkedUploadError("Tamanho do upload inválido", 400, "INVALID_REQUEST");
+  }
+
+  const maxBytes = resolveMaxUploadBytes();
+  if (size > maxBytes) {
+    throw new ChunkedUploadError(
+      `O upload passa do limite de ${Math.round(maxBytes / (1024 * 1024))} MB`,
+      413,
+      "TOO_LARGE"
+    );
+  }
+
+  await removeExpiredUploads();
+
+  const manifest: UploadManifest = {
+    uploadId: randomUUID(),
+    owner,
+    size,
+    chunkSize: CHUNK_SIZE,
+    totalChunks: Math.ceil(size / CHUNK_SIZE),
+    createdAt: Date.now(),
+  };
+
+  await mkdir(uploadDir(manifest.uploadId), { recursive: true });
+  await writeFile(path.join(uploadDir(manifest.uploadId), MANIFEST_FILE), JSON.stringify(manifest));
+
+  return toStatus(manifest, []);
+}
+
+export async function getChunkedUploadStatus(uploadId: string, owner: string): Promise<ChunkedUploadStatus> {
+  const manifest = await readManifest(uploadId, owner);
+  return toStatus(manifest, await listReceivedChunks(uploadId));
+}
+
+function resolveExpectedChunkSize(manifest: UploadManifest, index: number): number {
+  if (!Number.isInteger(index) || index < 0 || index >= manifest.totalChunks) {
+    throw new ChunkedUploadError("Índice de parte inválido", 400, "INVALID_REQUEST");
+  }
+
+  return index === manifest.totalChunks - 1 ? manifest.size - index * manifest.chunkSize : manifest.chunkSize;
+}
+
+/**
+ * Confere o `Content-Length` da parte antes de a rota ler o corpo, para que um corpo maior que
+ * a parte não chegue a ser carregado na memória.
+ */
+export async function assertChunkRequestSize(
+  uploadId: string,
+  owner: string,
+  index: number,
+  contentLength: string | null
+): Promise<void> {
+  const expectedSize = resolveExpectedChunkSize(await readManifest(uploadId, owner), index);
+  const declaredSize = Number(contentLength);
+
+  if (!contentLength || !Number.isInteger(declaredSize)) {
+    throw new ChunkedUploadError("Envie a parte com Content-Length", 411, "INVALID_REQUEST");
+  }
+  if (declaredSize > expectedSize) {
+    throw new ChunkedUploadError(
+      `Parte ${index} com ${declaredSize} bytes; esperado ${expectedSize}`,
+      413,
+      "TOO_LARGE"
+    );
+  }
+}
+
+/** Grava uma parte, conferindo o tamanho esperado e o checksum enviado pelo cliente. */
+export async function writeUploadChunk(
+  uploadId: string,
+  owner: string,
+  index: number,
+  data: Buffer,
+  checksum: string | null
+): Promise<void> {
+  const expectedSize = resolveExpectedChunkSize(await readManifest(uploadId, owner), index);
+  if (data.byteLength !== expectedSize) {
+    throw new ChunkedUploadError(
+      `Parte ${index} com ${data.byteLength} bytes; esperado ${expectedSize}`,
+      400,
+      "INVALID_REQUEST"
+    );
+  }
+  if (checksum && sha256(data) !== checksum.toLowerCase()) {
+    throw new ChunkedUploadError(`Checksum da parte ${index} não confere`, 422, "CHECKSUM_MISMATCH");
+  }
+
+  // Grava em arquivo temporário e renomeia, para que uma conexão cortada no meio não deixe
+  // uma parte truncada contando como recebida.
+  const target = chunkPath(uploadId, index);
+  await writeFile(`${target}.tmp`, data);
+  await rename(`${target}.tmp`, target);
+}
+
+async function hashUploadPart(uploadId: string, index: number): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of createReadStream(chunkPath(uploadId, index))) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest("hex");
+}
+
+async function* readUploadParts(uploadId: string, indexes: number[]): AsyncGenerator<Uint8Array> {
+  for (const index of indexes) {
+    for await (const chunk of createReadStream(chunkPath(uploadId, index))) {
+      yield chunk as Buffer;
+    }
+  }
+}
+
+/** As partes em ordem, lidas do disco sob demanda, como um único corpo. */
+function streamUploadParts(uploadId: string, indexes: number[]): ReadableStream<Uint8Array> {
+  const parts = readUploadParts(uploadId, indexes);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await parts.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await parts.return(undefined);
+    },
+  });
+}
+
+/**
+ * Confere o checksum do upload e encaminha as partes, em ordem e em stream, pelo mesmo caminho
+ * do envio direto do dashboard (`submitSessionStream`): o envelope é validado e o hash de
+ * conteúdo calculado enquanto segue para o backend, sem juntar o arquivo na memória.
+ * As partes são removidas após o envio.
+ */
+export async function finalizeChunkedUpload(
+  uploadId: string,
+  owner: string,
+  checksum: string,
+  { force = false }: { force?: boolean } = {}
+): Promise<SessionJobSubmissionResponse> {
+  const manifest = await readManifest(uploadId, owner);
+  const received = await listReceivedChunks(uploadId);
+
+  if (received.length !== manifest.totalChunks) {
+    throw new ChunkedUploadError(
+      `Upload incompleto: ${received.length} de ${manifest.totalChunks} partes recebidas`,
+      409,
+      "INCOMPLETE"
+    );
+  }
+
+  // O checksum é conferido antes do envio, para que nada chegue ao backend de um upload adulterado.
+  const chunkChecksums: string[] = [];
+  for (const index of received) {
+    chunkChecksums.push(await hashUploadPart(uploadId, index));
+  }
+  if (combineChunkChecksums(chunkChecksums) !== checksum.toLowerCase()) {
+    throw new ChunkedUploadError("Checksum do upload não confere", 422, "CHECKSUM_MISMATCH");
+  }
+
+  // Uma duplicata mantém as partes, para o usuário poder confirmar o envio sem reenviá-las.
+  const response = await submitSessionStream(streamUploadParts(uploadId, received), {
+    owner,
+    force,
+    contentLength: String(manifest.size),
+  });
+  await rm(uploadDir(uploadId), { recursive: true, force: true });
+
+  return response;
+}
+
+export async function deleteChunkedUpload(uploadId: string, owner: string): Promise<void> {
+  await readManifest(uploadId, owner);
+  await rm(uploadDir(uploadId), { recursive: true, force: true });
+}
+
+/** Dono dos uploads: o `sub` do usuário autenticado, para que ninguém retome o envio de outro. */
+export async function resolveUploadOwner(): Promise<string> {
+  const session = await auth();
+  const owner = session?.user?.sub;
+
+  if (!owner) {
+    throw new ChunkedUploadError("Autenticação necessária", 401, "UNAUTHENTICATED");
+  }
+
+  return owner;
+}
+
+/** Converte erros do protocolo e do backend no corpo/status devolvido pelas rotas. */
+export function describeChunkedUploadError(error: unknown): {
+  body: IngestErrorBody;
+  status: number;
+} {
+  const ingestError = describeIngestError(error);
+  if (ingestError) {
+    return ingestError;
+  }
+  if (error instanceof ChunkedUploadError || error instanceof AuthenticatedFetchError) {
+    return { body: { error: error.message, code: error.code }, status: error.status || 500 };
+  }
+
+  return {
+    body: {
+      error: `Falha no upload em partes: ${error instanceof Error ? error.message : "Erro desconhecido"}`,
+      code: "INTERNAL_ERROR",
+    },
+    status: 500,
+  };
+}
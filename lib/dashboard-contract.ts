@@ -0,0 +1,222 @@
+import { z } from "zod";
+
+import {
+  normalizeSessionHistoryList,
+  normalizeSessionJobStatus,
+  normalizeSessionJobSubmission,
+  normalizeSessionReprocessResponse,
+} from "@/lib/normalization";
+import type {
+  SessionHistoryItem,
+  SessionJobStatusResponse,
+  SessionJobSubmissionResponse,
+  SessionReprocessResponse,
+} from "@/types/dashboard";
+
+/**
+ * Contrato das respostas do backend. Os tipos de `types/dashboard.ts` são derivados daqui;
+ * objetos de formato fixo são estritos para que campos novos do backend apareçam como aviso.
+ */
+export const jobStatusSchema = z.enum(["queued", "processing", "completed", "failed"]);
+
+const recordSchema = z.record(z.string(), z.unknown());
+
+export const boundingBoxSchema = z.strictObject({
+  top: z.number(),
+  left: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export const insightEventSchema = z.strictObject({
+  id: z.string(),
+  timestamp: z.number(),
+  type: z.string(),
+  severity: z.string(),
+  message: z.string(),
+  boundingBox: boundingBoxSchema.optional(),
+});
+
+export const sessionJobSubmissionResponseSchema = z.strictObject({
+  status: z.literal("queued"),
+  message: z.string(),
+  session_uuid: z.string(),
+  user_id: z.string(),
+});
+
+export const sessionReprocessResponseSchema = z.strictObject({
+  session_uuid: z.string(),
+  user_id: z.string(),
+  status: z.literal("queued"),
+  message: z.string(),
+});
+
+export const sessionProcessStatsSchema = z.strictObject({
+  total_events: z.number(),
+  kinematic_vectors: z.number(),
+  user_actions: z.number(),
+  ml_insights: z.number(),
+  rage_clicks: z.number(),
+});
+
+// Saídas do LLM: campos extras são esperados e preservados.
+export const psychometricsSchema = z.looseObject({
+  overall_confidence: z.number().optional(),
+  goal_hypothesis: recordSchema.optional(),
+  friction_points: z.array(z.unknown()).optional(),
+  progress_signals: z.array(z.unknown()).optional(),
+});
+
+export const intentAnalysisSchema = z.looseObject({
+  goal_hypothesis: recordSchema.optional(),
+  hypotheses: z.array(z.unknown()).optional(),
+  overall_confidence: z.number().optional(),
+});
+
+export const sessionProcessResponseSchema = z.strictObject({
+  session_uuid: z.string(),
+  user_id: z.string(),
+  narrative: z.string(),
+  psychometrics: psychometricsSchema,
+  intent_analysis: intentAnalysisSchema,
+  insights: z.array(insightEventSchema),
+  stats: sessionProcessStatsSchema,
+  semantic_bundle: z.unknown().optional(),
+  llm_output: z.unknown().optional(),
+  structured_analysis: recordSchema.nullable().optional(),
+});
+
+export const sessionJobStatusResponseSchema = z.strictObject({
+  session_uuid: z.string(),
+  user_id: z.string(),
+  status: jobStatusSchema,
+  raw_status: z.string().optional(),
+  processing_error: z.string().nullable(),
+  result: sessionProcessResponseSchema.nullable(),
+});
+
+export const sessionHistoryItemSchema = z.object({
+  session_uuid: z.string(),
+  status: jobStatusSchema,
+  created_at: z.string(),
+  narrative_preview: z.string().nullable(),
+  // Informados no formulário de upload e devolvidos pelo backend a partir de `session_meta`.
+  study_name: z.string().nullable(),
+  participant_code: z.string().nullable(),
+  tags: z.array(z.string()),
+});
+
+const sessionMetaSchema = z.looseObject({
+  study_name: z.string().optional(),
+  participant_code: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+// Item como o backend devolve em `GET /sessions`: `session_meta` vem na raiz ou dentro de
+// `metadata` e a normalização o achata nos campos de `sessionHistoryItemSchema`.
+export const sessionHistoryResponseItemSchema = z.strictObject({
+  session_uuid: z.string(),
+  status: jobStatusSchema,
+  created_at: z.string(),
+  narrative_preview: z.string().nullable(),
+  session_meta: sessionMetaSchema.optional(),
+  metadata: z.looseObject({ session_meta: sessionMetaSchema.optional() }).optional(),
+});
+
+export const sessionHistoryResponseSchema = z.array(sessionHistoryResponseItemSchema);
+
+/**
+ * `missing`: campo ausente, preenchido com o padrão; `coerced`: tipo ou valor fora do contrato,
+ * normalizado; `unknown`: campo que o contrato não conhece, em geral descartado pela normalização.
+ */
+export type ContractWarningKind = "missing" | "coerced" | "unknown";
+
+export interface ContractWarning {
+  kind: ContractWarningKind;
+  path: string;
+  message: string;
+}
+
+export interface ContractResult<T> {
+  data: T;
+  warnings: ContractWarning[];
+}
+
+const { localeError } = z.locales.pt();
+
+function formatPath(path: PropertyKey[]): string {
+  return path.map(String).join(".") || "(raiz)";
+}
+
+function toContractWarnings(issues: z.core.$ZodIssue[]): ContractWarning[] {
+  return issues.flatMap((issue): ContractWarning[] => {
+    if (issue.code === "unrecognized_keys") {
+      return issue.keys.map((key) => ({
+        kind: "unknown",
+        path: formatPath([...issue.path, key]),
+        message: "Campo fora do contrato.",
+      }));
+    }
+
+    const missing = issue.code === "invalid_type" && issue.input === undefined;
+    return [
+      {
+        kind: missing ? "missing" : "coerced",
+        path: formatPath(issue.path),
+        message: missing ? "Campo ausente, preenchido com o valor padrão." : issue.message,
+      },
+    ];
+  });
+}
+
+function collectContractWarnings(schema: z.ZodType, value: unknown): ContractWarning[] {
+  const parsed = schema.safeParse(value, { error: localeError, reportInput: true });
+  return parsed.success ? [] : toContractWarnings(parsed.error.issues);
+}
+
+/**
+ * Confere a resposta contra o contrato. Os dados saem sempre da normalização tolerante de
+ * `lib/normalization.ts`, que também deriva campos (`raw_status`, `structured_analysis` a partir
+ * de `llm_output`, narrativa de fallback); o schema só produz os avisos das divergências.
+ * O tipo vem da normalização (`NoInfer` no schema), e o schema precisa produzir esse mesmo tipo.
+ */
+export function parseWithContract<T>(
+  schema: z.ZodType<NoInfer<T>>,
+  value: unknown,
+  normalize: (value: unknown) => T | null
+): ContractResult<T> | null {
+  const data = normalize(value);
+  if (data === null) {
+    return null;
+  }
+
+  return { data, warnings: collectContractWarnings(schema, value) };
+}
+
+export function parseSessionJobStatus(value: unknown): ContractResult<SessionJobStatusResponse> | null {
+  return parseWithContract(sessionJobStatusResponseSchema, value, normalizeSessionJobStatus);
+}
+
+export function parseSessionJobSubmission(value: unknown): ContractResult<SessionJobSubmissionResponse> | null {
+  return parseWithContract(sessionJobSubmissionResponseSchema, value, normalizeSessionJobSubmission);
+}
+
+export function parseSessionReprocessResponse(value: unknown): ContractResult<SessionReprocessResponse> | null {
+  return parseWithContract(sessionReprocessResponseSchema, value, normalizeSessionReprocessResponse);
+}
+
+/**
+ * O histórico não passa por `parseWithContract`: o contrato confere o formato do backend
+ * (`sessionHistoryResponseSchema`, com `session_meta` aninhado), e a normalização devolve o
+ * item já achatado de `sessionHistoryItemSchema`.
+ */
+export function parseSessionHistoryList(value: unknown): ContractResult<SessionHistoryItem[]> | null {
+  const data = normalizeSessionHistoryList(value);
+  if (data === null) {
+    return null;
+  }
+
+  // A normalização aceita a lista na raiz ou em `sessions`; o contrato confere os itens.
+  const items = value !== null && typeof value === "object" && "sessions" in value ? value.sessions : value;
+  return { data, warnings: collectContractWarnings(sessionHistoryResponseSchema, items) };
+}
@@ -0,0 +1,83 @@
+import { isRecord, type ReplayViewport } from "@/lib/rrweb";
+
+type RecordLike = Record<string, unknown>;
+
+export type DeviceFrameKind = "none" | "phone" | "tablet" | "desktop";
+
+/** Dados do dispositivo gravados pelo script de captura em `metadata.session_meta`. */
+export interface SessionDeviceInfo {
+  userAgent: string | null;
+  viewport: ReplayViewport | null;
+  screen: ReplayViewport | null;
+  deviceType: string | null;
+}
+
+// Larguras usuais de corte entre celular, tablet e desktop (em px CSS).
+const PHONE_MAX_WIDTH = 600;
+const TABLET_MAX_WIDTH = 1024;
+
+function readString(record: RecordLike, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim();
+    }
+  }
+
+  return null;
+}
+
+function readDimensions(record: RecordLike, objectKeys: string[], widthKeys: string[], heightKeys: string[]): ReplayViewport | null {
+  for (const key of objectKeys) {
+    const value = record[key];
+    if (isRecord(value) && typeof value.width === "number" && typeof value.height === "number") {
+      return { width: value.width, height: value.height };
+    }
+  }
+
+  const width = widthKeys.map((key) => record[key]).find((value): value is number => typeof value === "number");
+  const height = heightKeys.map((key) => record[key]).find((value): value is number => typeof value === "number");
+  return width !== undefined && height !== undefined ? { width, height } : null;
+}
+
+/** Lê `session_meta` aceitando as variações snake_case e camelCase enviadas pelos coletores. */
+export function readSessionDeviceInfo(sessionMeta: Record<string, unknown> | undefined): SessionDeviceInfo | null {
+  if (!sessionMeta) {
+    return null;
+  }
+
+  const info: SessionDeviceInfo = {
+    userAgent: readString(sessionMeta, ["user_agent", "userAgent", "ua"]),
+    viewport: readDimensions(
+      sessionMeta,
+      ["viewport", "viewport_size"],
+      ["viewport_width", "viewportWidth", "inner_width", "innerWidth"],
+      ["viewport_height", "viewportHeight", "inner_height", "innerHeight"]
+    ),
+    screen: readDimensions(
+      sessionMeta,
+      ["screen", "screen_size"],
+      ["screen_width", "screenWidth"],
+      ["screen_height", "screenHeight"]
+    ),
+    deviceType: readString(sessionMeta, ["device_type", "deviceType", "device"]),
+  };
+
+  return info.userAgent || info.viewport || info.screen || info.deviceType ? info : null;
+}
+
+export function inferDeviceFrame(viewport: ReplayViewport, info: SessionDeviceInfo | null): DeviceFrameKind {
+  const deviceType = info?.deviceType?.toLowerCase() ?? "";
+  if (deviceType.includes("mobile") || deviceType.includes("phone")) {
+    return "phone";
+  }
+  if (deviceType.includes("tablet")) {
+    return "tablet";
+  }
+
+  if (viewport.width <= PHONE_MAX_WIDTH) {
+    return "phone";
+  }
+
+  return viewport.width <= TABLET_MAX_WIDTH ? "tablet" : "desktop";
+}
@@ -0,0 +1,383 @@
+import { getSessionStartTimestamp, isRecord, RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+export interface InspectedNode {
+  nodeId: number | null;
+  tagName: string;
+  selector: string;
+  attributes: { name: string; value: string }[];
+  role: string | null;
+  accessibleName: string;
+  text: string;
+}
+
+export type NodeHistoryKind = "snapshot" | "added" | "removed" | "attributes" | "text" | "input";
+
+export interface NodeHistoryEntry {
+  offset: number;
+  kind: NodeHistoryKind;
+  detail: string;
+}
+
+export interface AxeFinding {
+  ruleId: string;
+  impact: string;
+  help: string;
+  outcome: string;
+  targets: string[];
+  html: string;
+}
+
+const MAX_TEXT_LENGTH = 160;
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  article: "article",
+  aside: "complementary",
+  button: "button",
+  dialog: "dialog",
+  footer: "contentinfo",
+  form: "form",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  header: "banner",
+  img: "img",
+  li: "listitem",
+  main: "main",
+  nav: "navigation",
+  ol: "list",
+  option: "option",
+  select: "combobox",
+  table: "table",
+  textarea: "textbox",
+  ul: "list",
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: "button",
+  checkbox: "checkbox",
+  email: "textbox",
+  image: "button",
+  number: "spinbutton",
+  radio: "radio",
+  range: "slider",
+  reset: "button",
+  search: "searchbox",
+  submit: "button",
+  tel: "textbox",
+  text: "textbox",
+  url: "textbox",
+};
+
+// Papéis cujo nome acessível pode vir do conteúdo textual, segundo o accname do WAI-ARIA.
+const NAME_FROM_CONTENT_ROLES = new Set([
+  "button",
+  "cell",
+  "checkbox",
+  "heading",
+  "link",
+  "listitem",
+  "menuitem",
+  "option",
+  "radio",
+  "tab",
+]);
+
+function collapseText(value: string | null | undefined): string {
+  const text = (value ?? "").replace(/\s+/g, " ").trim();
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text;
+}
+
+export function resolveElementRole(element: Element): string | null {
+  const explicitRole = element.getAttribute("role")?.trim().split(/\s+/)[0];
+  if (explicitRole) {
+    return explicitRole;
+  }
+
+  const tagName = element.tagName.toLowerCase();
+  if (tagName === "a" || tagName === "area") {
+    return element.hasAttribute("href") ? "link" : null;
+  }
+
+  if (tagName === "input") {
+    const type = (element.getAttribute("type") ?? "text").toLowerCase();
+    return INPUT_ROLES[type] ?? null;
+  }
+
+  if (tagName === "section") {
+    return element.hasAttribute("aria-label") || element.hasAttribute("aria-labelledby") ? "region" : null;
+  }
+
+  return IMPLICIT_ROLES[tagName] ?? null;
+}
+
+/**
+ * Aproximação do cálculo de nome acessível (accname), suficiente para auditoria:
+ * aria-labelledby, aria-label, label associado, alt/title e, por fim, o conteúdo textual.
+ */
+export function resolveAccessibleName(element: Element, role: string | null): string {
+  const document = element.ownerDocument;
+  const labelledBy = element.getAttribute("aria-labelledby");
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent ?? "")
+      .join(" ");
+    if (collapseText(text)) {
+      return collapseText(text);
+    }
+  }
+
+  const ariaLabel = collapseText(element.getAttribute("aria-label"));
+  if (ariaLabel) {
+    return ariaLabel;
+  }
+
+  const id = element.getAttribute("id");
+  if (id) {
+    const label = Array.from(document.querySelectorAll("label")).find((candidate) => candidate.getAttribute("for") === id);
+    if (label && collapseText(label.textContent)) {
+      return collapseText(label.textContent);
+    }
+  }
+
+  const wrappingLabel = element.closest("label");
+  if (wrappingLabel && wrappingLabel !== element && collapseText(wrappingLabel.textContent)) {
+    return collapseText(wrappingLabel.textContent);
+  }
+
+  const alt = collapseText(element.getAttribute("alt"));
+  if (alt) {
+    return alt;
+  }
+
+  if (role && NAME_FROM_CONTENT_ROLES.has(role) && collapseText(element.textContent)) {
+    return collapseText(element.textContent);
+  }
+
+  return collapseText(element.getAttribute("title"));
+}
+
+export function buildElementSelector(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current && segments.length < 5) {
+    const tagName = current.tagName.toLowerCase();
+    const id = current.getAttribute("id");
+    if (id) {
+      segments.unshift(`${tagName}#${id}`);
+      break;
+    }
+
+    const parent: Element | null = current.parentElement;
+    const siblings = parent ? Array.from(parent.children).filter((child) => child.tagName === current?.tagName) : [];
+    segments.unshift(siblings.length > 1 ? `${tagName}:nth-of-type(${siblings.indexOf(current) + 1})` : tagName);
+    current = parent;
+  }
+
+  return segments.join(" > ");
+}
+
+export function describeElement(element: Element, nodeId: number | null): InspectedNode {
+  const role = resolveElementRole(element);
+
+  return {
+    nodeId,
+    tagName: element.tagName.toLowerCase(),
+    selector: buildElementSelector(element),
+    attributes: Array.from(element.attributes).map((attribute) => ({
+      name: attribute.name,
+      value: attribute.value,
+    })),
+    role,
+    accessibleName: resolveAccessibleName(element, role),
+    text: collapseText(element.textContent),
+  };
+}
+
+function serializedTreeContains(node: unknown, nodeId: number): boolean {
+  if (!isRecord(node)) {
+    return false;
+  }
+
+  if (node.id === nodeId) {
+    return true;
+  }
+
+  return Array.isArray(node.childNodes) && node.childNodes.some((child) => serializedTreeContains(child, nodeId));
+}
+
+function describeAttributes(attributes: unknown): string {
+  if (!isRecord(attributes)) {
+    return "";
+  }
+
+  return Object.entries(attributes)
+    .map(([name, value]) => (value === null ? `-${name}` : `${name}=${JSON.stringify(value)}`))
+    .join(" ");
+}
+
+/**
+ * Reconstrói a linha do tempo de um nó rrweb (criação, remoção, atributos, texto e input)
+ * até `timeOffset`. O nó é localizado pelo id serializado que o mirror do replay expõe.
+ */
+export function getNodeMutationHistory(
+  events: RrwebSessionEvent[],
+  nodeId: number,
+  timeOffset: number
+): NodeHistoryEntry[] {
+  const start = getSessionStartTimestamp(events);
+  const history: NodeHistoryEntry[] = [];
+
+  for (const event of events) {
+    const offset = event.timestamp - start;
+    if (offset > timeOffset) {
+      break;
+    }
+
+    const data: unknown = event.data;
+    if (!isRecord(data)) {
+      continue;
+    }
+
+    if (event.type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      if (serializedTreeContains(data.node, nodeId)) {
+        history.push({ offset, kind: "snapshot", detail: "Presente no snapshot completo" });
+      }
+      continue;
+    }
+
+    if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+      continue;
+    }
+
+    if (data.source === RRWEB_INCREMENTAL_SOURCE.Input && data.id === nodeId) {
+      const value = collapseText(typeof data.text === "string" ? data.text : "");
+      history.push({
+        offset,
+        kind: "input",
+        detail: value ? `Valor: ${value}` : data.isChecked === true ? "Marcado" : "Valor limpo",
+      });
+      continue;
+    }
+
+    if (data.source !== RRWEB_INCREMENTAL_SOURCE.Mutation) {
+      continue;
+    }
+
+    for (const add of Array.isArray(data.adds) ? data.adds : []) {
+      if (isRecord(add) && serializedTreeContains(add.node, nodeId)) {
+        history.push({ offset, kind: "added", detail: `Inserido sob o nó ${String(add.parentId ?? "?")}` });
+      }
+    }
+
+    for (const remove of Array.isArray(data.removes) ? data.removes : []) {
+      if (isRecord(remove) && remove.id === nodeId) {
+        history.push({ offset, kind: "removed", detail: `Removido do nó ${String(remove.parentId ?? "?")}` });
+      }
+    }
+
+    for (const attribute of Array.isArray(data.attributes) ? data.attributes : []) {
+      if (isRecord(attribute) && attribute.id === nodeId) {
+        history.push({ offset, kind: "attributes", detail: describeAttributes(attribute.attributes) });
+      }
+    }
+
+    for (const text of Array.isArray(data.texts) ? data.texts : []) {
+      if (isRecord(text) && text.id === nodeId) {
+        history.push({ offset, kind: "text", detail: collapseText(String(text.value ?? "")) || "Texto removido" });
+      }
+    }
+  }
+
+  return history;
+}
+
+function readAxeTargets(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  // O axe usa arrays aninhados para seletores dentro de iframes/shadow DOM; usamos o último nível.
+  return value.flatMap((target) => {
+    if (typeof target === "string") {
+      return [target];
+    }
+
+    if (Array.isArray(target)) {
+      const last = target[target.length - 1];
+      return typeof last === "string" ? [last] : [];
+    }
+
+    return [];
+  });
+}
+
+/**
+ * Achata o resultado preliminar do axe (`violations`, `incomplete`...) em uma lista de
+ * ocorrências por nó. Formatos desconhecidos resultam em lista vazia.
+ */
+export function extractAxeFindings(analysis: Record<string, unknown> | undefined): AxeFinding[] {
+  if (!analysis) {
+    return [];
+  }
+
+  const source = isRecord(analysis.results) ? analysis.results : analysis;
+  const findings: AxeFinding[] = [];
+
+  for (const outcome of ["violations", "incomplete"]) {
+    const rules = source[outcome];
+    if (!Array.isArray(rules)) {
+      continue;
+    }
+
+    for (const rule of rules) {
+      if (!isRecord(rule)) {
+        continue;
+      }
+
+      for (const node of Array.isArray(rule.nodes) ? rule.nodes : []) {
+        if (!isRecord(node)) {
+          continue;
+        }
+
+        findings.push({
+          ruleId: typeof rule.id === "string" ? rule.id : "desconhecida",
+          impact: typeof node.impact === "string" ? node.impact : typeof rule.impact === "string" ? rule.impact : "",
+          help: typeof rule.help === "string" ? rule.help : typeof rule.description === "string" ? rule.description : "",
+          outcome,
+          targets: readAxeTargets(node.target),
+          html: typeof node.html === "string" ? node.html : "",
+        });
+      }
+    }
+  }
+
+  return findings;
+}
+
+function normalizeMarkup(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Cruza o elemento inspecionado com as ocorrências do axe por seletor ou pelo HTML de abertura. */
+export function matchAxeFindings(findings: AxeFinding[], element: Element): AxeFinding[] {
+  const document = element.ownerDocument;
+  const openingTag = normalizeMarkup(element.outerHTML.slice(0, element.outerHTML.indexOf(">") + 1));
+
+  return findings.filter((finding) => {
+    const matchesSelector = finding.targets.some((selector) => {
+      try {
+        return Array.from(document.querySelectorAll(selector)).includes(element);
+      } catch {
+        return false;
+      }
+    });
+
+    return matchesSelector || (openingTag.length > 0 && normalizeMarkup(finding.html).startsWith(openingTag));
+  });
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { createEnvelopeStreamScanner, type EnvelopeEventSource } from "@/lib/envelope-stream";
+import { SessionImportError } from "@/lib/session-importers";
+
+/** Passa o texto ao scanner em pedaços de `size` caracteres e devolve eventos e cabeçalho. */
+function scan(text: string, size: number) {
+  const events: [EnvelopeEventSource, unknown][] = [];
+  const scanner = createEnvelopeStreamScanner((event, source) => events.push([source, event]));
+  for (let index = 0; index < text.length; index += size) {
+    scanner.write(text.slice(index, index + size));
+  }
+  return { events, header: scanner.end() };
+}
+
+const CHUNK_SIZES = [1, 2, 3, 7, 1_000];
+
+const envelope = {
+  metadata: { url: "https://exemplo.com/?q={\"x\":[1]}", tags: ["a", "b"], nested: { "chave \"citada\"": null } },
+  rrweb: {
+    version: "2.0.0",
+    events: [
+      { type: 4, timestamp: 1, data: { href: "https://exemplo.com", width: 800, height: 600 } },
+      { type: 3, timestamp: 2, data: { source: 5, text: "chaves } ] { [ e aspas \" \\\\ é" } },
+      { type: 5, timestamp: 3, data: { tag: "marcador", payload: [[], {}, [{}]] } },
+    ],
+  },
+  duration: 12.5,
+  finished: true,
+  owner: null,
+};
+
+describe("createEnvelopeStreamScanner", () => {
+  for (const size of CHUNK_SIZES) {
+    test(`entrega cada evento de rrweb.events e guarda o cabeçalho (pedaços de ${size})`, () => {
+      const { events, header } = scan(JSON.stringify(envelope, null, size === 3 ? 2 : undefined), size);
+
+      assert.deepEqual(
+        events,
+        envelope.rrweb.events.map((event) => ["rrweb.events", event])
+      );
+      assert.deepEqual(header, {
+        metadata: envelope.metadata,
+        rrweb: { version: "2.0.0" },
+        duration: 12.5,
+        finished: true,
+        owner: null,
+      });
+    });
+  }
+
+  test("informa a lista de origem e não guarda as listas no cabeçalho", () => {
+    const text = JSON.stringify({ events: [{ type: 2, timestamp: 1 }], rrweb: { events: [{ type: 3, timestamp: 2 }] } });
+    const { events, header } = scan(text, 4);
+
+    assert.deepEqual(events, [
+      ["events", { type: 2, timestamp: 1 }],
+      ["rrweb.events", { type: 3, timestamp: 2 }],
+    ]);
+    assert.deepEqual(header, {});
+  });
+
+  test("trata `events` fora da raiz ou de `rrweb` como campo comum", () => {
+    const text = JSON.stringify({ metadata: { events: [1, 2] }, rrweb: { events: [] } });
+    const { events, header } = scan(text, 5);
+
+    assert.deepEqual(events, []);
+    assert.deepEqual(header, { metadata: { events: [1, 2] } });
+  });
+
+  test("recusa raiz que não é objeto", () => {
+    assert.throws(() => scan("[1, 2]", 10), SessionImportError);
+    assert.throws(() => scan("   ", 10), /rrweb.events não vazio/);
+  });
+
+  for (const [label, text] of [
+    ["documento incompleto", '{"rrweb": {"events": [{"type": 1}'],
+    ["string sem fim", '{"metadata": "abc'],
+    ["fechamento trocado", '{"rrweb": {"events": [}]}'],
+    ["conteúdo depois do fim", '{"rrweb": {"events": []}} {}'],
+    ["evento inválido", '{"rrweb": {"events": [{"type": 1,}]}}'],
+  ]) {
+    test(`recusa JSON inválido: ${label}`, () => {
+      assert.throws(() => scan(text, 3), /não é um JSON válido/);
+    });
+  }
+});
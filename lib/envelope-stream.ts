@@ -0,0 +1,240 @@
+import { SessionImportError } from "@/lib/session-importers";
+
+type RecordLike = Record<string, unknown>;
+
+/** Lista de onde o evento veio; como em `extractRrwebEvents`, `events` na raiz tem prioridade. */
+export type EnvelopeEventSource = "events" | "rrweb.events";
+
+interface Frame {
+  kind: "object" | "array";
+  // Só objetos: chave do valor atual e se o próximo token é uma chave.
+  key: string | null;
+  expectingKey: boolean;
+  // O próximo token não branco começa um valor (após `:`, `[` ou `,` em listas).
+  awaitingValue: boolean;
+  role: "root" | "rrweb" | "events" | null;
+  source?: EnvelopeEventSource;
+}
+
+interface Capture {
+  // Profundidade da pilha quando o valor começou; o valor termina quando a pilha volta a ela.
+  depth: number;
+  container: boolean;
+  parts: string[];
+  start: number;
+  onValue: (text: string) => void;
+}
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const OPEN_OBJECT = 0x7b;
+const CLOSE_OBJECT = 0x7d;
+const OPEN_ARRAY = 0x5b;
+const CLOSE_ARRAY = 0x5d;
+
+function isWhitespace(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09;
+}
+
+function invalidJson(): SessionImportError {
+  return new SessionImportError("O conteúdo enviado não é um JSON válido.");
+}
+
+function parseCaptured(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw invalidJson();
+  }
+}
+
+export interface EnvelopeStreamScanner {
+  write(text: string): void;
+  /** Confere o fim do documento e devolve os campos do envelope, sem as listas de eventos. */
+  end(): RecordLike;
+}
+
+/**
+ * Lê o envelope `{ ...campos, rrweb: { events } }` em pedaços, sem montar o documento: cada
+ * evento é parseado sozinho e entregue a `onEvent`, e só os demais campos (metadados) ficam
+ * em memória. A estrutura (chaves, colchetes, strings) é conferida; o backend revalida o resto.
+ */
+export function createEnvelopeStreamScanner(
+  onEvent: (event: unknown, source: EnvelopeEventSource) => void
+): EnvelopeStreamScanner {
+  const stack: Frame[] = [];
+  const header: RecordLike = {};
+  const rrwebHeader: RecordLike = {};
+  let started = false;
+  let closed = false;
+  let inString = false;
+  let escaped = false;
+  let keyParts: string[] | null = null;
+  let keyStart = 0;
+  let capture: Capture | null = null;
+
+  const finishCapture = (chunk: string, end: number) => {
+    const current = capture as Capture;
+    current.parts.push(chunk.slice(current.start, end));
+    capture = null;
+    current.onValue(current.parts.join("").trim());
+  };
+
+  const startValue = (chunk: string, index: number, code: number) => {
+    const parent = stack[stack.length - 1];
+    parent.awaitingValue = false;
+    const container = code === OPEN_OBJECT || code === OPEN_ARRAY;
+    const begin = (onValue: (text: string) => void) => {
+      capture = { depth: stack.length, container, parts: [], start: index, onValue };
+    };
+
+    if (parent.role === "events") {
+      const source = parent.source as EnvelopeEventSource;
+      begin((text) => onEvent(parseCaptured(text), source));
+      return;
+    }
+
+    const key = parent.key ?? "";
+    if (parent.role === "root" && key === "events" && code === OPEN_ARRAY) {
+      stack.push({ kind: "array", key: null, expectingKey: false, awaitingValue: true, role: "events", source: "events" });
+      return;
+    }
+    if (parent.role === "root" && key === "rrweb" && code === OPEN_OBJECT) {
+      stack.push({ kind: "object", key: null, expectingKey: true, awaitingValue: false, role: "rrweb" });
+      return;
+    }
+    if (parent.role === "rrweb" && key === "events" && code === OPEN_ARRAY) {
+      stack.push({
+        kind: "array",
+        key: null,
+        expectingKey: false,
+        awaitingValue: true,
+        role: "events",
+        source: "rrweb.events",
+      });
+      return;
+    }
+
+    const target = parent.role === "root" ? header : rrwebHeader;
+    begin((text) => {
+      target[key] = parseCaptured(text);
+    });
+  };
+
+  const write = (chunk: string) => {
+    for (let index = 0; index < chunk.length; index += 1) {
+      const code = chunk.charCodeAt(index);
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (code === BACKSLASH) {
+          escaped = true;
+        } else if (code === QUOTE) {
+          inString = false;
+          if (keyParts) {
+            keyParts.push(chunk.slice(keyStart, index));
+            stack[stack.length - 1].key = parseCaptured(`"${keyParts.join("")}"`) as string;
+            keyParts = null;
+          }
+        }
+        continue;
+      }
+
+      if (isWhitespace(code)) {
+        continue;
+      }
+      if (closed) {
+        throw invalidJson();
+      }
+
+      if (!started) {
+        if (code !== OPEN_OBJECT) {
+          throw new SessionImportError("Era esperado um objeto JSON com rrweb.events não vazio.");
+        }
+        started = true;
+        stack.push({ kind: "object", key: null, expectingKey: true, awaitingValue: false, role: "root" });
+        continue;
+      }
+
+      const top = stack[stack.length - 1];
+      if (!capture && top.awaitingValue && code !== CLOSE_ARRAY && code !== COMMA) {
+        startValue(chunk, index, code);
+      }
+
+      // Valores simples (números, literais, strings) terminam no separador seguinte.
+      const scalarCapture = capture && !capture.container && stack.length === capture.depth;
+      if (scalarCapture && (code === COMMA || code === CLOSE_OBJECT || code === CLOSE_ARRAY)) {
+        finishCapture(chunk, index);
+      }
+
+      switch (code) {
+        case QUOTE:
+          inString = true;
+          if (!capture && top.kind === "object" && top.expectingKey) {
+            keyParts = [];
+            keyStart = index + 1;
+          }
+          break;
+        case OPEN_OBJECT:
+        case OPEN_ARRAY:
+          // Dentro de valores capturados, a pilha só serve para achar o fim do valor.
+          if (capture || stack[stack.length - 1] === top) {
+            stack.push({
+              kind: code === OPEN_OBJECT ? "object" : "array",
+              key: null,
+              expectingKey: code === OPEN_OBJECT,
+              awaitingValue: code === OPEN_ARRAY,
+              role: null,
+            });
+          }
+          break;
+        case CLOSE_OBJECT:
+        case CLOSE_ARRAY: {
+          const frame = stack.pop();
+          if (!frame || frame.kind !== (code === CLOSE_OBJECT ? "object" : "array")) {
+            throw invalidJson();
+          }
+          if (capture && capture.container && stack.length === capture.depth) {
+            finishCapture(chunk, index + 1);
+          }
+          closed = stack.length === 0;
+          break;
+        }
+        case COLON:
+          if (top.kind === "object" && !capture) {
+            top.expectingKey = false;
+            top.awaitingValue = true;
+          }
+          break;
+        case COMMA:
+          if (!capture) {
+            top.expectingKey = top.kind === "object";
+            top.awaitingValue = top.kind === "array";
+          }
+          break;
+      }
+    }
+
+    if (keyParts) {
+      keyParts.push(chunk.slice(keyStart));
+      keyStart = 0;
+    }
+    if (capture) {
+      (capture as Capture).parts.push(chunk.slice((capture as Capture).start));
+      (capture as Capture).start = 0;
+    }
+  };
+
+  return {
+    write,
+    end() {
+      if (!closed || inString) {
+        throw started ? invalidJson() : new SessionImportError("Era esperado um objeto JSON com rrweb.events não vazio.");
+      }
+      return Object.keys(rrwebHeader).length > 0 ? { ...header, rrweb: rrwebHeader } : header;
+    },
+  };
+}
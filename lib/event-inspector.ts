@@ -0,0 +1,165 @@
+import {
+  isRecord,
+  readEventData,
+  readFiniteNumber,
+  RRWEB_EVENT_TYPE,
+  RRWEB_INCREMENTAL_SOURCE,
+} from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+type RecordLike = Record<string, unknown>;
+
+/** Descrição legível de um evento rrweb, calculada sob demanda para as linhas visíveis. */
+export interface DecodedRrwebEvent {
+  typeLabel: string;
+  sourceLabel: string | null;
+  nodeId: number | null;
+  summary: string;
+}
+
+export const RRWEB_EVENT_TYPE_LABELS: Record<number, string> = {
+  0: "DomContentLoaded",
+  1: "Load",
+  2: "FullSnapshot",
+  3: "Incremental",
+  4: "Meta",
+  5: "Custom",
+  6: "Plugin",
+};
+
+export const RRWEB_SOURCE_LABELS: Record<number, string> = {
+  0: "Mutation",
+  1: "MouseMove",
+  2: "MouseInteraction",
+  3: "Scroll",
+  4: "ViewportResize",
+  5: "Input",
+  6: "TouchMove",
+  7: "MediaInteraction",
+  8: "StyleSheetRule",
+  9: "CanvasMutation",
+  10: "Font",
+  11: "Log",
+  12: "Drag",
+  13: "StyleDeclaration",
+  14: "Selection",
+  15: "AdoptedStyleSheet",
+  16: "CustomElement",
+};
+
+const MOUSE_INTERACTION_LABELS: Record<number, string> = {
+  0: "mouseup",
+  1: "mousedown",
+  2: "click",
+  3: "contextmenu",
+  4: "dblclick",
+  5: "focus",
+  6: "blur",
+  7: "touchstart",
+  9: "touchend",
+  10: "touchcancel",
+};
+
+const MAX_SUMMARY_LENGTH = 160;
+
+function countOf(value: unknown): number {
+  return Array.isArray(value) ? value.length : 0;
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_SUMMARY_LENGTH ? `${value.slice(0, MAX_SUMMARY_LENGTH - 1)}…` : value;
+}
+
+/** Fonte incremental do evento, ou null para eventos que não são IncrementalSnapshot. */
+export function readEventSource(event: RrwebSessionEvent): number | null {
+  if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+    return null;
+  }
+
+  return readFiniteNumber(readEventData(event).source);
+}
+
+/** Chave de filtro "tipo" ou "tipo:fonte" usada pelo inspetor de eventos. */
+export function eventFilterKey(event: RrwebSessionEvent): string {
+  const source = readEventSource(event);
+  return source === null ? String(event.type) : `${event.type}:${source}`;
+}
+
+export function eventFilterLabel(key: string): string {
+  const [type, source] = key.split(":").map(Number);
+  const typeLabel = RRWEB_EVENT_TYPE_LABELS[type] ?? `Tipo ${type}`;
+  return source === undefined || Number.isNaN(source)
+    ? typeLabel
+    : `${typeLabel} · ${RRWEB_SOURCE_LABELS[source] ?? `Fonte ${source}`}`;
+}
+
+function summarizeIncremental(data: RecordLike, redactValues: boolean): string {
+  switch (data.source) {
+    case RRWEB_INCREMENTAL_SOURCE.Mutation:
+      return `+${countOf(data.adds)} nós, -${countOf(data.removes)} nós, ${countOf(data.attributes)} atributos, ${countOf(data.texts)} textos`;
+    case RRWEB_INCREMENTAL_SOURCE.MouseMove:
+    case RRWEB_INCREMENTAL_SOURCE.TouchMove: {
+      const positions = Array.isArray(data.positions) ? data.positions : [];
+      const last: unknown = positions[positions.length - 1];
+      return isRecord(last)
+        ? `${positions.length} posição(ões), última em (${String(last.x)}, ${String(last.y)})`
+        : `${positions.length} posição(ões)`;
+    }
+    case RRWEB_INCREMENTAL_SOURCE.MouseInteraction: {
+      const type = readFiniteNumber(data.type);
+      const label = type !== null ? MOUSE_INTERACTION_LABELS[type] ?? `interação ${type}` : "interação";
+      return data.x !== undefined ? `${label} em (${String(data.x)}, ${String(data.y)})` : label;
+    }
+    case RRWEB_INCREMENTAL_SOURCE.Scroll:
+      return `scroll para (${String(data.x)}, ${String(data.y)})`;
+    case RRWEB_INCREMENTAL_SOURCE.ViewportResize:
+      return `viewport ${String(data.width)}×${String(data.height)}`;
+    case RRWEB_INCREMENTAL_SOURCE.Input:
+      if (redactValues) {
+        return "valor oculto na visão redigida";
+      }
+      return typeof data.isChecked === "boolean" && data.text === undefined
+        ? `checked=${String(data.isChecked)}`
+        : `valor ${JSON.stringify(data.text ?? "")}`;
+    default:
+      return Object.keys(data)
+        .filter((key) => key !== "source")
+        .join(", ");
+  }
+}
+
+export function decodeRrwebEvent(event: RrwebSessionEvent, redactValues = false): DecodedRrwebEvent {
+  const data = readEventData(event);
+  const source = readEventSource(event);
+  const typeLabel = RRWEB_EVENT_TYPE_LABELS[event.type] ?? `Tipo ${event.type}`;
+  let summary: string;
+
+  switch (event.type) {
+    case RRWEB_EVENT_TYPE.Meta:
+      summary = `${String(data.href ?? "")} (${String(data.width)}×${String(data.height)})`;
+      break;
+    case RRWEB_EVENT_TYPE.FullSnapshot: {
+      const offset = isRecord(data.initialOffset) ? data.initialOffset : {};
+      summary = `Snapshot completo, scroll inicial (${String(offset.left ?? 0)}, ${String(offset.top ?? 0)})`;
+      break;
+    }
+    case RRWEB_EVENT_TYPE.IncrementalSnapshot:
+      summary = summarizeIncremental(data, redactValues);
+      break;
+    case RRWEB_EVENT_TYPE.Custom:
+      summary = `tag ${String(data.tag ?? "?")}`;
+      break;
+    case RRWEB_EVENT_TYPE.Plugin:
+      summary = `plugin ${String(data.plugin ?? "?")}`;
+      break;
+    default:
+      summary = "";
+  }
+
+  return {
+    typeLabel,
+    sourceLabel: source !== null ? RRWEB_SOURCE_LABELS[source] ?? `Fonte ${source}` : null,
+    nodeId: source !== null ? readFiniteNumber(data.id) : null,
+    summary: truncate(summary),
+  };
+}
@@ -0,0 +1,245 @@
+import { resolveInsightSeverityTone, type InsightSeverityTone } from "@/lib/insights";
+import { projectBoundingBox, type ReplayViewport, type ScrollPosition } from "@/lib/rrweb";
+import type { InsightEvent } from "@/types/dashboard";
+
+/** Metadados gravados em cada captura: origem da sessão e instante do replay. */
+export interface FrameCaptureInfo {
+  sessionUuid: string | null;
+  timeOffset: number;
+  capturedAt: string;
+}
+
+export interface FrameCaptureOptions {
+  document: Document;
+  viewport: ReplayViewport;
+  scroll: ScrollPosition;
+  insights: InsightEvent[];
+  cursor: { x: number; y: number } | null;
+  info: FrameCaptureInfo;
+}
+
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+const CAPTION_HEIGHT = 28;
+
+// Cores fixas por severidade: a captura não tem acesso às variáveis CSS do tema.
+const SEVERITY_COLORS: Record<InsightSeverityTone, string> = {
+  critical: "rgb(239 68 68)",
+  medium: "rgb(245 158 11)",
+  low: "rgb(56 189 248)",
+};
+
+function formatCaptureOffset(ms: number): string {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(3).padStart(6, "0");
+  return `${minutes.toString().padStart(2, "0")}:${seconds}`;
+}
+
+/**
+ * Serializa o documento reconstruído pelo rrweb como XHTML para um `foreignObject`.
+ * Scripts são descartados e os valores atuais de formulários viram atributos, já que
+ * `cloneNode` não copia o estado de inputs.
+ */
+function serializeReplayDocument(document: Document, viewport: ReplayViewport, scroll: ScrollPosition): string {
+  const clone = document.documentElement.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll("script, noscript, iframe").forEach((element) => element.remove());
+
+  const liveFields = document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>(
+    "input, textarea, select"
+  );
+  const clonedFields = clone.querySelectorAll<HTMLElement>("input, textarea, select");
+  liveFields.forEach((field, index) => {
+    const target = clonedFields[index];
+    if (!target) {
+      return;
+    }
+
+    if (field instanceof HTMLTextAreaElement) {
+      target.textContent = field.value;
+    } else if (field instanceof HTMLInputElement && (field.type === "checkbox" || field.type === "radio")) {
+      if (field.checked) {
+        target.setAttribute("checked", "");
+      }
+    } else {
+      target.setAttribute("value", field.value);
+    }
+  });
+
+  const styles = Array.from(clone.querySelectorAll("style"))
+    .map((style) => new XMLSerializer().serializeToString(style))
+    .join("");
+  const body = clone.querySelector("body");
+  const bodyMarkup = body ? new XMLSerializer().serializeToString(body).replace(/^<body/, "<div").replace(/<\/body>$/, "</div>") : "";
+
+  return (
+    `<div xmlns="${XHTML_NAMESPACE}" style="width:${viewport.width}px;height:${viewport.height}px;overflow:hidden;background:#fff">` +
+    `<div style="transform:translate(${-scroll.x}px,${-scroll.y}px)">${styles}${bodyMarkup}</div>` +
+    "</div>"
+  );
+}
+
+function loadSvgImage(markup: string, viewport: ReplayViewport): Promise<HTMLImageElement> {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}">` +
+    `<foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Não foi possível rasterizar o frame do replay."));
+    };
+    image.src = url;
+  });
+}
+
+function drawInsights(context: CanvasRenderingContext2D, options: FrameCaptureOptions) {
+  for (const insight of options.insights) {
+    if (!insight.boundingBox) {
+      continue;
+    }
+
+    // Com stage igual ao viewport a projeção só desconta o scroll (escala 1, sem offset).
+    const box = projectBoundingBox(insight.boundingBox, options.viewport, options.viewport, options.scroll);
+    if (!box) {
+      continue;
+    }
+
+    const color = SEVERITY_COLORS[resolveInsightSeverityTone(insight.severity)];
+    context.strokeStyle = color;
+    context.lineWidth = 3;
+    context.strokeRect(box.left, box.top, box.width, box.height);
+
+    const label = `${insight.type} · ${insight.message}`.slice(0, 80);
+    context.font = "600 12px Arial, Helvetica, sans-serif";
+    const labelWidth = context.measureText(label).width + 12;
+    const labelTop = Math.max(0, box.top - 20);
+    context.fillStyle = color;
+    context.fillRect(box.left, labelTop, labelWidth, 18);
+    context.fillStyle = "#fff";
+    context.fillText(label, box.left + 6, labelTop + 13);
+  }
+}
+
+function drawCursor(context: CanvasRenderingContext2D, cursor: { x: number; y: number }) {
+  context.beginPath();
+  context.moveTo(cursor.x, cursor.y);
+  context.lineTo(cursor.x, cursor.y + 18);
+  context.lineTo(cursor.x + 5, cursor.y + 14);
+  context.lineTo(cursor.x + 9, cursor.y + 22);
+  context.lineTo(cursor.x + 12, cursor.y + 20);
+  context.lineTo(cursor.x + 8, cursor.y + 13);
+  context.lineTo(cursor.x + 14, cursor.y + 13);
+  context.closePath();
+  context.fillStyle = "#111";
+  context.strokeStyle = "#fff";
+  context.lineWidth = 1.5;
+  context.fill();
+  context.stroke();
+}
+
+function drawCaption(context: CanvasRenderingContext2D, viewport: ReplayViewport, info: FrameCaptureInfo) {
+  context.fillStyle = "#0f172a";
+  context.fillRect(0, viewport.height, viewport.width, CAPTION_HEIGHT);
+  context.fillStyle = "#e2e8f0";
+  context.font = "12px ui-monospace, Menlo, monospace";
+  context.fillText(
+    `Sessão ${info.sessionUuid ?? "desconhecida"} · replay ${formatCaptureOffset(info.timeOffset)} · capturado em ${info.capturedAt}`,
+    10,
+    viewport.height + 18
+  );
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createTextChunk(keyword: string, text: string): Uint8Array<ArrayBuffer> {
+  // tEXt usa Latin-1; caracteres fora dele são substituídos para manter o chunk válido.
+  const content = `${keyword}\0${text}`.replace(/[^\x00-\xff]/g, "?");
+  const chunk = new Uint8Array(12 + content.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, content.length);
+  const typeAndData = chunk.subarray(4, 8 + content.length);
+  typeAndData.set([0x74, 0x45, 0x58, 0x74]);
+  for (let index = 0; index < content.length; index += 1) {
+    typeAndData[4 + index] = content.charCodeAt(index);
+  }
+  view.setUint32(8 + content.length, crc32(typeAndData));
+  return chunk;
+}
+
+/** Insere chunks tEXt logo após o IHDR para que a origem da captura siga junto com o arquivo. */
+function embedPngMetadata(blob: Blob, info: FrameCaptureInfo): Blob {
+  // Assinatura (8 bytes) + IHDR (4 tamanho + 4 tipo + 13 dados + 4 CRC).
+  const insertAt = 33;
+  const chunks = [
+    createTextChunk("Source", `ux-auditor session ${info.sessionUuid ?? "unknown"}`),
+    createTextChunk("Replay-Offset-Ms", String(Math.round(info.timeOffset))),
+    createTextChunk("Creation Time", info.capturedAt),
+  ];
+
+  return new Blob([blob.slice(0, insertAt), ...chunks, blob.slice(insertAt)], { type: "image/png" });
+}
+
+/**
+ * Rasteriza o frame atual do replay em PNG, no tamanho do viewport gravado, com as
+ * bounding boxes dos insights, o cursor e uma legenda com sessão e instante desenhados.
+ * Imagens externas não carregam dentro de um SVG rasterizado e aparecem em branco.
+ */
+export async function captureReplayFrame(options: FrameCaptureOptions): Promise<Blob> {
+  const { viewport } = options;
+  const image = await loadSvgImage(serializeReplayDocument(options.document, viewport, options.scroll), viewport);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = viewport.width;
+  canvas.height = viewport.height + CAPTION_HEIGHT;
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D indisponível para capturar o frame.");
+  }
+
+  context.drawImage(image, 0, 0, viewport.width, viewport.height);
+  drawInsights(context, options);
+  if (options.cursor) {
+    drawCursor(context, options.cursor);
+  }
+  drawCaption(context, viewport, options.info);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) {
+    throw new Error("O navegador não gerou o PNG do frame.");
+  }
+
+  return embedPngMetadata(blob, options.info);
+}
+
+export function buildFrameCaptureFileName(info: FrameCaptureInfo): string {
+  return `frame-${info.sessionUuid ?? "sessao"}-${Math.round(info.timeOffset)}ms.png`;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { computeSessionHeatmap } from "@/lib/heatmap";
+import { RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+const START = 1_700_000_000_000;
+
+function event(type: number, offset: number, data: Record<string, unknown>): RrwebSessionEvent {
+  return { type, timestamp: START + offset, data } as RrwebSessionEvent;
+}
+
+function incremental(offset: number, source: number, data: Record<string, unknown> = {}): RrwebSessionEvent {
+  return event(RRWEB_EVENT_TYPE.IncrementalSnapshot, offset, { source, ...data });
+}
+
+const click = (offset: number, x: number, y: number) =>
+  incremental(offset, RRWEB_INCREMENTAL_SOURCE.MouseInteraction, { type: 2, id: 5, x, y });
+
+const events = [
+  event(RRWEB_EVENT_TYPE.Meta, 0, { href: "https://exemplo.com", width: 1280, height: 800 }),
+  event(RRWEB_EVENT_TYPE.FullSnapshot, 0, { node: { type: 0, id: 1, childNodes: [] }, initialOffset: { top: 0, left: 0 } }),
+  click(100, 10, 10),
+  incremental(500, RRWEB_INCREMENTAL_SOURCE.Mutation, { adds: [], removes: [], texts: [], attributes: [] }),
+  incremental(1_000, RRWEB_INCREMENTAL_SOURCE.Scroll, { id: 1, x: 0, y: 400 }),
+  // Scroll de um elemento interno não move o documento.
+  incremental(1_100, RRWEB_INCREMENTAL_SOURCE.Scroll, { id: 9, x: 0, y: 5_000 }),
+  incremental(1_200, RRWEB_INCREMENTAL_SOURCE.MouseMove, {
+    positions: [
+      { x: 30, y: 30, id: 5, timeOffset: 0 },
+      { x: 31, y: 31, id: 5, timeOffset: 10 },
+    ],
+  }),
+  click(1_500, 10, 10),
+  incremental(3_000, RRWEB_INCREMENTAL_SOURCE.Mutation, { adds: [], removes: [], texts: [], attributes: [] }),
+];
+
+test("agrega cliques e movimentos no espaço do documento, somando o scroll", () => {
+  const heatmap = computeSessionHeatmap(events, { cellSize: 24, scrollBandSize: 400 });
+
+  assert.deepEqual(heatmap.clicks.cells, [
+    { x: 0, y: 0, count: 1 },
+    { x: 0, y: 408, count: 1 },
+  ]);
+  assert.equal(heatmap.clicks.total, 2);
+  assert.deepEqual(heatmap.moves.cells, [{ x: 24, y: 408, count: 2 }]);
+  assert.equal(heatmap.moves.max, 2);
+});
+
+test("marca como dead click o clique sem mutação na janela seguinte", () => {
+  const heatmap = computeSessionHeatmap(events, { cellSize: 24, deadClickWindowMs: 1_000 });
+  assert.deepEqual(heatmap.deadClicks.cells, [{ x: 0, y: 408, count: 1 }]);
+
+  const tolerant = computeSessionHeatmap(events, { cellSize: 24, deadClickWindowMs: 2_000 });
+  assert.equal(tolerant.deadClicks.total, 0);
+});
+
+test("mede o alcance de scroll pelo tempo em que cada faixa ficou visível", () => {
+  const heatmap = computeSessionHeatmap(events, { scrollBandSize: 400 });
+
+  assert.equal(heatmap.documentHeight, 1_200);
+  assert.deepEqual(
+    heatmap.scrollReach.map((band) => [band.top, Number(band.ratio.toFixed(3))]),
+    [
+      [0, 0.333],
+      [400, 1],
+      [800, 0.667],
+    ]
+  );
+});
+
+test("devolve camadas vazias para uma sessão sem eventos", () => {
+  const heatmap = computeSessionHeatmap([]);
+
+  assert.equal(heatmap.clicks.total, 0);
+  assert.equal(heatmap.deadClicks.max, 0);
+  assert.deepEqual(heatmap.scrollReach, []);
+});
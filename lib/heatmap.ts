@@ -0,0 +1,248 @@
+import {
+  isRecord,
+  readEventData,
+  readFiniteNumber,
+  RRWEB_EVENT_TYPE,
+  RRWEB_INCREMENTAL_SOURCE,
+} from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+export type HeatmapLayerKind = "clicks" | "deadClicks" | "moves" | "scrollReach";
+
+export interface HeatmapCell {
+  x: number;
+  y: number;
+  count: number;
+}
+
+export interface HeatmapGrid {
+  cellSize: number;
+  cells: HeatmapCell[];
+  max: number;
+  total: number;
+}
+
+export interface ScrollReachBand {
+  top: number;
+  height: number;
+  ratio: number;
+}
+
+export interface SessionHeatmap {
+  clicks: HeatmapGrid;
+  deadClicks: HeatmapGrid;
+  moves: HeatmapGrid;
+  scrollReach: ScrollReachBand[];
+  documentHeight: number;
+}
+
+export interface HeatmapOptions {
+  cellSize?: number;
+  scrollBandSize?: number;
+  deadClickWindowMs?: number;
+}
+
+const DEFAULT_CELL_SIZE = 24;
+const DEFAULT_SCROLL_BAND_SIZE = 48;
+// Um clique sem nenhuma mutação de DOM neste intervalo é tratado como dead click.
+const DEFAULT_DEAD_CLICK_WINDOW_MS = 1000;
+const MAX_SCROLL_BANDS = 2000;
+const MOUSE_INTERACTION_CLICK = 2;
+const DEFAULT_VIEWPORT_HEIGHT = 720;
+
+function createGridAccumulator(cellSize: number) {
+  const counts = new Map<string, HeatmapCell>();
+  let total = 0;
+
+  return {
+    add(x: number, y: number) {
+      const cellX = Math.floor(x / cellSize) * cellSize;
+      const cellY = Math.floor(y / cellSize) * cellSize;
+      const key = `${cellX}:${cellY}`;
+      const cell = counts.get(key);
+
+      if (cell) {
+        cell.count += 1;
+      } else {
+        counts.set(key, { x: cellX, y: cellY, count: 1 });
+      }
+
+      total += 1;
+    },
+    toGrid(): HeatmapGrid {
+      const cells = [...counts.values()];
+      return {
+        cellSize,
+        cells,
+        max: cells.reduce((peak, cell) => Math.max(peak, cell.count), 0),
+        total,
+      };
+    },
+  };
+}
+
+function isDomResponse(event: RrwebSessionEvent): boolean {
+  if (event.type === RRWEB_EVENT_TYPE.FullSnapshot || event.type === RRWEB_EVENT_TYPE.Meta) {
+    return true;
+  }
+
+  return (
+    event.type === RRWEB_EVENT_TYPE.IncrementalSnapshot &&
+    readEventData(event).source === RRWEB_INCREMENTAL_SOURCE.Mutation
+  );
+}
+
+/**
+ * Verifica se houve alguma mutação de DOM (ou navegação) na janela após cada clique.
+ * Os eventos chegam ordenados, então um único ponteiro percorre o stream.
+ */
+function findRespondedClicks(
+  events: RrwebSessionEvent[],
+  clickTimestamps: number[],
+  windowMs: number
+): boolean[] {
+  const responseTimestamps = events.filter(isDomResponse).map((event) => event.timestamp);
+  let pointer = 0;
+
+  return clickTimestamps.map((timestamp) => {
+    while (pointer < responseTimestamps.length && responseTimestamps[pointer] <= timestamp) {
+      pointer += 1;
+    }
+
+    return pointer < responseTimestamps.length && responseTimestamps[pointer] - timestamp <= windowMs;
+  });
+}
+
+/**
+ * Agrega cliques, movimentos de mouse e alcance de scroll de uma sessão rrweb.
+ * As coordenadas resultantes estão no espaço do documento gravado (viewport + scroll),
+ * então a camada visual só precisa aplicar a mesma projeção usada nos overlays de insight.
+ */
+export function computeSessionHeatmap(
+  events: RrwebSessionEvent[],
+  options: HeatmapOptions = {}
+): SessionHeatmap {
+  const cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+  const bandSize = options.scrollBandSize ?? DEFAULT_SCROLL_BAND_SIZE;
+  const deadClickWindowMs = options.deadClickWindowMs ?? DEFAULT_DEAD_CLICK_WINDOW_MS;
+
+  const clicks = createGridAccumulator(cellSize);
+  const moves = createGridAccumulator(cellSize);
+  const clickSamples: { x: number; y: number; timestamp: number }[] = [];
+  const bandTotals: number[] = [];
+
+  let documentNodeId: number | null = null;
+  let scrollX = 0;
+  let scrollY = 0;
+  let viewportHeight = DEFAULT_VIEWPORT_HEIGHT;
+  let visibleSince = events[0]?.timestamp ?? 0;
+  let documentHeight = 0;
+
+  // Soma o tempo em que cada faixa vertical do documento ficou visível até `until`.
+  const flushVisibility = (until: number) => {
+    const elapsed = until - visibleSince;
+    visibleSince = until;
+    documentHeight = Math.max(documentHeight, scrollY + viewportHeight);
+
+    if (elapsed <= 0) {
+      return;
+    }
+
+    const firstBand = Math.max(0, Math.floor(scrollY / bandSize));
+    const lastBand = Math.min(MAX_SCROLL_BANDS - 1, Math.ceil((scrollY + viewportHeight) / bandSize) - 1);
+    for (let band = firstBand; band <= lastBand; band += 1) {
+      bandTotals[band] = (bandTotals[band] ?? 0) + elapsed;
+    }
+  };
+
+  for (const event of events) {
+    const data = readEventData(event);
+
+    if (event.type === RRWEB_EVENT_TYPE.Meta) {
+      flushVisibility(event.timestamp);
+      viewportHeight = readFiniteNumber(data.height) ?? viewportHeight;
+      continue;
+    }
+
+    if (event.type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      flushVisibility(event.timestamp);
+      documentNodeId = isRecord(data.node) ? readFiniteNumber(data.node.id) : null;
+      scrollX = 0;
+      scrollY = 0;
+      continue;
+    }
+
+    if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+      continue;
+    }
+
+    switch (data.source) {
+      case RRWEB_INCREMENTAL_SOURCE.Scroll:
+        if (data.id === documentNodeId) {
+          flushVisibility(event.timestamp);
+          scrollX = readFiniteNumber(data.x) ?? scrollX;
+          scrollY = readFiniteNumber(data.y) ?? scrollY;
+        }
+        break;
+      case RRWEB_INCREMENTAL_SOURCE.ViewportResize:
+        flushVisibility(event.timestamp);
+        viewportHeight = readFiniteNumber(data.height) ?? viewportHeight;
+        break;
+      case RRWEB_INCREMENTAL_SOURCE.MouseMove:
+      case RRWEB_INCREMENTAL_SOURCE.TouchMove:
+        if (Array.isArray(data.positions)) {
+          for (const position of data.positions) {
+            const x = isRecord(position) ? readFiniteNumber(position.x) : null;
+            const y = isRecord(position) ? readFiniteNumber(position.y) : null;
+            if (x !== null && y !== null) {
+              moves.add(x + scrollX, y + scrollY);
+            }
+          }
+        }
+        break;
+      case RRWEB_INCREMENTAL_SOURCE.MouseInteraction: {
+        const x = readFiniteNumber(data.x);
+        const y = readFiniteNumber(data.y);
+        if (data.type === MOUSE_INTERACTION_CLICK && x !== null && y !== null) {
+          clicks.add(x + scrollX, y + scrollY);
+          clickSamples.push({ x: x + scrollX, y: y + scrollY, timestamp: event.timestamp });
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  flushVisibility(events[events.length - 1]?.timestamp ?? visibleSince);
+
+  const deadClicks = createGridAccumulator(cellSize);
+  const responded = findRespondedClicks(
+    events,
+    clickSamples.map((sample) => sample.timestamp),
+    deadClickWindowMs
+  );
+  clickSamples.forEach((sample, index) => {
+    if (!responded[index]) {
+      deadClicks.add(sample.x, sample.y);
+    }
+  });
+
+  const peakVisibility = bandTotals.reduce((peak, total) => Math.max(peak, total ?? 0), 0);
+  const scrollReach: ScrollReachBand[] = [];
+  for (let band = 0; band < bandTotals.length; band += 1) {
+    scrollReach.push({
+      top: band * bandSize,
+      height: bandSize,
+      ratio: peakVisibility > 0 ? (bandTotals[band] ?? 0) / peakVisibility : 0,
+    });
+  }
+
+  return {
+    clicks: clicks.toGrid(),
+    deadClicks: deadClicks.toGrid(),
+    moves: moves.toGrid(),
+    scrollReach,
+    documentHeight,
+  };
+}
@@ -0,0 +1,105 @@
+import type { TimeRange } from "@/lib/rrweb";
+import type { InsightEvent, InsightSeverity } from "@/types/dashboard";
+
+export type InsightSeverityTone = "critical" | "medium" | "low";
+
+export function resolveInsightSeverityTone(severity: InsightSeverity): InsightSeverityTone {
+  const normalized = typeof severity === "string" ? severity.trim().toLowerCase() : "";
+
+  if (normalized === "critical" || normalized === "high") {
+    return "critical";
+  }
+
+  if (normalized === "low") {
+    return "low";
+  }
+
+  return "medium";
+}
+
+export function insightSeverityClassName(severity: InsightSeverity): string {
+  switch (resolveInsightSeverityTone(severity)) {
+    case "critical":
+      return "app-status-error";
+    case "low":
+      return "app-status-queued";
+    default:
+      return "app-status-processing";
+  }
+}
+
+const SEVERITY_RANK: Record<InsightSeverityTone, number> = {
+  low: 0,
+  medium: 1,
+  critical: 2,
+};
+
+export interface InsightMarkerGroup {
+  id: string;
+  timestamp: number;
+  tone: InsightSeverityTone;
+  insights: InsightEvent[];
+}
+
+export function sortInsightsByTimestamp(insights: InsightEvent[]): InsightEvent[] {
+  return [...insights].sort((left, right) => left.timestamp - right.timestamp);
+}
+
+/**
+ * Agrupa insights próximos no tempo para que a barra de busca não empilhe marcadores.
+ * O grupo assume a severidade mais alta entre seus membros.
+ */
+export function groupInsightMarkers(insights: InsightEvent[], thresholdMs: number): InsightMarkerGroup[] {
+  const groups: InsightMarkerGroup[] = [];
+
+  for (const insight of sortInsightsByTimestamp(insights)) {
+    const tone = resolveInsightSeverityTone(insight.severity);
+    const current = groups[groups.length - 1];
+
+    if (current && insight.timestamp - current.insights[current.insights.length - 1].timestamp <= thresholdMs) {
+      current.insights.push(insight);
+      if (SEVERITY_RANK[tone] > SEVERITY_RANK[current.tone]) {
+        current.tone = tone;
+      }
+      continue;
+    }
+
+    groups.push({
+      id: insight.id,
+      timestamp: insight.timestamp,
+      tone,
+      insights: [insight],
+    });
+  }
+
+  return groups;
+}
+
+export function findAdjacentInsight(
+  insights: InsightEvent[],
+  time: number,
+  direction: -1 | 1
+): InsightEvent | null {
+  const sorted = sortInsightsByTimestamp(insights);
+
+  if (direction > 0) {
+    return sorted.find((insight) => insight.timestamp > time) ?? null;
+  }
+
+  for (let index = sorted.length - 1; index >= 0; index -= 1) {
+    if (sorted[index].timestamp < time) {
+      return sorted[index];
+    }
+  }
+
+  return null;
+}
+
+export const INSIGHT_LOOP_PADDING_MS = 3000;
+
+export function insightLoopRange(insight: InsightEvent, paddingMs = INSIGHT_LOOP_PADDING_MS): TimeRange {
+  return {
+    start: Math.max(0, insight.timestamp - paddingMs),
+    end: insight.timestamp + paddingMs,
+  };
+}
@@ -2,6 +2,7 @@ import type { JWT } from "next-auth/jwt";
 
 export const JANUS_UX_AUDITOR_CLIENT_ID = "ux-auditor" as const;
 export const JANUS_ADMIN_ROLE = "janus_admin" as const;
+export const JANUS_UX_AUDITOR_AUDITOR_ROLE = "auditor" as const;
 
 export type JanusClientRole = {
   code: string;
@@ -444,6 +445,22 @@ export function canUseUxAuditor(roles: JanusRoles | undefined): boolean {
   return hasClientAccess(roles, JANUS_UX_AUDITOR_CLIENT_ID);
 }
 
+/**
+ * Só auditores do client ux-auditor (ou admins do Janus) veem o replay sem a visão redigida;
+ * os demais perfis recebem textos, inputs e mídia mascarados.
+ */
+export function canViewUnredactedSessions(roles: JanusRoles | undefined): boolean {
+  if (isJanusAdmin(roles)) {
+    return true;
+  }
+
+  return (
+    roles?.client.some(
+      (role) => role.clientId === JANUS_UX_AUDITOR_CLIENT_ID && role.code === JANUS_UX_AUDITOR_AUDITOR_ROLE
+    ) ?? false
+  );
+}
+
 export function hasUxAuditorAppAccess(roles: JanusRoles | undefined): boolean {
   return canUseUxAuditor(roles) || isJanusAdmin(roles);
 }
@@ -248,6 +248,13 @@ export function normalizeSessionHistoryItem(value: unknown): SessionHistoryItem
       ? rawStatus
       : "queued";
 
+  // O backend pode devolver `session_meta` na raiz do item ou dentro de `metadata`.
+  const sessionMeta = isRecord(value.session_meta)
+    ? value.session_meta
+    : isRecord(value.metadata) && isRecord(value.metadata.session_meta)
+      ? value.metadata.session_meta
+      : {};
+
   return {
     session_uuid: normalizeText(value.session_uuid, ""),
     status: normalizedStatus,
@@ -256,6 +263,9 @@ export function normalizeSessionHistoryItem(value: unknown): SessionHistoryItem
       typeof value.narrative_preview === "string" && value.narrative_preview.trim().length > 0
         ? value.narrative_preview.trim()
         : null,
+    study_name: normalizeText(sessionMeta.study_name, "") || null,
+    participant_code: normalizeText(sessionMeta.participant_code, "") || null,
+    tags: safeStringArray(sessionMeta.tags),
   };
 }
 
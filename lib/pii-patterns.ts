@@ -0,0 +1,52 @@
+import { validateCustomPattern } from "@/lib/pii-scrubber";
+
+// Padrões personalizados ficam no navegador do auditor: são configuração local, não da sessão.
+const PII_PATTERNS_STORAGE_KEY = "ux-auditor:pii-patterns";
+const PII_PATTERNS_CHANGE_EVENT = "ux-auditor:pii-patterns-change";
+
+export function readStoredPiiPatterns(): string {
+  try {
+    return window.localStorage.getItem(PII_PATTERNS_STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveStoredPiiPatterns(value: string) {
+  try {
+    window.localStorage.setItem(PII_PATTERNS_STORAGE_KEY, value);
+  } catch {
+    // Sem localStorage os padrões valem só até recarregar a página.
+  }
+  window.dispatchEvent(new Event(PII_PATTERNS_CHANGE_EVENT));
+}
+
+export function subscribeToPiiPatterns(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  window.addEventListener(PII_PATTERNS_CHANGE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("storage", onChange);
+    window.removeEventListener(PII_PATTERNS_CHANGE_EVENT, onChange);
+  };
+}
+
+/** Um padrão por linha; linhas vazias são ignoradas. */
+export function parsePiiPatterns(value: string): { patterns: string[]; errors: string[] } {
+  const patterns: string[] = [];
+  const errors: string[] = [];
+
+  value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .forEach((pattern, index) => {
+      const error = validateCustomPattern(pattern);
+      if (error) {
+        errors.push(`Linha ${index + 1}: ${error}`);
+      } else {
+        patterns.push(pattern);
+      }
+    });
+
+  return { patterns, errors };
+}
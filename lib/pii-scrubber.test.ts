@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import { createPiiScrubber, validateCustomPattern, type PiiCategoryId } from "@/lib/pii-scrubber";
+import { RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+
+function inputEvent(text: string) {
+  return {
+    type: RRWEB_EVENT_TYPE.IncrementalSnapshot,
+    timestamp: 1,
+    data: { source: RRWEB_INCREMENTAL_SOURCE.Input, id: 3, text, isChecked: false },
+  };
+}
+
+/** Texto do evento depois da varredura e categorias encontradas. */
+function scrub(text: string, options: { patterns?: string[]; categories?: PiiCategoryId[] } = {}) {
+  const scrubber = createPiiScrubber(options.patterns ?? [], { apply: true, categories: options.categories });
+  const event = inputEvent(text);
+  scrubber.processEvent(event);
+  return { text: event.data.text, found: scrubber.report().categories.map((category) => category.id) };
+}
+
+describe("CPF", () => {
+  test("mascara CPFs com dígitos verificadores válidos, com ou sem pontuação", () => {
+    assert.deepEqual(scrub("CPF 529.982.247-25"), { text: "CPF **************", found: ["cpf"] });
+    assert.deepEqual(scrub("52998224725"), { text: "***********", found: ["cpf"] });
+  });
+
+  test("mantém números com dígito verificador errado ou repetido", () => {
+    assert.deepEqual(scrub("529.982.247-26"), { text: "529.982.247-26", found: [] });
+    assert.deepEqual(scrub("111.111.111-11"), { text: "111.111.111-11", found: [] });
+  });
+});
+
+describe("CNPJ", () => {
+  test("mascara CNPJs válidos antes de o CPF ou o telefone olharem os mesmos dígitos", () => {
+    assert.deepEqual(scrub("11.222.333/0001-81"), { text: "******************", found: ["cnpj"] });
+    assert.deepEqual(scrub("11222333000181"), { text: "**************", found: ["cnpj"] });
+  });
+
+  test("mantém CNPJs com dígito verificador errado", () => {
+    assert.deepEqual(scrub("11.222.333/0001-82"), { text: "11.222.333/0001-82", found: [] });
+    assert.deepEqual(scrub("00.000.000/0000-00"), { text: "00.000.000/0000-00", found: [] });
+  });
+});
+
+describe("cartão (Luhn)", () => {
+  test("mascara números que passam no Luhn, preservando os espaços", () => {
+    assert.deepEqual(scrub("4111 1111 1111 1111"), { text: "**** **** **** ****", found: ["card"] });
+    assert.deepEqual(scrub("5555-5555-5555-4444"), { text: "*******************", found: ["card"] });
+  });
+
+  test("mantém números que falham no Luhn ou têm tamanho de cartão inválido", () => {
+    assert.deepEqual(scrub("4111 1111 1111 1112"), { text: "4111 1111 1111 1112", found: [] });
+    assert.deepEqual(scrub("4111 1111 11"), { text: "4111 1111 11", found: [] });
+  });
+});
+
+describe("createPiiScrubber", () => {
+  test("conta ocorrências e guarda amostras sem repetir", () => {
+    const scrubber = createPiiScrubber([], { apply: false });
+    scrubber.processEvent(inputEvent("ana@exemplo.com e ana@exemplo.com"));
+    scrubber.processEvent(inputEvent("(11) 91234-5678"));
+
+    assert.deepEqual(scrubber.report(), {
+      categories: [
+        { id: "email", label: "E-mails", count: 2, samples: ["ana@exemplo.com"] },
+        { id: "phone", label: "Telefones", count: 1, samples: ["(11) 91234-5678"] },
+      ],
+      total: 3,
+    });
+  });
+
+  test("sem `apply`, só relata e não altera o evento", () => {
+    const scrubber = createPiiScrubber([], { apply: false });
+    const event = inputEvent("ana@exemplo.com");
+
+    assert.equal(scrubber.processEvent(event), true);
+    assert.equal(event.data.text, "ana@exemplo.com");
+  });
+
+  test("aplica só as categorias escolhidas e os padrões personalizados válidos", () => {
+    assert.deepEqual(scrub("ana@exemplo.com 529.982.247-25", { categories: ["cpf"] }), {
+      text: "ana@exemplo.com **************",
+      found: ["cpf"],
+    });
+    assert.deepEqual(scrub("matrícula MAT-00123", { patterns: ["MAT-\\d+", "(", ".*"] }), {
+      text: "matrícula *********",
+      found: ["custom"],
+    });
+  });
+});
+
+describe("snapshots grandes", () => {
+  test("percorre nós com centenas de milhares de filhos sem estourar a pilha", () => {
+    const childNodes = Array.from({ length: 300_000 }, (_, index) => ({
+      type: 3,
+      id: index + 2,
+      textContent: index === 299_999 ? "ana@exemplo.com" : "texto",
+    }));
+    const event = {
+      type: RRWEB_EVENT_TYPE.FullSnapshot,
+      timestamp: 1,
+      data: { node: { type: 0, id: 1, childNodes }, initialOffset: { top: 0, left: 0 } },
+    };
+
+    const scrubber = createPiiScrubber([], { apply: true });
+    assert.equal(scrubber.processEvent(event), true);
+    assert.equal(childNodes[299_999].textContent, "***************");
+  });
+});
+
+describe("validateCustomPattern", () => {
+  test("recusa expressões inválidas e as que casam com texto vazio", () => {
+    assert.equal(validateCustomPattern("MAT-\\d+"), null);
+    assert.equal(validateCustomPattern("a*"), "O padrão não pode casar com texto vazio.");
+    assert.equal(typeof validateCustomPattern("("), "string");
+  });
+});
@@ -0,0 +1,262 @@
+import { isRecord, RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+
+type RecordLike = Record<string, unknown>;
+
+export type PiiCategoryId = "email" | "cnpj" | "cpf" | "card" | "phone" | "custom";
+
+interface PiiDetector {
+  id: PiiCategoryId;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+export interface PiiCategoryReport {
+  id: PiiCategoryId;
+  label: string;
+  count: number;
+  samples: string[];
+}
+
+export interface PiiScanReport {
+  categories: PiiCategoryReport[];
+  total: number;
+}
+
+export const PII_CATEGORY_LABELS: Record<PiiCategoryId, string> = {
+  email: "E-mails",
+  cnpj: "CNPJs",
+  cpf: "CPFs",
+  card: "Números de cartão",
+  phone: "Telefones",
+  custom: "Padrões personalizados",
+};
+
+const MAX_SAMPLES = 5;
+const MASK_CHARACTER = "*";
+// Atributos internos do rrweb (data URLs de canvas, CSS serializado) não carregam texto do usuário.
+const SKIPPED_ATTRIBUTE_PREFIXES = ["rr_", "_cssText"];
+const SERIALIZED_TEXT_NODE = 3;
+
+function digitsOf(value: string): number[] {
+  return value.replace(/\D/g, "").split("").map(Number);
+}
+
+function allSameDigit(digits: number[]): boolean {
+  return digits.every((digit) => digit === digits[0]);
+}
+
+function isValidCpf(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 11 || allSameDigit(digits)) {
+    return false;
+  }
+
+  const check = (length: number) => {
+    const sum = digits.slice(0, length).reduce((total, digit, index) => total + digit * (length + 1 - index), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return check(9) === digits[9] && check(10) === digits[10];
+}
+
+function isValidCnpj(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length !== 14 || allSameDigit(digits)) {
+    return false;
+  }
+
+  const check = (length: number) => {
+    const weights = length === 12 ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2] : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+    const sum = digits.slice(0, length).reduce((total, digit, index) => total + digit * weights[index], 0);
+    const rest = sum % 11;
+    return rest < 2 ? 0 : 11 - rest;
+  };
+  return check(12) === digits[12] && check(13) === digits[13];
+}
+
+function passesLuhn(value: string): boolean {
+  const digits = digitsOf(value);
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => {
+      if (index % 2 === 0) {
+        return total + digit;
+      }
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+  return sum % 10 === 0;
+}
+
+/** Mensagem de erro de um padrão personalizado, ou null se ele puder ser usado. */
+export function validateCustomPattern(pattern: string): string | null {
+  try {
+    const regex = new RegExp(pattern);
+    return regex.test("") ? "O padrão não pode casar com texto vazio." : null;
+  } catch (error) {
+    return error instanceof Error ? error.message : "Expressão regular inválida.";
+  }
+}
+
+/**
+ * Detectores em ordem de aplicação: os mais específicos primeiro, para que os dígitos de um
+ * CNPJ já mascarado não sejam contados de novo como telefone ou cartão.
+ */
+function buildDetectors(customPatterns: string[]): PiiDetector[] {
+  return [
+    { id: "email", pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+    { id: "cnpj", pattern: /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/g, validate: isValidCnpj },
+    { id: "cpf", pattern: /\b\d{3}\.?\d{3}\.?\d{3}-?\d{2}\b/g, validate: isValidCpf },
+    { id: "card", pattern: /\b(?:\d[ -]?){12,18}\d\b/g, validate: passesLuhn },
+    { id: "phone", pattern: /(?:\+55[\s-]?)?(?:\(\d{2}\)|\b\d{2})[\s-]?9?\d{4}[\s-]\d{4}\b/g },
+    ...customPatterns
+      .filter((pattern) => validateCustomPattern(pattern) === null)
+      .map<PiiDetector>((pattern) => ({ id: "custom", pattern: new RegExp(pattern, "g") })),
+  ];
+}
+
+function maskMatch(value: string): string {
+  return value.replace(/\S/g, MASK_CHARACTER);
+}
+
+export interface PiiScrubber {
+  /** Percorre textos, atributos e valores de input do evento; retorna true se algo casou. */
+  processEvent(event: unknown): boolean;
+  report(): PiiScanReport;
+}
+
+/**
+ * Cria um varredor de dados pessoais. Com `apply`, os trechos encontrados são substituídos por
+ * asteriscos no próprio evento, o mesmo formato que o rrweb usa para campos mascarados.
+ */
+export function createPiiScrubber(
+  customPatterns: string[],
+  { apply, categories }: { apply: boolean; categories?: PiiCategoryId[] }
+): PiiScrubber {
+  const enabled = categories ? new Set(categories) : null;
+  const detectors = buildDetectors(customPatterns).filter((detector) => !enabled || enabled.has(detector.id));
+  const counts = new Map<PiiCategoryId, number>();
+  const samples = new Map<PiiCategoryId, string[]>();
+  let matched = false;
+
+  const scrubText = (value: string): string => {
+    let result = value;
+    for (const detector of detectors) {
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.validate && !detector.validate(match)) {
+          return match;
+        }
+
+        matched = true;
+        counts.set(detector.id, (counts.get(detector.id) ?? 0) + 1);
+        const categorySamples = samples.get(detector.id) ?? [];
+        if (categorySamples.length < MAX_SAMPLES && !categorySamples.includes(match)) {
+          samples.set(detector.id, [...categorySamples, match]);
+        }
+        return maskMatch(match);
+      });
+    }
+    return apply ? result : value;
+  };
+
+  const scrubField = (record: RecordLike, key: string) => {
+    const value = record[key];
+    if (typeof value === "string" && value.length > 0) {
+      record[key] = scrubText(value);
+    }
+  };
+
+  const scrubAttributes = (attributes: unknown) => {
+    if (!isRecord(attributes)) {
+      return;
+    }
+    for (const key of Object.keys(attributes)) {
+      if (!SKIPPED_ATTRIBUTE_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+        scrubField(attributes, key);
+      }
+    }
+  };
+
+  // Pilha explícita: snapshots de páginas reais passam facilmente de milhares de níveis.
+  const scrubSerializedNode = (root: unknown) => {
+    const stack = [root];
+    while (stack.length > 0) {
+      const node = stack.pop();
+      if (!isRecord(node)) {
+        continue;
+      }
+      if (node.type === SERIALIZED_TEXT_NODE && node.isStyle !== true) {
+        scrubField(node, "textContent");
+      }
+      scrubAttributes(node.attributes);
+      // Um por vez: o spread passa cada filho como argumento e estoura a pilha em nós muito largos.
+      if (Array.isArray(node.childNodes)) {
+        for (const child of node.childNodes) {
+          stack.push(child);
+        }
+      }
+    }
+  };
+
+  const processEvent = (event: unknown): boolean => {
+    matched = false;
+    if (!isRecord(event) || !isRecord(event.data)) {
+      return false;
+    }
+
+    const data = event.data;
+    if (event.type === RRWEB_EVENT_TYPE.Meta) {
+      scrubField(data, "href");
+    } else if (event.type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      scrubSerializedNode(data.node);
+    } else if (event.type === RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+      if (data.source === RRWEB_INCREMENTAL_SOURCE.Input) {
+        scrubField(data, "text");
+      } else if (data.source === RRWEB_INCREMENTAL_SOURCE.Mutation) {
+        for (const add of Array.isArray(data.adds) ? data.adds : []) {
+          scrubSerializedNode(isRecord(add) ? add.node : null);
+        }
+        for (const text of Array.isArray(data.texts) ? data.texts : []) {
+          if (isRecord(text)) {
+            scrubField(text, "value");
+          }
+        }
+        for (const attribute of Array.isArray(data.attributes) ? data.attributes : []) {
+          scrubAttributes(isRecord(attribute) ? attribute.attributes : null);
+        }
+      }
+    }
+
+    return matched;
+  };
+
+  const report = (): PiiScanReport => {
+    const categoryReports = Array.from(counts.entries()).map<PiiCategoryReport>(([id, count]) => ({
+      id,
+      label: PII_CATEGORY_LABELS[id],
+      count,
+      samples: samples.get(id) ?? [],
+    }));
+
+    return {
+      categories: categoryReports,
+      total: categoryReports.reduce((total, category) => total + category.count, 0),
+    };
+  };
+
+  return { processEvent, report };
+}
+
+/** Registro gravado em `metadata.privacy.pii_scrubbing`; as amostras não saem da máquina. */
+export function buildPiiScrubbingRecord(report: PiiScanReport, customPatternCount: number): RecordLike {
+  return {
+    scrubbed_at: new Date().toISOString(),
+    replacements: Object.fromEntries(report.categories.map((category) => [category.id, category.count])),
+    total_replacements: report.total,
+    custom_pattern_count: customPatternCount,
+  };
+}
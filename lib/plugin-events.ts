@@ -0,0 +1,151 @@
+import { getSessionStartTimestamp, isRecord, RRWEB_EVENT_TYPE } from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+type RecordLike = Record<string, unknown>;
+
+export type PluginLogKind = "console" | "network";
+export type PluginLogLevel = "debug" | "log" | "info" | "warn" | "error";
+
+/** Entrada decodificada dos plugins de console/rede do rrweb. Offset em ms desde o início. */
+export interface PluginLogEntry {
+  id: string;
+  offset: number;
+  kind: PluginLogKind;
+  level: PluginLogLevel;
+  message: string;
+  detail: string;
+}
+
+export const PLUGIN_LOG_LEVELS: PluginLogLevel[] = ["error", "warn", "info", "log", "debug"];
+
+const CONSOLE_PLUGIN_PREFIX = "rrweb/console";
+const NETWORK_PLUGIN_PREFIX = "rrweb/network";
+const MAX_MESSAGE_LENGTH = 500;
+
+const CONSOLE_LEVELS: Record<string, PluginLogLevel> = {
+  assert: "error",
+  count: "log",
+  debug: "debug",
+  dir: "log",
+  dirxml: "log",
+  error: "error",
+  group: "log",
+  groupCollapsed: "log",
+  info: "info",
+  log: "log",
+  table: "log",
+  time: "log",
+  timeEnd: "log",
+  timeLog: "log",
+  trace: "debug",
+  warn: "warn",
+};
+
+function truncate(value: string): string {
+  return value.length > MAX_MESSAGE_LENGTH ? `${value.slice(0, MAX_MESSAGE_LENGTH - 1)}…` : value;
+}
+
+// O plugin de console serializa cada argumento com JSON; strings voltam sem aspas.
+function decodeConsoleArgument(value: unknown): string {
+  if (typeof value !== "string") {
+    return JSON.stringify(value) ?? String(value);
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return typeof parsed === "string" ? parsed : JSON.stringify(parsed);
+  } catch {
+    return value;
+  }
+}
+
+function decodeConsoleEntry(payload: RecordLike, offset: number, id: string): PluginLogEntry {
+  const level = typeof payload.level === "string" ? CONSOLE_LEVELS[payload.level] ?? "log" : "log";
+  const args = Array.isArray(payload.payload) ? payload.payload : [];
+  const trace = Array.isArray(payload.trace) ? payload.trace.filter((line): line is string => typeof line === "string") : [];
+
+  return {
+    id,
+    offset,
+    kind: "console",
+    level,
+    message: truncate(args.map(decodeConsoleArgument).join(" ")) || `console.${String(payload.level ?? "log")}()`,
+    detail: trace.join("\n"),
+  };
+}
+
+function readRequestStatus(request: RecordLike): number | null {
+  for (const key of ["status", "responseStatus"]) {
+    const value = request[key];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+  }
+
+  return null;
+}
+
+function decodeNetworkEntries(payload: RecordLike, offset: number, id: string): PluginLogEntry[] {
+  const requests = Array.isArray(payload.requests) ? payload.requests : [payload];
+
+  return requests.flatMap((request, index) => {
+    if (!isRecord(request) || typeof request.url !== "string") {
+      return [];
+    }
+
+    const method = typeof request.method === "string" ? request.method.toUpperCase() : "GET";
+    const status = readRequestStatus(request);
+    const startTime = typeof request.startTime === "number" ? request.startTime : null;
+    const endTime = typeof request.endTime === "number" ? request.endTime : null;
+    const durationMs = startTime !== null && endTime !== null ? Math.max(0, Math.round(endTime - startTime)) : null;
+    // Status 0 indica falha de rede (CORS, offline, abortada); 4xx/5xx são erros HTTP.
+    const level: PluginLogLevel = status === null ? "info" : status === 0 || status >= 500 ? "error" : status >= 400 ? "warn" : "info";
+
+    return [
+      {
+        id: `${id}-${index}`,
+        offset,
+        kind: "network" as const,
+        level,
+        message: truncate(`${method} ${request.url}${status !== null ? ` → ${status}` : ""}`),
+        detail: [
+          typeof request.initiatorType === "string" ? `Iniciador: ${request.initiatorType}` : "",
+          durationMs !== null ? `Duração: ${durationMs}ms` : "",
+        ]
+          .filter(Boolean)
+          .join(" · "),
+      },
+    ];
+  });
+}
+
+/**
+ * Decodifica os eventos de plugin (tipo 6) de console e de rede gravados pelo script de
+ * captura. Plugins desconhecidos são ignorados.
+ */
+export function extractPluginLogEntries(events: RrwebSessionEvent[]): PluginLogEntry[] {
+  const start = getSessionStartTimestamp(events);
+  const entries: PluginLogEntry[] = [];
+
+  events.forEach((event, eventIndex) => {
+    if (event.type !== RRWEB_EVENT_TYPE.Plugin) {
+      return;
+    }
+
+    const data: unknown = event.data;
+    if (!isRecord(data) || typeof data.plugin !== "string" || !isRecord(data.payload)) {
+      return;
+    }
+
+    const offset = event.timestamp - start;
+    const id = `plugin-${eventIndex}`;
+
+    if (data.plugin.startsWith(CONSOLE_PLUGIN_PREFIX)) {
+      entries.push(decodeConsoleEntry(data.payload, offset, id));
+    } else if (data.plugin.startsWith(NETWORK_PLUGIN_PREFIX)) {
+      entries.push(...decodeNetworkEntries(data.payload, offset, id));
+    }
+  });
+
+  return entries;
+}
@@ -0,0 +1,172 @@
+import {
+  getSessionStartTimestamp,
+  isRecord,
+  readFiniteNumber,
+  RRWEB_EVENT_TYPE,
+  RRWEB_INCREMENTAL_SOURCE,
+} from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+type RecordLike = Record<string, unknown>;
+
+/** Posição do ponteiro em coordenadas do viewport gravado, com offset em ms desde o início. */
+export interface PointerSample {
+  offset: number;
+  x: number;
+  y: number;
+}
+
+export interface RageClickBurst {
+  start: number;
+  end: number;
+  x: number;
+  y: number;
+  count: number;
+}
+
+export interface RageClickOptions {
+  minClicks?: number;
+  windowMs?: number;
+  radiusPx?: number;
+}
+
+const MOUSE_INTERACTION_CLICK = 2;
+// Limiares usuais de rage click: 3 ou mais cliques em até 1s entre si, num raio de 30px.
+const DEFAULT_RAGE_MIN_CLICKS = 3;
+const DEFAULT_RAGE_WINDOW_MS = 1000;
+const DEFAULT_RAGE_RADIUS_PX = 30;
+
+function readIncrementalData(event: RrwebSessionEvent): RecordLike | null {
+  if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+    return null;
+  }
+
+  const data: unknown = event.data;
+  return isRecord(data) ? data : null;
+}
+
+/** Extrai as posições de mouse/touch em ordem cronológica. */
+export function extractPointerSamples(events: RrwebSessionEvent[]): PointerSample[] {
+  const start = getSessionStartTimestamp(events);
+  const samples: PointerSample[] = [];
+
+  for (const event of events) {
+    const data = readIncrementalData(event);
+    if (
+      !data ||
+      (data.source !== RRWEB_INCREMENTAL_SOURCE.MouseMove && data.source !== RRWEB_INCREMENTAL_SOURCE.TouchMove) ||
+      !Array.isArray(data.positions)
+    ) {
+      continue;
+    }
+
+    for (const position of data.positions) {
+      if (!isRecord(position)) {
+        continue;
+      }
+
+      const x = readFiniteNumber(position.x);
+      const y = readFiniteNumber(position.y);
+      if (x === null || y === null) {
+        continue;
+      }
+
+      // O rrweb agrupa posições e guarda o atraso (negativo) de cada uma em relação ao evento.
+      samples.push({
+        offset: event.timestamp + (readFiniteNumber(position.timeOffset) ?? 0) - start,
+        x,
+        y,
+      });
+    }
+  }
+
+  return samples.sort((left, right) => left.offset - right.offset);
+}
+
+export function extractClickSamples(events: RrwebSessionEvent[]): PointerSample[] {
+  const start = getSessionStartTimestamp(events);
+  const clicks: PointerSample[] = [];
+
+  for (const event of events) {
+    const data = readIncrementalData(event);
+    if (
+      !data ||
+      data.source !== RRWEB_INCREMENTAL_SOURCE.MouseInteraction ||
+      data.type !== MOUSE_INTERACTION_CLICK
+    ) {
+      continue;
+    }
+
+    const x = readFiniteNumber(data.x);
+    const y = readFiniteNumber(data.y);
+    if (x !== null && y !== null) {
+      clicks.push({ offset: event.timestamp - start, x, y });
+    }
+  }
+
+  return clicks;
+}
+
+/**
+ * Agrupa cliques consecutivos próximos no tempo e no espaço em rajadas de rage click.
+ * Cada clique pertence a no máximo uma rajada, para que a contagem seja comparável
+ * com `stats.rage_clicks` devolvido pelo backend.
+ */
+export function detectRageClickBursts(
+  clicks: PointerSample[],
+  options: RageClickOptions = {}
+): RageClickBurst[] {
+  const minClicks = options.minClicks ?? DEFAULT_RAGE_MIN_CLICKS;
+  const windowMs = options.windowMs ?? DEFAULT_RAGE_WINDOW_MS;
+  const radiusPx = options.radiusPx ?? DEFAULT_RAGE_RADIUS_PX;
+  const bursts: RageClickBurst[] = [];
+  let group: PointerSample[] = [];
+
+  const flush = () => {
+    if (group.length >= minClicks) {
+      bursts.push({
+        start: group[0].offset,
+        end: group[group.length - 1].offset,
+        x: group.reduce((sum, click) => sum + click.x, 0) / group.length,
+        y: group.reduce((sum, click) => sum + click.y, 0) / group.length,
+        count: group.length,
+      });
+    }
+    group = [];
+  };
+
+  for (const click of clicks) {
+    const anchor = group[0];
+    const previous = group[group.length - 1];
+    const isContinuation =
+      anchor !== undefined &&
+      click.offset - previous.offset <= windowMs &&
+      Math.hypot(click.x - anchor.x, click.y - anchor.y) <= radiusPx;
+
+    if (!isContinuation) {
+      flush();
+    }
+
+    group.push(click);
+  }
+
+  flush();
+  return bursts;
+}
+
+/** Índice do primeiro item com `offset >= time` em uma lista ordenada. */
+export function lowerBoundByOffset(samples: PointerSample[], time: number): number {
+  let low = 0;
+  let high = samples.length;
+
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (samples[middle].offset < time) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
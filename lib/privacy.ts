@@ -0,0 +1,399 @@
+import { isRecord, RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+import type { RrwebSessionEvent, SessionRawMetadata } from "@/types/dashboard";
+
+type RecordLike = Record<string, unknown>;
+
+/** Regras de mascaramento declaradas na captura (`privacy` e `capture_config`). */
+export interface PrivacyRules {
+  maskAllInputs: boolean;
+  maskInputTypes: string[];
+  maskTextSelectors: string[];
+  blockSelectors: string[];
+}
+
+/** Modo de aplicação no replay: regras gravadas ou visão redigida completa. */
+export type PrivacyMode = "rules" | "redacted";
+
+const MASK_CHARACTER = "*";
+const PRIVACY_STYLE_ATTRIBUTE = "data-ux-auditor-privacy";
+// O rrweb sempre mascara senhas, mesmo sem configuração explícita.
+const ALWAYS_MASKED_INPUT_TYPES = ["password"];
+
+function readFirst(sources: RecordLike[], keys: string[]): unknown {
+  for (const source of sources) {
+    for (const key of keys) {
+      if (source[key] !== undefined && source[key] !== null) {
+        return source[key];
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function readSelectors(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((item): item is string => typeof item === "string" && item.trim().length > 0).map((item) => item.trim());
+}
+
+function readClassSelectors(value: unknown): string[] {
+  return readSelectors(value).map((className) => (className.startsWith(".") ? className : `.${className}`));
+}
+
+function isValidSelector(selector: string): boolean {
+  if (typeof document === "undefined") {
+    return true;
+  }
+
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Junta as regras de `privacy` e `capture_config` aceitando os nomes das opções do
+ * `rrweb.record` em camelCase e snake_case. Seletores inválidos são descartados.
+ */
+export function resolvePrivacyRules(metadata: SessionRawMetadata | null | undefined): PrivacyRules {
+  const sources = [metadata?.privacy, metadata?.capture_config].filter(isRecord);
+  const inputOptions = readFirst(sources, ["maskInputOptions", "mask_input_options"]);
+  const maskInputTypes = isRecord(inputOptions)
+    ? Object.entries(inputOptions)
+        .filter(([, enabled]) => enabled === true)
+        .map(([type]) => type.toLowerCase())
+    : [];
+
+  return {
+    maskAllInputs: readFirst(sources, ["maskAllInputs", "mask_all_inputs"]) === true,
+    maskInputTypes: Array.from(new Set([...ALWAYS_MASKED_INPUT_TYPES, ...maskInputTypes])),
+    maskTextSelectors: [
+      ...readSelectors(readFirst(sources, ["maskTextSelector", "mask_text_selector", "maskTextSelectors", "mask_text_selectors"])),
+      ...readClassSelectors(readFirst(sources, ["maskTextClass", "mask_text_class"])),
+    ].filter(isValidSelector),
+    blockSelectors: [
+      ...readSelectors(readFirst(sources, ["blockSelector", "block_selector", "blockSelectors", "block_selectors"])),
+      ...readClassSelectors(readFirst(sources, ["blockClass", "block_class"])),
+    ].filter(isValidSelector),
+  };
+}
+
+function isMaskedValue(value: string): boolean {
+  return value.length === 0 || /^\*+$/.test(value);
+}
+
+/**
+ * Conta eventos de input cujo valor chegou em texto claro. O rrweb substitui valores
+ * mascarados por asteriscos, então qualquer outro conteúdo indica vazamento na captura.
+ */
+export function countUnmaskedInputValues(events: RrwebSessionEvent[]): number {
+  let count = 0;
+
+  for (const event of events) {
+    if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+      continue;
+    }
+
+    const data: unknown = event.data;
+    if (
+      isRecord(data) &&
+      data.source === RRWEB_INCREMENTAL_SOURCE.Input &&
+      typeof data.text === "string" &&
+      !isMaskedValue(data.text)
+    ) {
+      count += 1;
+    }
+  }
+
+  return count;
+}
+
+function maskText(value: string): string {
+  return value.replace(/\S/g, MASK_CHARACTER);
+}
+
+function shouldMaskField(field: Element, rules: PrivacyRules, mode: PrivacyMode): boolean {
+  if (mode === "redacted" || rules.maskAllInputs) {
+    return true;
+  }
+
+  const type = (field.getAttribute("type") ?? field.tagName).toLowerCase();
+  return (
+    rules.maskInputTypes.includes(type) ||
+    rules.maskTextSelectors.some((selector) => field.matches(selector) || field.closest(selector) !== null)
+  );
+}
+
+function maskTextNodes(root: Node) {
+  const document = root.ownerDocument ?? (root as Document);
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const parentTag = node.parentElement?.tagName;
+    if (parentTag === "STYLE" || parentTag === "SCRIPT") {
+      continue;
+    }
+
+    const value = node.nodeValue ?? "";
+    if (/[^\s*]/.test(value)) {
+      node.nodeValue = maskText(value);
+    }
+  }
+}
+
+function buildPrivacyStylesheet(rules: PrivacyRules, mode: PrivacyMode): string {
+  const blocked = rules.blockSelectors.map(
+    (selector) => `${selector} { background: #cbd5e1 !important; } ${selector} * { visibility: hidden !important; }`
+  );
+  const media = mode === "redacted" ? ["img, video, canvas, picture, svg image { filter: blur(16px) !important; }"] : [];
+  return [...blocked, ...media].join("\n");
+}
+
+/**
+ * Aplica as regras de privacidade ao DOM reconstruído pelo replay. Deve ser chamada de
+ * novo após cada evento aplicado, já que o rrweb reescreve valores e nós a todo momento.
+ */
+export function applyReplayPrivacy(document: Document, rules: PrivacyRules, mode: PrivacyMode) {
+  document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>("input, textarea").forEach((field) => {
+    const type = (field.getAttribute("type") ?? "").toLowerCase();
+    if (type === "checkbox" || type === "radio" || type === "hidden" || !shouldMaskField(field, rules, mode)) {
+      return;
+    }
+
+    if (!isMaskedValue(field.value)) {
+      field.value = maskText(field.value);
+    }
+    if (field.hasAttribute("value") && !isMaskedValue(field.getAttribute("value") ?? "")) {
+      field.setAttribute("value", maskText(field.getAttribute("value") ?? ""));
+    }
+  });
+
+  if (mode === "redacted") {
+    if (document.body) {
+      maskTextNodes(document.body);
+    }
+  } else {
+    for (const selector of rules.maskTextSelectors) {
+      document.querySelectorAll(selector).forEach(maskTextNodes);
+    }
+  }
+
+  const stylesheet = buildPrivacyStylesheet(rules, mode);
+  const head = document.head ?? document.documentElement;
+  let style = document.querySelector<HTMLStyleElement>(`style[${PRIVACY_STYLE_ATTRIBUTE}]`);
+  if (!stylesheet) {
+    style?.remove();
+    return;
+  }
+
+  if (!style && head) {
+    style = document.createElement("style");
+    style.setAttribute(PRIVACY_STYLE_ATTRIBUTE, "");
+    head.appendChild(style);
+  }
+  if (style && style.textContent !== stylesheet) {
+    style.textContent = stylesheet;
+  }
+}
+
+// Tipos de nó serializados pelo rrweb-snapshot.
+const SERIALIZED_ELEMENT_NODE = 2;
+const SERIALIZED_TEXT_NODE = 3;
+const SERIALIZED_COMMENT_NODE = 5;
+const VALUE_ELEMENTS = new Set(["input", "textarea", "select", "option"]);
+const RAW_TEXT_ELEMENTS = new Set(["style", "script"]);
+// Imagens e canvas embutidos como data URL mostrariam o conteúdo mesmo com o blur do replay.
+const INLINE_MEDIA_ATTRIBUTES = ["rr_dataURL"];
+// Atributos de texto livre, que repetem conteúdo da página (dicas, legendas, rótulos); `data-*` também.
+const TEXT_ATTRIBUTES = new Set(["placeholder", "title", "alt", "aria-label", "aria-description", "aria-valuetext"]);
+// Atributos com URL: origem e caminho ficam, query e fragmento saem, como no `href` do Meta.
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction", "poster"]);
+
+// Seções de configuração e do formulário de upload, sem conteúdo da página gravada.
+const UNREDACTED_METADATA_SECTIONS = new Set(["privacy", "capture_config", "session_meta", "source"]);
+// Campos técnicos mantidos na visão redigida: regras do axe, seletores, níveis e tipos.
+const STRUCTURAL_KEYS = new Set([
+  "id",
+  "impact",
+  "help",
+  "helpUrl",
+  "description",
+  "tags",
+  "target",
+  "selector",
+  "type",
+  "kind",
+  "outcome",
+  "plugin",
+  "level",
+  "method",
+  "initiatorType",
+  "tag",
+]);
+
+/** Mantém origem e caminho; query e fragmento costumam carregar e-mails, ids e tokens. */
+function redactUrl(value: string): string {
+  return value.replace(/([?#]).*$/, "$1***");
+}
+
+function redactValue(value: unknown, key?: string): unknown {
+  if (key !== undefined && STRUCTURAL_KEYS.has(key)) {
+    return value;
+  }
+  if (typeof value === "string") {
+    return key === "url" || key === "href" ? redactUrl(value) : maskText(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item));
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [entryKey, redactValue(entry, entryKey)]));
+  }
+  return value;
+}
+
+function redactAttributes(attributes: unknown, tagName: string | null): unknown {
+  if (!isRecord(attributes)) {
+    return attributes;
+  }
+
+  const redacted: RecordLike = { ...attributes };
+  INLINE_MEDIA_ATTRIBUTES.forEach((name) => delete redacted[name]);
+  if ((tagName === null || VALUE_ELEMENTS.has(tagName)) && typeof redacted.value === "string") {
+    redacted.value = maskText(redacted.value);
+  }
+  for (const [name, value] of Object.entries(redacted)) {
+    if (typeof value !== "string") {
+      continue;
+    }
+    if (TEXT_ATTRIBUTES.has(name) || name.startsWith("data-")) {
+      redacted[name] = maskText(value);
+    } else if (URL_ATTRIBUTES.has(name)) {
+      redacted[name] = redactUrl(value);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Redige a árvore serializada de um snapshot ou mutação. Os ids de texto dentro de
+ * `<style>`/`<script>` são guardados para que mutações de CSS não sejam mascaradas depois.
+ */
+function redactSerializedNode(node: unknown, rawTextNodeIds: Set<number>, parentTag: string | null): unknown {
+  if (!isRecord(node)) {
+    return node;
+  }
+
+  const redacted: RecordLike = { ...node };
+  if (node.type === SERIALIZED_TEXT_NODE || node.type === SERIALIZED_COMMENT_NODE) {
+    const rawText = node.isStyle === true || (parentTag !== null && RAW_TEXT_ELEMENTS.has(parentTag));
+    if (rawText && typeof node.id === "number") {
+      rawTextNodeIds.add(node.id);
+    }
+    if (!rawText && typeof node.textContent === "string") {
+      redacted.textContent = maskText(node.textContent);
+    }
+    return redacted;
+  }
+
+  const tagName = node.type === SERIALIZED_ELEMENT_NODE && typeof node.tagName === "string" ? node.tagName.toLowerCase() : null;
+  if (tagName !== null) {
+    redacted.attributes = redactAttributes(node.attributes, tagName);
+  }
+  if (Array.isArray(node.childNodes)) {
+    redacted.childNodes = node.childNodes.map((child) => redactSerializedNode(child, rawTextNodeIds, tagName));
+  }
+  return redacted;
+}
+
+function redactMutation(data: RecordLike, rawTextNodeIds: Set<number>): RecordLike {
+  return {
+    ...data,
+    adds: Array.isArray(data.adds)
+      ? data.adds.map((add) =>
+          isRecord(add) ? { ...add, node: redactSerializedNode(add.node, rawTextNodeIds, null) } : add
+        )
+      : data.adds,
+    texts: Array.isArray(data.texts)
+      ? data.texts.map((text) =>
+          isRecord(text) && typeof text.value === "string" && !(typeof text.id === "number" && rawTextNodeIds.has(text.id))
+            ? { ...text, value: maskText(text.value) }
+            : text
+        )
+      : data.texts,
+    // O tipo do elemento não vem na mutação de atributo, então todo `value` é mascarado.
+    attributes: Array.isArray(data.attributes)
+      ? data.attributes.map((change) =>
+          isRecord(change) ? { ...change, attributes: redactAttributes(change.attributes, null) } : change
+        )
+      : data.attributes,
+  };
+}
+
+function redactEventData(type: unknown, data: RecordLike, rawTextNodeIds: Set<number>): RecordLike {
+  switch (type) {
+    case RRWEB_EVENT_TYPE.FullSnapshot:
+      return { ...data, node: redactSerializedNode(data.node, rawTextNodeIds, null) };
+    case RRWEB_EVENT_TYPE.IncrementalSnapshot:
+      if (data.source === RRWEB_INCREMENTAL_SOURCE.Mutation) {
+        return redactMutation(data, rawTextNodeIds);
+      }
+      if (data.source === RRWEB_INCREMENTAL_SOURCE.Input && typeof data.text === "string") {
+        return { ...data, text: maskText(data.text) };
+      }
+      return data;
+    case RRWEB_EVENT_TYPE.Meta:
+      return typeof data.href === "string" ? { ...data, href: redactUrl(data.href) } : data;
+    case RRWEB_EVENT_TYPE.Custom:
+    case RRWEB_EVENT_TYPE.Plugin:
+      // Logs de console, requisições e marcadores customizados podem repetir dados da página.
+      return { ...data, payload: redactValue(data.payload) };
+    default:
+      return data;
+  }
+}
+
+/**
+ * Versão redigida dos eventos, equivalente ao modo "redacted" do replay: textos, valores de
+ * campos, atributos de texto livre, query de URLs, logs de plugin e mídia embutida saem
+ * mascarados antes de deixar o BFF.
+ */
+export function redactRrwebEvents(events: unknown[]): unknown[] {
+  const rawTextNodeIds = new Set<number>();
+
+  return events.map((event) =>
+    isRecord(event) && isRecord(event.data)
+      ? { ...event, data: redactEventData(event.type, event.data, rawTextNodeIds) }
+      : event
+  );
+}
+
+export function redactSessionMetadata(metadata: unknown): unknown {
+  if (!isRecord(metadata)) {
+    return metadata;
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata).map(([section, value]) => [
+      section,
+      UNREDACTED_METADATA_SECTIONS.has(section) ? value : redactValue(value),
+    ])
+  );
+}
+
+/** Payload de `/sessions/{uuid}/raw` redigido para quem não pode ver a sessão sem máscara. */
+export function redactSessionRawPayload(payload: unknown): unknown {
+  if (!isRecord(payload)) {
+    return payload;
+  }
+
+  const redacted: RecordLike = { ...payload, metadata: redactSessionMetadata(payload.metadata) };
+  if (Array.isArray(payload.events)) {
+    redacted.events = redactRrwebEvents(payload.events);
+  }
+  if (isRecord(payload.rrweb) && Array.isArray(payload.rrweb.events)) {
+    redacted.rrweb = { ...payload.rrweb, events: redactRrwebEvents(payload.rrweb.events) };
+  }
+  return redacted;
+}
@@ -0,0 +1,458 @@
+import "server-only";
+
+import {
+  createEnvelopeStreamScanner,
+  type EnvelopeEventSource,
+  type EnvelopeStreamScanner,
+} from "@/lib/envelope-stream";
+import { parsePiiPatterns } from "@/lib/pii-patterns";
+import { buildPiiScrubbingRecord, createPiiScrubber } from "@/lib/pii-scrubber";
+import { isRecord } from "@/lib/rrweb";
+import { isRrwebEventLike, mergeEnvelopeMetadata } from "@/lib/session-file";
+import { CANONICAL_IMPORTER, SessionImportError } from "@/lib/session-importers";
+import {
+  submitSessionDocument,
+  submitSessionStream,
+  type SubmitSessionDocumentOptions,
+  type SubmittedSession,
+} from "@/lib/session-ingest";
+
+export type RemoteImportErrorCode =
+  | "INVALID_URL"
+  | "HOST_NOT_ALLOWED"
+  | "TOO_LARGE"
+  | "FETCH_FAILED"
+  | "INVALID_CONTENT";
+
+export class RemoteImportError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code: RemoteImportErrorCode
+  ) {
+    super(message);
+    this.name = "RemoteImportError";
+  }
+}
+
+const DEFAULT_MAX_BYTES = 200 * 1024 * 1024;
+// Formatos que precisam do documento inteiro em memória (export do PostHog, eventos compactados, lista de eventos).
+const DEFAULT_DOCUMENT_MAX_BYTES = 20 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 60_000;
+const NDJSON_EXTENSIONS = [".ndjson", ".jsonl"];
+
+type RecordLike = Record<string, unknown>;
+
+/** Hosts liberados em `REMOTE_IMPORT_ALLOWED_HOSTS`, separados por vírgula; `*.dominio` libera subdomínios. */
+function resolveAllowedHosts(): string[] {
+  return (process.env.REMOTE_IMPORT_ALLOWED_HOSTS ?? "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function resolveLimit(value: string | undefined, fallback: number): number {
+  const configured = Number(value);
+  return Number.isInteger(configured) && configured > 0 ? configured : fallback;
+}
+
+function resolveMaxBytes(): number {
+  return resolveLimit(process.env.REMOTE_IMPORT_MAX_BYTES, DEFAULT_MAX_BYTES);
+}
+
+function resolveDocumentMaxBytes(): number {
+  return resolveLimit(process.env.REMOTE_IMPORT_DOCUMENT_MAX_BYTES, DEFAULT_DOCUMENT_MAX_BYTES);
+}
+
+/**
+ * Padrões personalizados de dados pessoais da importação por URL, um por linha em
+ * `REMOTE_IMPORT_PII_PATTERNS`. Vêm da configuração, e não do pedido: expressões regulares
+ * enviadas pelo cliente rodariam no servidor e abririam espaço para ReDoS.
+ */
+export function resolveServerPiiPatterns(): string[] {
+  return parsePiiPatterns(process.env.REMOTE_IMPORT_PII_PATTERNS ?? "").patterns;
+}
+
+const DEFAULT_PORTS: Record<string, string> = { "http:": "80", "https:": "443" };
+
+/**
+ * Entradas `host:porta` liberam só aquela porta; sem porta, só a padrão do protocolo
+ * (`url.port` vazio), para que um host liberado não abra as demais portas do servidor.
+ */
+function isAllowedHost(url: URL, allowedHosts: string[]): boolean {
+  const hostname = url.hostname.toLowerCase();
+  const port = url.port || DEFAULT_PORTS[url.protocol];
+
+  return allowedHosts.some((allowed) => {
+    const [, allowedName, allowedPort] = /^(.*?)(?::(\d+))?$/.exec(allowed) as RegExpExecArray;
+    const nameMatches = allowedName.startsWith("*.") ? hostname.endsWith(allowedName.slice(1)) : allowedName === hostname;
+    return nameMatches && (allowedPort ? allowedPort === port : url.port === "");
+  });
+}
+
+/**
+ * Converte o endereço informado pelo auditor em uma URL buscável. Caminhos `s3://bucket/chave`
+ * usam o endpoint de `REMOTE_IMPORT_S3_ENDPOINT` (MinIO ou S3 compatível, estilo path) e exigem
+ * leitura anônima no bucket; para buckets privados, use uma URL pré-assinada.
+ */
+export function resolveRemoteUrl(input: string): URL {
+  const value = input.trim();
+
+  if (value.toLowerCase().startsWith("s3://")) {
+    const endpoint = process.env.REMOTE_IMPORT_S3_ENDPOINT;
+    if (!endpoint) {
+      throw new RemoteImportError("Importação de caminhos s3:// não está configurada.", 400, "INVALID_URL");
+    }
+
+    const segments = value.slice("s3://".length).replace(/^\/+/, "").split("/");
+    if (segments.length < 2) {
+      throw new RemoteImportError("Informe o caminho no formato s3://bucket/chave.", 400, "INVALID_URL");
+    }
+    // `new URL` resolveria `.` e `..`, levando a chave para fora do bucket (ou a outro bucket).
+    if (segments.some((segment) => segment === "" || segment === "." || segment === "..")) {
+      throw new RemoteImportError("O caminho s3:// não pode ter segmentos vazios, `.` ou `..`.", 400, "INVALID_URL");
+    }
+
+    // O endpoint é configurado pela operação, então não passa pela lista de hosts.
+    return new URL(segments.map(encodeURIComponent).join("/"), endpoint.endsWith("/") ? endpoint : `${endpoint}/`);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new RemoteImportError("URL inválida.", 400, "INVALID_URL");
+  }
+
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new RemoteImportError("Use uma URL http(s) ou um caminho s3://.", 400, "INVALID_URL");
+  }
+  if (url.username || url.password) {
+    throw new RemoteImportError("URLs com credenciais embutidas não são aceitas.", 400, "INVALID_URL");
+  }
+  if (!isAllowedHost(url, resolveAllowedHosts())) {
+    throw new RemoteImportError(
+      `O host ${url.host} não está na lista de origens permitidas para importação.`,
+      403,
+      "HOST_NOT_ALLOWED"
+    );
+  }
+
+  return url;
+}
+
+function formatLimit(maxBytes: number): string {
+  return maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / (1024 * 1024))} MB` : `${maxBytes} bytes`;
+}
+
+function tooLargeError(maxBytes: number): RemoteImportError {
+  return new RemoteImportError(
+    `A gravação passa do limite de ${formatLimit(maxBytes)} para importação por URL.`,
+    413,
+    "TOO_LARGE"
+  );
+}
+
+/** Interrompe o stream assim que o limite é passado, sem esperar o download terminar. */
+function createSizeLimitStream(maxBytes: number): TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>> {
+  let loaded = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      if (loaded > maxBytes) {
+        controller.error(tooLargeError(maxBytes));
+        return;
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+interface RemoteRecordingStream {
+  stream: ReadableStream<Uint8Array<ArrayBuffer>>;
+  ndjson: boolean;
+}
+
+/**
+ * Abre o download da gravação, com limite de tamanho (antes e depois da descompressão de `.gz`),
+ * timeout e sem seguir redirecionamentos, que poderiam levar a hosts fora da lista.
+ */
+async function openRemoteRecording(url: URL): Promise<RemoteRecordingStream> {
+  const maxBytes = resolveMaxBytes();
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      redirect: "error",
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "application/json, application/x-ndjson, application/gzip" },
+    });
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === "TimeoutError";
+    throw new RemoteImportError(
+      timedOut ? "A origem demorou demais para responder." : "Não foi possível baixar a gravação da URL informada.",
+      timedOut ? 504 : 422,
+      "FETCH_FAILED"
+    );
+  }
+
+  if (!response.ok || !response.body) {
+    throw new RemoteImportError(`A origem respondeu ${response.status} ao baixar a gravação.`, 422, "FETCH_FAILED");
+  }
+
+  const declaredSize = Number(response.headers.get("content-length"));
+  if (Number.isFinite(declaredSize) && declaredSize > maxBytes) {
+    throw tooLargeError(maxBytes);
+  }
+
+  const pathname = url.pathname.toLowerCase();
+  const contentType = response.headers.get("content-type") ?? "";
+  const gzip = pathname.endsWith(".gz") || contentType.includes("gzip");
+  const ndjson =
+    NDJSON_EXTENSIONS.some((extension) => pathname.replace(/\.gz$/, "").endsWith(extension)) ||
+    contentType.includes("ndjson");
+
+  let stream = response.body.pipeThrough(createSizeLimitStream(maxBytes));
+  if (gzip) {
+    stream = stream.pipeThrough(new DecompressionStream("gzip")).pipeThrough(createSizeLimitStream(maxBytes));
+  }
+
+  return { stream, ndjson };
+}
+
+async function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>
+): Promise<ReadableStreamReadResult<Uint8Array<ArrayBuffer>>> {
+  try {
+    return await reader.read();
+  } catch (error) {
+    if (error instanceof RemoteImportError) {
+      throw error;
+    }
+    throw new RemoteImportError("Não foi possível ler ou descompactar a gravação baixada.", 422, "FETCH_FAILED");
+  }
+}
+
+type RemoteRecording = { document: unknown } | { prefix: Uint8Array<ArrayBuffer>[] };
+
+/**
+ * Lê o começo do download até o primeiro evento. Um envelope canônico (evento em objeto) segue
+ * em stream com os bytes já lidos; os demais formatos precisam do documento inteiro para o
+ * registro de importadores e ficam limitados a `REMOTE_IMPORT_DOCUMENT_MAX_BYTES`.
+ */
+async function readRemoteRecording(reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>): Promise<RemoteRecording> {
+  const maxBytes = resolveDocumentMaxBytes();
+  const decoder = new TextDecoder();
+  const prefix: Uint8Array<ArrayBuffer>[] = [];
+  let loaded = 0;
+  // Definido no primeiro evento; texto no lugar do evento indica eventos compactados com o `pack` do rrweb.
+  const firstEvent: { packed?: boolean } = {};
+  let scanner: EnvelopeStreamScanner | null = createEnvelopeStreamScanner((event) => {
+    firstEvent.packed ??= typeof event === "string";
+  });
+
+  for (;;) {
+    const { done, value } = await readChunk(reader);
+    if (done) {
+      break;
+    }
+
+    prefix.push(value);
+    loaded += value.byteLength;
+    if (scanner) {
+      try {
+        scanner.write(decoder.decode(value, { stream: true }));
+      } catch {
+        // Listas na raiz e JSON inválido ficam para o caminho do documento, que aponta o erro.
+        scanner = null;
+      }
+    }
+
+    if (firstEvent.packed === false) {
+      return { prefix };
+    }
+    if (loaded > maxBytes) {
+      await reader.cancel();
+      throw new RemoteImportError(
+        `Formatos diferentes do envelope rrweb e do NDJSON são limitados a ${formatLimit(maxBytes)} na importação por URL.`,
+        413,
+        "TOO_LARGE"
+      );
+    }
+  }
+
+  try {
+    return { document: JSON.parse(await new Blob(prefix).text()) };
+  } catch {
+    throw new RemoteImportError("O conteúdo baixado não é um JSON válido.", 400, "INVALID_CONTENT");
+  }
+}
+
+/** Lê o NDJSON linha a linha; como no upload, linhas que não são eventos carregam os campos do envelope. */
+function createNdjsonScanner(onEvent: (event: unknown, source: EnvelopeEventSource) => void): EnvelopeStreamScanner {
+  let header: RecordLike = {};
+  let rest = "";
+  let lineNumber = 0;
+
+  const readLine = (rawLine: string) => {
+    lineNumber += 1;
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new RemoteImportError(`Linha ${lineNumber} do NDJSON não é um JSON válido.`, 400, "INVALID_CONTENT");
+    }
+
+    if (isRrwebEventLike(parsed)) {
+      onEvent(parsed, "rrweb.events");
+    } else if (isRecord(parsed)) {
+      header = { ...header, ...parsed };
+    }
+  };
+
+  return {
+    write(text) {
+      const lines = `${rest}${text}`.split("\n");
+      rest = lines.pop() ?? "";
+      lines.forEach(readLine);
+    },
+    end() {
+      readLine(rest);
+      rest = "";
+      return header;
+    },
+  };
+}
+
+function serializeFields(fields: unknown, omitted: string[]): string {
+  if (!isRecord(fields)) {
+    return "";
+  }
+  return Object.entries(fields)
+    .filter(([key]) => !omitted.includes(key))
+    .map(([key, value]) => `,${JSON.stringify(key)}:${JSON.stringify(value)}`)
+    .join("");
+}
+
+interface CanonicalEnvelopeStream {
+  body: ReadableStream<Uint8Array>;
+  // Falha da leitura ou da conversão; o envio interrompido só devolve um erro de rede.
+  error: unknown;
+  piiReplaced: number;
+}
+
+type CanonicalEnvelopeOptions = Pick<SubmitSessionDocumentOptions, "sessionMeta" | "scrubPii" | "piiPatterns">;
+
+/**
+ * Reescreve o download como o envelope `{ rrweb: { events }, ...campos }`, um evento por vez:
+ * dados pessoais são substituídos em cada evento, e `session_meta` e o registro da remoção
+ * entram nos campos, escritos depois da lista porque o NDJSON e o envelope podem trazê-los no fim.
+ */
+function createCanonicalEnvelopeStream(
+  prefix: Uint8Array<ArrayBuffer>[],
+  reader: ReadableStreamDefaultReader<Uint8Array<ArrayBuffer>>,
+  createScanner: typeof createEnvelopeStreamScanner,
+  { sessionMeta, scrubPii = false, piiPatterns = [] }: CanonicalEnvelopeOptions
+): CanonicalEnvelopeStream {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const scrubber = scrubPii ? createPiiScrubber(piiPatterns, { apply: true }) : null;
+  const pending = [...prefix];
+  const parts: string[] = ['{"rrweb":{"events":['];
+  let source: EnvelopeEventSource | null = null;
+  let eventCount = 0;
+
+  const scanner = createScanner((event, eventSource) => {
+    // O envelope reescrito tem uma lista só; com as duas preenchidas, não há como saber qual vale.
+    if (source && source !== eventSource) {
+      throw new SessionImportError("A gravação tem eventos em `events` e em `rrweb.events`; mantenha só uma das listas.");
+    }
+    source = eventSource;
+    scrubber?.processEvent(event);
+    parts.push(`${eventCount === 0 ? "" : ","}${JSON.stringify(event)}`);
+    eventCount += 1;
+  });
+
+  const finish = () => {
+    let header = scanner.end();
+    if (sessionMeta) {
+      header = mergeEnvelopeMetadata(header, "session_meta", sessionMeta);
+    }
+    if (scrubber) {
+      const report = scrubber.report();
+      if (report.total > 0) {
+        header = mergeEnvelopeMetadata(header, "privacy", {
+          pii_scrubbing: buildPiiScrubbingRecord(report, piiPatterns.length),
+        });
+      }
+      result.piiReplaced = report.total;
+    }
+    parts.push(`]${serializeFields(header.rrweb, ["events"])}}${serializeFields(header, ["events", "rrweb"])}}`);
+  };
+
+  const result: CanonicalEnvelopeStream = {
+    body: new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          // Um pedaço pode terminar no meio de um evento; lê até ter o que enviar.
+          while (parts.length === 0) {
+            const chunk = pending.length > 0 ? pending.shift() : (await readChunk(reader)).value;
+            if (!chunk) {
+              scanner.write(decoder.decode());
+              finish();
+              controller.enqueue(encoder.encode(parts.splice(0).join("")));
+              controller.close();
+              return;
+            }
+            scanner.write(decoder.decode(chunk, { stream: true }));
+          }
+          controller.enqueue(encoder.encode(parts.splice(0).join("")));
+        } catch (error) {
+          result.error = error;
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    }),
+    error: null,
+    piiReplaced: 0,
+  };
+
+  return result;
+}
+
+/**
+ * Baixa a gravação e a envia ao backend. Envelopes canônicos e NDJSON seguem em stream por
+ * `submitSessionStream`, sem passar inteiros pela memória do BFF; os demais formatos são
+ * parseados e convertidos por `submitSessionDocument`.
+ */
+export async function importRemoteRecording(url: URL, options: SubmitSessionDocumentOptions): Promise<SubmittedSession> {
+  const { stream, ndjson } = await openRemoteRecording(url);
+  const reader = stream.getReader();
+
+  const recording: RemoteRecording = ndjson ? { prefix: [] } : await readRemoteRecording(reader);
+  if ("document" in recording) {
+    return submitSessionDocument(recording.document, options);
+  }
+
+  const envelope = createCanonicalEnvelopeStream(
+    recording.prefix,
+    reader,
+    ndjson ? createNdjsonScanner : createEnvelopeStreamScanner,
+    options
+  );
+  try {
+    const response = await submitSessionStream(envelope.body, { owner: options.owner, force: options.force });
+    return { response, importer: CANONICAL_IMPORTER, piiReplaced: envelope.piiReplaced };
+  } catch (error) {
+    throw envelope.error ?? error;
+  }
+}
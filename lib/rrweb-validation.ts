@@ -0,0 +1,286 @@
+import { z } from "zod";
+
+import { extractRrwebEvents, isRecord, RRWEB_EVENT_TYPE, RRWEB_INCREMENTAL_SOURCE } from "@/lib/rrweb";
+
+export type RrwebValidationIssueCode =
+  | "invalid_envelope"
+  | "invalid_event"
+  | "unknown_event_type"
+  | "unknown_incremental_source"
+  | "missing_meta"
+  | "missing_full_snapshot"
+  | "non_monotonic_timestamp";
+
+export interface RrwebValidationIssue {
+  code: RrwebValidationIssueCode;
+  // Índice do evento em `rrweb.events`; null para problemas do envelope ou da gravação inteira.
+  eventIndex: number | null;
+  // Caminho do campo dentro do evento (ex.: `data.source`), vazio quando o problema é o evento todo.
+  path: string;
+  message: string;
+}
+
+export interface RrwebValidationReport {
+  valid: boolean;
+  eventCount: number;
+  // Total encontrado; `issues` guarda só os primeiros `MAX_REPORTED_ISSUES`.
+  issueCount: number;
+  issues: RrwebValidationIssue[];
+}
+
+export const MAX_REPORTED_ISSUES = 100;
+
+// Fontes incrementais do rrweb 2.x (`IncrementalSource`), de Mutation (0) a CustomElement (16).
+const KNOWN_INCREMENTAL_SOURCES = new Set(Array.from({ length: 17 }, (_, source) => source));
+
+const { localeError } = z.locales.pt();
+
+const coordinateSchema = z.number();
+const nodeIdSchema = z.number().int();
+
+const serializedNodeSchema = z.looseObject({
+  type: z.number().int(),
+  id: nodeIdSchema,
+});
+
+const positionsSchema = z.array(
+  z.looseObject({ x: coordinateSchema, y: coordinateSchema, id: nodeIdSchema, timeOffset: z.number() })
+);
+
+// Só as fontes que o dashboard lê (overlay, heatmap, privacidade) têm o payload conferido.
+const incrementalDataSchemas: Partial<Record<number, z.ZodType>> = {
+  [RRWEB_INCREMENTAL_SOURCE.Mutation]: z.looseObject({
+    texts: z.array(z.looseObject({ id: nodeIdSchema })),
+    attributes: z.array(z.looseObject({ id: nodeIdSchema, attributes: z.record(z.string(), z.unknown()) })),
+    removes: z.array(z.looseObject({ id: nodeIdSchema })),
+    adds: z.array(z.looseObject({ parentId: nodeIdSchema, node: serializedNodeSchema })),
+  }),
+  [RRWEB_INCREMENTAL_SOURCE.MouseMove]: z.looseObject({ positions: positionsSchema }),
+  [RRWEB_INCREMENTAL_SOURCE.TouchMove]: z.looseObject({ positions: positionsSchema }),
+  [RRWEB_INCREMENTAL_SOURCE.Drag]: z.looseObject({ positions: positionsSchema }),
+  [RRWEB_INCREMENTAL_SOURCE.MouseInteraction]: z.looseObject({ type: z.number().int(), id: nodeIdSchema }),
+  [RRWEB_INCREMENTAL_SOURCE.Scroll]: z.looseObject({ id: nodeIdSchema, x: coordinateSchema, y: coordinateSchema }),
+  [RRWEB_INCREMENTAL_SOURCE.ViewportResize]: z.looseObject({ width: z.number(), height: z.number() }),
+  [RRWEB_INCREMENTAL_SOURCE.Input]: z.looseObject({ id: nodeIdSchema, text: z.string() }),
+};
+
+const eventDataSchemas: Record<number, z.ZodType> = {
+  // DomContentLoaded e Load não carregam dados próprios.
+  0: z.looseObject({}),
+  1: z.looseObject({}),
+  [RRWEB_EVENT_TYPE.FullSnapshot]: z.looseObject({
+    node: serializedNodeSchema,
+    initialOffset: z.looseObject({ top: z.number(), left: z.number() }),
+  }),
+  [RRWEB_EVENT_TYPE.IncrementalSnapshot]: z.looseObject({ source: z.number().int() }),
+  [RRWEB_EVENT_TYPE.Meta]: z.looseObject({ href: z.string(), width: z.number(), height: z.number() }),
+  [RRWEB_EVENT_TYPE.Custom]: z.looseObject({ tag: z.string(), payload: z.unknown() }),
+  [RRWEB_EVENT_TYPE.Plugin]: z.looseObject({ plugin: z.string(), payload: z.unknown() }),
+};
+
+const eventBaseSchema = z.looseObject({
+  type: z.number().int(),
+  timestamp: z.number().nonnegative(),
+  data: z.unknown(),
+});
+
+const envelopeMetadataSchema = z.record(z.string(), z.unknown()).optional();
+
+function formatPath(prefix: string, path: PropertyKey[]): string {
+  return [prefix, ...path.map(String)].filter(Boolean).join(".");
+}
+
+export interface RrwebEventValidator {
+  /** Confere um evento; precisa ser chamado na ordem da gravação. */
+  check(event: unknown, index: number): void;
+  report(): RrwebValidationReport;
+}
+
+/**
+ * Validador incremental, para o NDJSON conferir linha a linha sem montar a lista de eventos.
+ * Além do schema de cada tipo, confere a ordem Meta → FullSnapshot antes do primeiro
+ * incremental e que os timestamps não voltem no tempo.
+ */
+export function createRrwebEventValidator(): RrwebEventValidator {
+  const issues: RrwebValidationIssue[] = [];
+  let issueCount = 0;
+  let eventCount = 0;
+  let previousTimestamp: number | null = null;
+  let previousIndex = 0;
+  let hasMeta = false;
+  let hasFullSnapshot = false;
+  let orderReported = false;
+
+  const addIssue = (issue: RrwebValidationIssue) => {
+    issueCount += 1;
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push(issue);
+    }
+  };
+
+  const addSchemaIssues = (error: z.ZodError, index: number, prefix: string) => {
+    for (const issue of error.issues) {
+      addIssue({ code: "invalid_event", eventIndex: index, path: formatPath(prefix, issue.path), message: issue.message });
+    }
+  };
+
+  const checkOrder = (type: number, index: number) => {
+    if (type === RRWEB_EVENT_TYPE.Meta) {
+      hasMeta = true;
+    } else if (type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      if (!hasMeta && !hasFullSnapshot) {
+        orderReported = true;
+        addIssue({
+          code: "missing_meta",
+          eventIndex: index,
+          path: "",
+          message: "O primeiro FullSnapshot não é precedido por um evento Meta com URL e dimensões da janela.",
+        });
+      }
+      hasFullSnapshot = true;
+    } else if (type === RRWEB_EVENT_TYPE.IncrementalSnapshot && !hasFullSnapshot && !orderReported) {
+      orderReported = true;
+      addIssue({
+        code: "missing_full_snapshot",
+        eventIndex: index,
+        path: "",
+        message: "Evento incremental antes do primeiro FullSnapshot: o replay não tem DOM para aplicá-lo.",
+      });
+    }
+  };
+
+  const check = (event: unknown, index: number) => {
+    eventCount += 1;
+
+    const base = eventBaseSchema.safeParse(event, { error: localeError });
+    if (!base.success) {
+      addSchemaIssues(base.error, index, "");
+      return;
+    }
+
+    const { type, timestamp, data } = base.data;
+    if (previousTimestamp !== null && timestamp < previousTimestamp) {
+      addIssue({
+        code: "non_monotonic_timestamp",
+        eventIndex: index,
+        path: "timestamp",
+        message: `Timestamp ${timestamp} é anterior ao do evento ${previousIndex} (${previousTimestamp}).`,
+      });
+    }
+    previousTimestamp = timestamp;
+    previousIndex = index;
+
+    const dataSchema = eventDataSchemas[type];
+    if (!dataSchema) {
+      addIssue({ code: "unknown_event_type", eventIndex: index, path: "type", message: `Tipo de evento desconhecido: ${type}.` });
+      return;
+    }
+
+    checkOrder(type, index);
+
+    const parsedData = dataSchema.safeParse(data, { error: localeError });
+    if (!parsedData.success) {
+      addSchemaIssues(parsedData.error, index, "data");
+      return;
+    }
+
+    if (type === RRWEB_EVENT_TYPE.IncrementalSnapshot && isRecord(data)) {
+      const source = data.source as number;
+      if (!KNOWN_INCREMENTAL_SOURCES.has(source)) {
+        addIssue({
+          code: "unknown_incremental_source",
+          eventIndex: index,
+          path: "data.source",
+          message: `Fonte incremental desconhecida: ${source}.`,
+        });
+        return;
+      }
+
+      const sourceResult = incrementalDataSchemas[source]?.safeParse(data, { error: localeError });
+      if (sourceResult && !sourceResult.success) {
+        addSchemaIssues(sourceResult.error, index, "data");
+      }
+    }
+  };
+
+  const report = (): RrwebValidationReport => {
+    const finalIssues = [...issues];
+    let finalCount = issueCount;
+    const addFinal = (issue: RrwebValidationIssue) => {
+      finalCount += 1;
+      if (finalIssues.length < MAX_REPORTED_ISSUES) {
+        finalIssues.push(issue);
+      }
+    };
+
+    if (eventCount > 0 && !hasMeta && !orderReported) {
+      addFinal({ code: "missing_meta", eventIndex: null, path: "", message: "A gravação não tem evento Meta." });
+    }
+    if (eventCount > 0 && !hasFullSnapshot && !orderReported) {
+      addFinal({
+        code: "missing_full_snapshot",
+        eventIndex: null,
+        path: "",
+        message: "A gravação não tem FullSnapshot; o replay não consegue montar a página.",
+      });
+    }
+
+    return { valid: finalCount === 0, eventCount, issueCount: finalCount, issues: finalIssues };
+  };
+
+  return { check, report };
+}
+
+export function validateRrwebEvents(events: unknown[]): RrwebValidationReport {
+  const validator = createRrwebEventValidator();
+  events.forEach((event, index) => validator.check(event, index));
+  return validator.report();
+}
+
+/** Valida o envelope inteiro: estrutura, `metadata` e cada evento de `rrweb.events`. */
+export function validateRrwebEnvelope(value: unknown): RrwebValidationReport {
+  const events = extractRrwebEvents(value);
+  if (!events) {
+    return {
+      valid: false,
+      eventCount: 0,
+      issueCount: 1,
+      issues: [
+        {
+          code: "invalid_envelope",
+          eventIndex: null,
+          path: "rrweb.events",
+          message: "Era esperado um objeto com rrweb.events não vazio.",
+        },
+      ],
+    };
+  }
+
+  return withEnvelopeMetadataIssues(validateRrwebEvents(events), isRecord(value) ? value.metadata : undefined);
+}
+
+/** Acrescenta ao relatório dos eventos os problemas de `metadata`; usado também no envio em stream. */
+export function withEnvelopeMetadataIssues(report: RrwebValidationReport, metadata: unknown): RrwebValidationReport {
+  const parsed = envelopeMetadataSchema.safeParse(metadata, { error: localeError });
+  if (parsed.success) {
+    return report;
+  }
+
+  const metadataIssues = parsed.error.issues.map<RrwebValidationIssue>((issue) => ({
+    code: "invalid_envelope",
+    eventIndex: null,
+    path: formatPath("metadata", issue.path),
+    message: issue.message,
+  }));
+  return {
+    valid: false,
+    eventCount: report.eventCount,
+    issueCount: report.issueCount + metadataIssues.length,
+    issues: [...metadataIssues, ...report.issues].slice(0, MAX_REPORTED_ISSUES),
+  };
+}
+
+/** Reconhece o relatório devolvido por `/api/ingest` em respostas 422. */
+export function isRrwebValidationReport(value: unknown): value is RrwebValidationReport {
+  return isRecord(value) && typeof value.valid === "boolean" && Array.isArray(value.issues);
+}
@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+
+import {
+  computeActivityDensity,
+  detectIdleSegments,
+  formatTimeRangeParam,
+  getScrollPositionAt,
+  listScrollChanges,
+  parseTimeRangeParam,
+  RRWEB_EVENT_TYPE,
+  RRWEB_INCREMENTAL_SOURCE,
+} from "@/lib/rrweb";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+const START = 1_700_000_000_000;
+
+function event(type: number, offset: number, data: Record<string, unknown> = {}): RrwebSessionEvent {
+  return { type, timestamp: START + offset, data } as RrwebSessionEvent;
+}
+
+function fullSnapshot(offset: number, documentId = 1): RrwebSessionEvent {
+  return event(RRWEB_EVENT_TYPE.FullSnapshot, offset, {
+    node: { type: 0, id: documentId, childNodes: [] },
+    initialOffset: { top: 0, left: 0 },
+  });
+}
+
+function scroll(offset: number, id: number, x: number, y: number): RrwebSessionEvent {
+  return event(RRWEB_EVENT_TYPE.IncrementalSnapshot, offset, { source: RRWEB_INCREMENTAL_SOURCE.Scroll, id, x, y });
+}
+
+function mouseMove(offset: number): RrwebSessionEvent {
+  return event(RRWEB_EVENT_TYPE.IncrementalSnapshot, offset, { source: RRWEB_INCREMENTAL_SOURCE.MouseMove, positions: [] });
+}
+
+function mutation(offset: number): RrwebSessionEvent {
+  return event(RRWEB_EVENT_TYPE.IncrementalSnapshot, offset, {
+    source: RRWEB_INCREMENTAL_SOURCE.Mutation,
+    adds: [],
+    removes: [],
+    texts: [],
+    attributes: [],
+  });
+}
+
+describe("listScrollChanges", () => {
+  test("segue só o scroll do documento e zera a posição a cada full snapshot", () => {
+    const changes = listScrollChanges([
+      event(RRWEB_EVENT_TYPE.Meta, 0, { href: "https://exemplo.com", width: 800, height: 600 }),
+      fullSnapshot(10),
+      scroll(100, 1, 0, 250),
+      scroll(150, 42, 0, 900),
+      scroll(200, 1, 30, 400),
+      fullSnapshot(300, 7),
+      scroll(350, 1, 0, 50),
+      scroll(400, 7, 0, 120),
+    ]);
+
+    assert.deepEqual(changes, [
+      { offset: 10, x: 0, y: 0 },
+      { offset: 100, x: 0, y: 250 },
+      { offset: 200, x: 30, y: 400 },
+      { offset: 300, x: 0, y: 0 },
+      { offset: 400, x: 0, y: 120 },
+    ]);
+  });
+
+  test("mantém o eixo que veio sem número", () => {
+    const changes = listScrollChanges([fullSnapshot(0), scroll(10, 1, 15, 200), scroll(20, 1, Number.NaN, 300)]);
+
+    assert.deepEqual(changes.at(-1), { offset: 20, x: 15, y: 300 });
+  });
+});
+
+describe("getScrollPositionAt", () => {
+  const changes = [
+    { offset: 0, x: 0, y: 0 },
+    { offset: 100, x: 0, y: 250 },
+    { offset: 200, x: 30, y: 400 },
+  ];
+
+  test("devolve a última mudança até o instante, inclusive", () => {
+    assert.deepEqual(getScrollPositionAt(changes, 99), { x: 0, y: 0 });
+    assert.deepEqual(getScrollPositionAt(changes, 100), { x: 0, y: 250 });
+    assert.deepEqual(getScrollPositionAt(changes, 199), { x: 0, y: 250 });
+    assert.deepEqual(getScrollPositionAt(changes, 5_000), { x: 30, y: 400 });
+  });
+
+  test("começa na origem antes da primeira mudança ou sem mudanças", () => {
+    assert.deepEqual(getScrollPositionAt(changes.slice(1), 50), { x: 0, y: 0 });
+    assert.deepEqual(getScrollPositionAt([], 50), { x: 0, y: 0 });
+  });
+});
+
+describe("detectIdleSegments", () => {
+  test("considera o começo e o fim da gravação como fronteiras", () => {
+    const segments = detectIdleSegments(
+      [fullSnapshot(0), mouseMove(5_000), mouseMove(6_000), mutation(20_000), mouseMove(21_000), mutation(40_000)],
+      4_000
+    );
+
+    assert.deepEqual(segments, [
+      { start: 0, end: 5_000 },
+      { start: 6_000, end: 21_000 },
+      { start: 21_000, end: 40_000 },
+    ]);
+  });
+
+  test("ignora pausas até o limite e entradas sem duração", () => {
+    assert.deepEqual(detectIdleSegments([fullSnapshot(0), mouseMove(3_000), mouseMove(6_000)], 3_000), []);
+    assert.deepEqual(detectIdleSegments([fullSnapshot(0)], 1_000), []);
+    assert.deepEqual(detectIdleSegments([fullSnapshot(0), mutation(10_000)], 0), []);
+  });
+});
+
+describe("computeActivityDensity", () => {
+  test("distribui a interação em faixas normalizadas pelo pico", () => {
+    const density = computeActivityDensity(
+      [fullSnapshot(0), mouseMove(100), mouseMove(200), mutation(500), mouseMove(900), mouseMove(1_000)],
+      4
+    );
+
+    assert.deepEqual(density, [1, 0, 0, 1]);
+  });
+
+  test("devolve faixas zeradas sem duração ou sem interação", () => {
+    assert.deepEqual(computeActivityDensity([fullSnapshot(0), mutation(0)], 3), [0, 0, 0]);
+    assert.deepEqual(computeActivityDensity([fullSnapshot(0), mutation(1_000)], 2), [0, 0]);
+    assert.deepEqual(computeActivityDensity([fullSnapshot(0), mouseMove(1_000)], 0), []);
+  });
+});
+
+describe("parâmetros de intervalo", () => {
+  test("lê e escreve `inicio-fim` em ms", () => {
+    assert.deepEqual(parseTimeRangeParam(" 1500-4200 "), { start: 1_500, end: 4_200 });
+    assert.equal(formatTimeRangeParam({ start: 1_499.6, end: 4_200.2 }), "1500-4200");
+    assert.deepEqual(parseTimeRangeParam(formatTimeRangeParam({ start: 0, end: 30_000 })), { start: 0, end: 30_000 });
+  });
+
+  test("recusa intervalos vazios, invertidos ou malformados", () => {
+    for (const value of [null, undefined, "", "4200-1500", "1500-1500", "-10-20", "1.5-3", "abc", "99999999999999999-99999999999999999999"]) {
+      assert.equal(parseTimeRangeParam(value), null, String(value));
+    }
+  });
+});
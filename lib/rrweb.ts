@@ -1,8 +1,8 @@
-import type { RrwebSessionEvent, SessionRawResponse } from "@/types/dashboard";
+import type { BoundingBox, RrwebSessionEvent, SessionRawResponse } from "@/types/dashboard";
 
 type RecordLike = Record<string, unknown>;
 
-function isRecord(value: unknown): value is RecordLike {
+export function isRecord(value: unknown): value is RecordLike {
   return value !== null && typeof value === "object" && !Array.isArray(value);
 }
 
@@ -46,3 +46,376 @@ export function isRrwebEnvelope(value: unknown): value is {
 } {
   return extractRrwebEvents(value) !== null;
 }
+
+export const RRWEB_EVENT_TYPE = {
+  FullSnapshot: 2,
+  IncrementalSnapshot: 3,
+  Meta: 4,
+  Custom: 5,
+  Plugin: 6,
+} as const;
+
+export const RRWEB_INCREMENTAL_SOURCE = {
+  Mutation: 0,
+  MouseMove: 1,
+  MouseInteraction: 2,
+  Scroll: 3,
+  ViewportResize: 4,
+  Input: 5,
+  TouchMove: 6,
+  Drag: 12,
+} as const;
+
+export interface ReplayViewport {
+  width: number;
+  height: number;
+}
+
+export interface ScrollPosition {
+  x: number;
+  y: number;
+}
+
+export function readEventData(event: RrwebSessionEvent): RecordLike {
+  const data: unknown = event.data;
+  return isRecord(data) ? data : {};
+}
+
+export function readFiniteNumber(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+export function getSessionStartTimestamp(events: RrwebSessionEvent[]): number {
+  return events[0]?.timestamp ?? 0;
+}
+
+export interface ScrollChange extends ScrollPosition {
+  offset: number;
+}
+
+/**
+ * Reproduz o scroll da janela principal ao longo da sessão, uma entrada por mudança (offset em
+ * ms desde o início). Um novo full snapshot zera a posição, assim como acontece no replay.
+ */
+export function listScrollChanges(events: RrwebSessionEvent[]): ScrollChange[] {
+  const start = getSessionStartTimestamp(events);
+  const changes: ScrollChange[] = [];
+  let documentNodeId: number | null = null;
+  let position: ScrollPosition = { x: 0, y: 0 };
+
+  for (const event of events) {
+    const data = readEventData(event);
+
+    if (event.type === RRWEB_EVENT_TYPE.FullSnapshot) {
+      documentNodeId = isRecord(data.node) ? readFiniteNumber(data.node.id) : null;
+      position = { x: 0, y: 0 };
+      changes.push({ offset: event.timestamp - start, ...position });
+      continue;
+    }
+
+    if (
+      event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot ||
+      data.source !== RRWEB_INCREMENTAL_SOURCE.Scroll ||
+      data.id !== documentNodeId
+    ) {
+      continue;
+    }
+
+    position = {
+      x: readFiniteNumber(data.x) ?? position.x,
+      y: readFiniteNumber(data.y) ?? position.y,
+    };
+    changes.push({ offset: event.timestamp - start, ...position });
+  }
+
+  return changes;
+}
+
+/** Scroll vigente em `timeOffset`, por busca binária na lista de `listScrollChanges`. */
+export function getScrollPositionAt(changes: ScrollChange[], timeOffset: number): ScrollPosition {
+  let low = 0;
+  let high = changes.length;
+
+  // Primeira mudança depois de `timeOffset`; a vigente é a anterior.
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (changes[middle].offset <= timeOffset) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const current = changes[low - 1];
+  return current ? { x: current.x, y: current.y } : { x: 0, y: 0 };
+}
+
+export interface StageTransform {
+  scale: number;
+  offsetLeft: number;
+  offsetTop: number;
+}
+
+/**
+ * Escala e deslocamento aplicados pelo rrweb-player, que centraliza o iframe escalado no stage.
+ * Retorna `null` enquanto alguma das dimensões ainda não é conhecida.
+ */
+export function getStageTransform(viewport: ReplayViewport, stage: ReplayViewport): StageTransform | null {
+  if (viewport.width <= 0 || viewport.height <= 0 || stage.width <= 0 || stage.height <= 0) {
+    return null;
+  }
+
+  const scale = Math.min(stage.width / viewport.width, stage.height / viewport.height);
+  return {
+    scale,
+    offsetLeft: (stage.width - viewport.width * scale) / 2,
+    offsetTop: (stage.height - viewport.height * scale) / 2,
+  };
+}
+
+/**
+ * Projeta uma bounding box em coordenadas do documento gravado para o stage renderizado.
+ * Retorna `null` quando a caixa fica inteiramente fora da área visível.
+ */
+export function projectBoundingBox(
+  box: BoundingBox,
+  viewport: ReplayViewport,
+  stage: ReplayViewport,
+  scroll: ScrollPosition
+): BoundingBox | null {
+  const transform = getStageTransform(viewport, stage);
+  if (!transform) {
+    return null;
+  }
+
+  const { scale, offsetLeft, offsetTop } = transform;
+  const left = (box.left - scroll.x) * scale + offsetLeft;
+  const top = (box.top - scroll.y) * scale + offsetTop;
+  const width = Math.max(0, box.width * scale);
+  const height = Math.max(0, box.height * scale);
+
+  if (left + width < 0 || top + height < 0 || left > stage.width || top > stage.height) {
+    return null;
+  }
+
+  return { left, top, width, height };
+}
+
+const USER_ACTIVITY_SOURCES: ReadonlySet<number> = new Set([
+  RRWEB_INCREMENTAL_SOURCE.MouseMove,
+  RRWEB_INCREMENTAL_SOURCE.MouseInteraction,
+  RRWEB_INCREMENTAL_SOURCE.Scroll,
+  RRWEB_INCREMENTAL_SOURCE.Input,
+  RRWEB_INCREMENTAL_SOURCE.TouchMove,
+  RRWEB_INCREMENTAL_SOURCE.Drag,
+]);
+
+export function isUserActivityEvent(event: RrwebSessionEvent): boolean {
+  if (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot) {
+    return false;
+  }
+
+  const source = readEventData(event).source;
+  return typeof source === "number" && USER_ACTIVITY_SOURCES.has(source);
+}
+
+/**
+ * Distribui os eventos incrementais de interação (mouse, scroll, input) em `bucketCount`
+ * faixas iguais da sessão. Os valores retornados são normalizados entre 0 e 1.
+ */
+export function computeActivityDensity(events: RrwebSessionEvent[], bucketCount: number): number[] {
+  const buckets = new Array<number>(Math.max(0, Math.floor(bucketCount))).fill(0);
+  if (buckets.length === 0 || events.length < 2) {
+    return buckets;
+  }
+
+  const start = getSessionStartTimestamp(events);
+  const duration = events[events.length - 1].timestamp - start;
+  if (duration <= 0) {
+    return buckets;
+  }
+
+  for (const event of events) {
+    if (!isUserActivityEvent(event)) {
+      continue;
+    }
+
+    const ratio = (event.timestamp - start) / duration;
+    const index = Math.min(buckets.length - 1, Math.max(0, Math.floor(ratio * buckets.length)));
+    buckets[index] += 1;
+  }
+
+  const peak = Math.max(...buckets);
+  return peak > 0 ? buckets.map((count) => count / peak) : buckets;
+}
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Encontra trechos sem interação do usuário mais longos que `thresholdMs`.
+ * Os limites são offsets em ms desde o início da sessão; o início e o fim da gravação
+ * também contam como fronteiras, então um começo ocioso longo vira um segmento.
+ */
+export function detectIdleSegments(events: RrwebSessionEvent[], thresholdMs: number): TimeRange[] {
+  if (events.length < 2 || thresholdMs <= 0) {
+    return [];
+  }
+
+  const start = getSessionStartTimestamp(events);
+  const duration = events[events.length - 1].timestamp - start;
+  const segments: TimeRange[] = [];
+  let lastActivity = 0;
+
+  const pushGap = (gapEnd: number) => {
+    if (gapEnd - lastActivity > thresholdMs) {
+      segments.push({ start: lastActivity, end: gapEnd });
+    }
+  };
+
+  for (const event of events) {
+    if (!isUserActivityEvent(event)) {
+      continue;
+    }
+
+    const offset = Math.max(0, event.timestamp - start);
+    pushGap(offset);
+    lastActivity = Math.max(lastActivity, offset);
+  }
+
+  pushGap(duration);
+  return segments;
+}
+
+export function findTimeRangeAt(ranges: TimeRange[], time: number): TimeRange | null {
+  return ranges.find((range) => time >= range.start && time < range.end) ?? null;
+}
+
+/**
+ * Retorna o offset do evento rrweb imediatamente antes ou depois de `time`.
+ * Usado no passo-a-passo do replay; `null` indica que não há evento naquela direção.
+ */
+export function findAdjacentEventOffset(
+  events: RrwebSessionEvent[],
+  time: number,
+  direction: -1 | 1
+): number | null {
+  const start = getSessionStartTimestamp(events);
+
+  if (direction > 0) {
+    for (const event of events) {
+      const offset = event.timestamp - start;
+      if (offset > time) {
+        return offset;
+      }
+    }
+
+    return null;
+  }
+
+  for (let index = events.length - 1; index >= 0; index -= 1) {
+    const offset = events[index].timestamp - start;
+    if (offset < time) {
+      return offset;
+    }
+  }
+
+  return null;
+}
+
+export function clampTimeRange(range: TimeRange, duration: number): TimeRange | null {
+  const start = Math.max(0, Math.min(range.start, duration));
+  const end = Math.max(0, Math.min(range.end, duration));
+  return end > start ? { start, end } : null;
+}
+
+/** Lê um intervalo no formato `inicio-fim` (ms), usado nos parâmetros de URL do replay. */
+export function parseTimeRangeParam(value: string | null | undefined): TimeRange | null {
+  const match = value?.trim().match(/^(\d+)-(\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  return Number.isSafeInteger(start) && Number.isSafeInteger(end) && end > start ? { start, end } : null;
+}
+
+export function formatTimeRangeParam(range: TimeRange): string {
+  return `${Math.round(range.start)}-${Math.round(range.end)}`;
+}
+
+export interface NavigationMarker {
+  offset: number;
+  href: string;
+}
+
+/** Lista as navegações registradas pelos eventos Meta, na ordem em que aconteceram. */
+export function listNavigationEvents(events: RrwebSessionEvent[]): NavigationMarker[] {
+  const start = getSessionStartTimestamp(events);
+
+  return events.flatMap((event) => {
+    if (event.type !== RRWEB_EVENT_TYPE.Meta) {
+      return [];
+    }
+
+    const href = readEventData(event).href;
+    return [{ offset: event.timestamp - start, href: typeof href === "string" ? href : "" }];
+  });
+}
+
+export interface ViewportChange extends ReplayViewport {
+  offset: number;
+}
+
+/**
+ * Lista as dimensões do viewport ao longo da sessão: cada Meta (carregamento de página)
+ * e cada ViewportResize incremental abre um novo trecho a partir do seu offset.
+ */
+export function listViewportChanges(events: RrwebSessionEvent[]): ViewportChange[] {
+  const start = getSessionStartTimestamp(events);
+  const changes: ViewportChange[] = [];
+
+  for (const event of events) {
+    const isMeta = event.type === RRWEB_EVENT_TYPE.Meta;
+    const data = readEventData(event);
+    if (!isMeta && (event.type !== RRWEB_EVENT_TYPE.IncrementalSnapshot || data.source !== RRWEB_INCREMENTAL_SOURCE.ViewportResize)) {
+      continue;
+    }
+
+    const width = readFiniteNumber(data.width);
+    const height = readFiniteNumber(data.height);
+    if (width === null || height === null || width <= 0 || height <= 0) {
+      continue;
+    }
+
+    const previous = changes[changes.length - 1];
+    if (previous && previous.width === width && previous.height === height) {
+      continue;
+    }
+
+    changes.push({ offset: event.timestamp - start, width, height });
+  }
+
+  return changes;
+}
+
+/** Viewport vigente em `timeOffset`; antes da primeira mudança vale a primeira conhecida. */
+export function getViewportAt(
+  changes: ViewportChange[],
+  timeOffset: number,
+  fallback: ReplayViewport
+): ReplayViewport {
+  let current: ReplayViewport | null = changes[0] ?? null;
+
+  for (const change of changes) {
+    if (change.offset > timeOffset) {
+      break;
+    }
+    current = change;
+  }
+
+  return current ? { width: current.width, height: current.height } : fallback;
+}
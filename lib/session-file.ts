@@ -0,0 +1,166 @@
+import type { PiiCategoryId, PiiScanReport } from "@/lib/pii-scrubber";
+import { isRecord } from "@/lib/rrweb";
+import type { RrwebValidationReport } from "@/lib/rrweb-validation";
+import type { SessionImporterInfo } from "@/lib/session-importers";
+
+type RecordLike = Record<string, unknown>;
+
+/** Formato de arquivo de sessão aceito no upload. */
+export type SessionFileFormat = "json" | "ndjson";
+
+export interface SessionFileDescriptor {
+  format: SessionFileFormat;
+  gzip: boolean;
+}
+
+/** Mensagem enviada ao worker de preparação do upload. */
+export type SessionFileWorkerRequest =
+  | {
+      type: "prepare";
+      file: File;
+      // Dados do formulário de upload a mesclar em `metadata.session_meta`.
+      sessionMeta?: RecordLike;
+      piiPatterns: string[];
+      // Sem revisão, todas as categorias de dados pessoais encontradas são substituídas.
+      reviewPii: boolean;
+    }
+  // Resposta à revisão: categorias a substituir.
+  | { type: "scrub"; categories: PiiCategoryId[] };
+
+export type SessionFileWorkerResponse =
+  | { type: "progress"; loaded: number; total: number }
+  | { type: "review"; report: PiiScanReport }
+  | {
+      type: "done";
+      body: Blob;
+      eventCount: number;
+      scrubbed: PiiScanReport;
+      importer: SessionImporterInfo;
+      // Hash dos eventos já sem dados pessoais, o mesmo que o BFF calcula (`lib/session-hash.ts`).
+      contentHash: string;
+    }
+  | { type: "invalid"; report: RrwebValidationReport }
+  | { type: "error"; message: string };
+
+export const SESSION_FILE_ACCEPT = ".json,.ndjson,.jsonl,.gz";
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+const NDJSON_EXTENSIONS = [".ndjson", ".jsonl"];
+const JSON_EXTENSIONS = [".json", ...NDJSON_EXTENSIONS];
+
+function stripGzipExtension(name: string): string {
+  return name.toLowerCase().replace(/\.gz$/, "");
+}
+
+export function isSupportedSessionFileName(name: string): boolean {
+  const baseName = stripGzipExtension(name);
+  return JSON_EXTENSIONS.some((extension) => baseName.endsWith(extension));
+}
+
+/**
+ * Identifica o formato pelo nome e confirma gzip pelos bytes mágicos, já que alguns
+ * navegadores descompactam downloads mas mantêm a extensão `.gz`.
+ */
+export async function describeSessionFile(file: File): Promise<SessionFileDescriptor> {
+  const header = new Uint8Array(await file.slice(0, GZIP_MAGIC.length).arrayBuffer());
+  const gzip = GZIP_MAGIC.every((byte, index) => header[index] === byte);
+  const baseName = stripGzipExtension(file.name);
+
+  return {
+    format: NDJSON_EXTENSIONS.some((extension) => baseName.endsWith(extension)) ? "ndjson" : "json",
+    gzip,
+  };
+}
+
+/** Evento rrweb mínimo: tipo numérico e timestamp. Outras linhas do NDJSON são cabeçalho. */
+export function isRrwebEventLike(value: unknown): boolean {
+  return isRecord(value) && typeof value.type === "number" && typeof value.timestamp === "number";
+}
+
+/**
+ * Monta o envelope `{ ...cabeçalho, rrweb: { events } }` como partes de um Blob, reaproveitando
+ * o texto original de cada evento para não serializar a gravação inteira de novo.
+ */
+export function buildEnvelopeBlob(header: RecordLike, eventLines: string[]): Blob {
+  const { rrweb, ...rest } = header;
+  const rrwebRest = isRecord(rrweb) ? Object.fromEntries(Object.entries(rrweb).filter(([key]) => key !== "events")) : {};
+  const headerJson = JSON.stringify(rest);
+  const rrwebJson = JSON.stringify(rrwebRest);
+
+  const parts: string[] = [headerJson === "{}" ? "{" : `${headerJson.slice(0, -1)},`, '"rrweb":'];
+  parts.push(rrwebJson === "{}" ? "{" : `${rrwebJson.slice(0, -1)},`, '"events":[');
+  eventLines.forEach((line, index) => {
+    parts.push(index === 0 ? line : `,${line}`);
+  });
+  parts.push("]}}");
+
+  return new Blob(parts, { type: "application/json" });
+}
+
+/** Mescla valores em uma seção de `metadata` (ex.: `session_meta`, `privacy`) de um envelope já parseado. */
+export function mergeEnvelopeMetadata(
+  envelope: RecordLike,
+  section: "session_meta" | "privacy" | "source",
+  values: RecordLike
+): RecordLike {
+  const metadata = isRecord(envelope.metadata) ? envelope.metadata : {};
+  const current = isRecord(metadata[section]) ? metadata[section] : {};
+
+  return {
+    ...envelope,
+    metadata: { ...metadata, [section]: { ...current, ...values } },
+  };
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+function readDirectoryBatch(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await readFileEntry(entry as FileSystemFileEntry)];
+  }
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  // `readEntries` devolve os filhos em lotes; precisa ser chamado até vir vazio.
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  for (let batch = await readDirectoryBatch(reader); batch.length > 0; batch = await readDirectoryBatch(reader)) {
+    for (const child of batch) {
+      files.push(...(await collectEntryFiles(child)));
+    }
+  }
+  return files;
+}
+
+/**
+ * Expande arquivos e pastas soltos na área de upload. As entradas precisam ser lidas de forma
+ * síncrona dentro do evento de drop; a travessia das pastas continua depois.
+ */
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === "file" ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files));
+  }
+
+  return Promise.all(entries.map(collectEntryFiles)).then((groups) => groups.flat());
+}
@@ -0,0 +1,269 @@
+import {
+  buildEnvelopeBlob,
+  describeSessionFile,
+  isRrwebEventLike,
+  mergeEnvelopeMetadata,
+  type SessionFileWorkerRequest,
+  type SessionFileWorkerResponse,
+} from "@/lib/session-file";
+import {
+  buildPiiScrubbingRecord,
+  createPiiScrubber,
+  type PiiCategoryId,
+  type PiiScanReport,
+} from "@/lib/pii-scrubber";
+import { createRrwebEventValidator, validateRrwebEnvelope } from "@/lib/rrweb-validation";
+import { computeSessionContentHash, createSessionContentHasher } from "@/lib/session-hash";
+import { importSessionDocument, type SessionImporterInfo } from "@/lib/session-importers";
+
+// Emite progresso a cada ~1% para não inundar a thread principal com mensagens.
+const PROGRESS_STEPS = 100;
+
+const worker = self as unknown as Worker;
+
+// O NDJSON é lido em stream, linha a linha, fora do registro de importadores.
+const NDJSON_IMPORTER: SessionImporterInfo = { id: "rrweb-ndjson", label: "NDJSON de eventos rrweb" };
+
+interface PrepareOptions {
+  sessionMeta?: Record<string, unknown>;
+  piiPatterns: string[];
+  reviewPii: boolean;
+}
+
+let resolveReview: ((categories: PiiCategoryId[]) => void) | null = null;
+
+function post(message: SessionFileWorkerResponse) {
+  worker.postMessage(message);
+}
+
+function createProgressStream(total: number): TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>> {
+  const step = Math.max(1, Math.floor(total / PROGRESS_STEPS));
+  let loaded = 0;
+  let reported = 0;
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      loaded += chunk.byteLength;
+      if (loaded - reported >= step || loaded === total) {
+        reported = loaded;
+        post({ type: "progress", loaded, total });
+      }
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+async function* readTextChunks(file: File, gzip: boolean): AsyncGenerator<string> {
+  let stream: ReadableStream<BufferSource> = file.stream().pipeThrough(createProgressStream(file.size));
+  if (gzip) {
+    stream = stream.pipeThrough(new DecompressionStream("gzip"));
+  }
+
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return;
+    }
+    yield value;
+  }
+}
+
+/**
+ * Decide quais categorias de dados pessoais substituir: nenhuma se nada foi encontrado,
+ * todas sem revisão, ou as escolhidas pelo usuário na tela de revisão.
+ */
+function chooseCategories(report: PiiScanReport, reviewPii: boolean): Promise<PiiCategoryId[]> {
+  if (report.total === 0) {
+    return Promise.resolve([]);
+  }
+  if (!reviewPii) {
+    return Promise.resolve(report.categories.map((category) => category.id));
+  }
+
+  post({ type: "review", report });
+  return new Promise((resolve) => {
+    resolveReview = resolve;
+  });
+}
+
+function applyEnvelopeMetadata(
+  envelope: Record<string, unknown>,
+  { sessionMeta, piiPatterns }: PrepareOptions,
+  scrubbed: PiiScanReport
+): Record<string, unknown> {
+  let result = sessionMeta ? mergeEnvelopeMetadata(envelope, "session_meta", sessionMeta) : envelope;
+  if (scrubbed.total > 0) {
+    result = mergeEnvelopeMetadata(result, "privacy", {
+      pii_scrubbing: buildPiiScrubbingRecord(scrubbed, piiPatterns.length),
+    });
+  }
+  return result;
+}
+
+async function prepareJson(file: File, gzip: boolean, options: PrepareOptions) {
+  const chunks: string[] = [];
+  for await (const chunk of readTextChunks(file, gzip)) {
+    chunks.push(chunk);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(chunks.join(""));
+  } catch {
+    throw new Error("Erro ao processar o arquivo. Verifique se é um JSON válido.");
+  }
+
+  // Formatos de outras ferramentas viram o envelope canônico antes da varredura de dados pessoais.
+  const { envelope, events, importer, converted } = await importSessionDocument(parsed);
+
+  // Arquivos malformados param aqui com o relatório por evento, antes da revisão de dados pessoais.
+  const validation = validateRrwebEnvelope(envelope);
+  if (!validation.valid) {
+    post({ type: "invalid", report: validation });
+    return;
+  }
+
+  const scanner = createPiiScrubber(options.piiPatterns, { apply: false });
+  events.forEach(scanner.processEvent);
+  const categories = await chooseCategories(scanner.report(), options.reviewPii);
+
+  // Os eventos são referências dentro de `envelope`, então a substituição altera o envelope.
+  const scrubber = createPiiScrubber(options.piiPatterns, { apply: true, categories });
+  if (categories.length > 0) {
+    events.forEach(scrubber.processEvent);
+  }
+  const scrubbed = scrubber.report();
+
+  // Sem compressão, conversão, metadados ou substituições, o próprio arquivo já é o corpo do upload.
+  const body =
+    converted || options.sessionMeta || scrubbed.total > 0
+      ? new Blob([JSON.stringify(applyEnvelopeMetadata(envelope, options, scrubbed))], {
+          type: "application/json",
+        })
+      : gzip
+        ? new Blob(chunks, { type: "application/json" })
+        : new Blob([file], { type: "application/json" });
+  post({
+    type: "done",
+    body,
+    eventCount: events.length,
+    scrubbed,
+    importer,
+    contentHash: await computeSessionContentHash(events),
+  });
+}
+
+async function prepareNdjson(file: File, gzip: boolean, options: PrepareOptions) {
+  const eventLines: string[] = [];
+  // Só as linhas com dados pessoais são reserializadas; as demais seguem com o texto original.
+  const linesWithPii: number[] = [];
+  const scanner = createPiiScrubber(options.piiPatterns, { apply: false });
+  const validator = createRrwebEventValidator();
+  let header: Record<string, unknown> = {};
+  let pending = "";
+  let lineNumber = 0;
+
+  const consumeLine = (rawLine: string) => {
+    lineNumber += 1;
+    const line = rawLine.trim();
+    if (!line) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Linha ${lineNumber} do NDJSON não é um JSON válido.`);
+    }
+
+    if (isRrwebEventLike(parsed)) {
+      validator.check(parsed, eventLines.length);
+      if (scanner.processEvent(parsed)) {
+        linesWithPii.push(eventLines.length);
+      }
+      eventLines.push(line);
+    } else if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      // Linhas que não são eventos carregam os campos do envelope (metadata, session_uuid...).
+      header = { ...header, ...(parsed as Record<string, unknown>) };
+    } else {
+      throw new Error(`Linha ${lineNumber} do NDJSON não é um evento rrweb nem um objeto de cabeçalho.`);
+    }
+  };
+
+  for await (const chunk of readTextChunks(file, gzip)) {
+    const lines = (pending + chunk).split("\n");
+    pending = lines.pop() ?? "";
+    lines.forEach(consumeLine);
+  }
+  consumeLine(pending);
+
+  if (eventLines.length === 0) {
+    throw new Error("O NDJSON não contém eventos rrweb.");
+  }
+
+  const validation = validator.report();
+  if (!validation.valid) {
+    post({ type: "invalid", report: validation });
+    return;
+  }
+
+  const categories = await chooseCategories(scanner.report(), options.reviewPii);
+  const scrubber = createPiiScrubber(options.piiPatterns, { apply: true, categories });
+  if (categories.length > 0) {
+    for (const index of linesWithPii) {
+      const parsed: unknown = JSON.parse(eventLines[index]);
+      if (scrubber.processEvent(parsed)) {
+        eventLines[index] = JSON.stringify(parsed);
+      }
+    }
+  }
+  const scrubbed = scrubber.report();
+
+  // O hash precisa dos eventos como o BFF os verá, então as linhas são lidas de novo após a substituição.
+  const hasher = createSessionContentHasher();
+  eventLines.forEach((line) => hasher.add(JSON.parse(line)));
+
+  post({
+    type: "done",
+    body: buildEnvelopeBlob(applyEnvelopeMetadata(header, options, scrubbed), eventLines),
+    eventCount: eventLines.length,
+    scrubbed,
+    importer: NDJSON_IMPORTER,
+    contentHash: await hasher.digest(),
+  });
+}
+
+worker.addEventListener("message", (event: MessageEvent<SessionFileWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "scrub") {
+    resolveReview?.(request.categories);
+    resolveReview = null;
+    return;
+  }
+
+  const { file, ...options } = request;
+
+  void (async () => {
+    try {
+      const { format, gzip } = await describeSessionFile(file);
+      if (format === "ndjson") {
+        await prepareNdjson(file, gzip, options);
+      } else {
+        await prepareJson(file, gzip, options);
+      }
+    } catch (error) {
+      // Falhas de leitura e de descompressão chegam como TypeError com mensagem do navegador.
+      post({
+        type: "error",
+        message:
+          error instanceof TypeError
+            ? "Não foi possível ler ou descompactar o arquivo."
+            : error instanceof Error && error.message
+              ? error.message
+              : "Erro inesperado ao processar o arquivo.",
+      });
+    }
+  })();
+});
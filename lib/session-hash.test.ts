@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { test } from "node:test";
+
+import { computeSessionContentHash, createSessionContentHasher, isSessionContentHash } from "@/lib/session-hash";
+
+const sha256 = (text: string) => createHash("sha256").update(text).digest("hex");
+
+const FIXTURE = [
+  { type: 4, timestamp: 1_700_000_000_000, data: { href: "https://exemplo.com/", width: 1280, height: 800 } },
+  { type: 2, timestamp: 1_700_000_000_010, data: { node: { type: 0, id: 1, childNodes: [] }, initialOffset: { top: 0, left: 0 } } },
+  { type: 3, timestamp: 1_700_000_000_500, data: { source: 5, id: 12, text: "olá", isChecked: false } },
+];
+
+test("fixa o hash de uma gravação conhecida", async () => {
+  const hash = await computeSessionContentHash(FIXTURE);
+
+  assert.equal(hash, sha256(sha256(FIXTURE.map((event) => JSON.stringify(event)).join("\n"))));
+  assert.equal(hash, "c32d1890d6eb32a33d126192f7dd9778025078f5d4501ef1a2890728c4b8e20b");
+  assert.ok(isSessionContentHash(hash));
+});
+
+test("ignora só os campos voláteis do primeiro nível", async () => {
+  const hash = await computeSessionContentHash(FIXTURE);
+  const withToolFields = FIXTURE.map((event, index) => ({ ...event, delay: index * 10, windowId: "w1", v: "v1" }));
+  assert.equal(await computeSessionContentHash(withToolFields), hash);
+
+  const nested = FIXTURE.map((event) => ({ ...event, data: { ...event.data, delay: 5 } }));
+  assert.notEqual(await computeSessionContentHash(nested), hash);
+});
+
+test("depende da ordem dos eventos e das chaves", async () => {
+  const hash = await computeSessionContentHash(FIXTURE);
+
+  assert.notEqual(await computeSessionContentHash([...FIXTURE].reverse()), hash);
+  const reordered = FIXTURE.map(({ type, timestamp, data }) => ({ timestamp, type, data }));
+  assert.notEqual(await computeSessionContentHash(reordered), hash);
+});
+
+test("combina os lotes de 1000 eventos pelo hash dos hashes", async () => {
+  const events = Array.from({ length: 2_500 }, (_, index) => ({ type: 3, timestamp: index, data: { source: 1 } }));
+  const batches = [events.slice(0, 1_000), events.slice(1_000, 2_000), events.slice(2_000)];
+  const expected = sha256(batches.map((batch) => sha256(batch.map((event) => JSON.stringify(event)).join("\n"))).join(""));
+
+  const hasher = createSessionContentHasher();
+  events.forEach((event) => hasher.add(event));
+  assert.equal(await hasher.digest(), expected);
+  assert.equal(await computeSessionContentHash(events), expected);
+});
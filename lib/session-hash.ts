@@ -0,0 +1,77 @@
+// Eventos por lote: cada lote vira um SHA-256 e o hash final é o SHA-256 dos hashes dos lotes,
+// já que a WebCrypto não calcula digest incremental e a gravação inteira não cabe numa string.
+const HASH_BATCH_SIZE = 1000;
+
+// Campos que ferramentas acrescentam aos eventos sem mudar a gravação (replayer, PostHog, packer).
+// Só os do primeiro nível do evento saem; dentro de `data` nada é removido.
+const VOLATILE_EVENT_FIELDS = new Set(["delay", "windowId", "v"]);
+
+const CONTENT_HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+// Cabeçalho do `/api/ingest` que confirma o envio de uma gravação já importada.
+export const SESSION_DUPLICATE_HEADER = "X-Session-Duplicate";
+export const FORCE_DUPLICATE_VALUE = "force";
+
+export function isSessionContentHash(value: unknown): value is string {
+  return typeof value === "string" && CONTENT_HASH_PATTERN.test(value);
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+}
+
+function serializeEvent(event: unknown): string {
+  if (event === null || typeof event !== "object" || Array.isArray(event)) {
+    return JSON.stringify(event);
+  }
+  return JSON.stringify(
+    Object.fromEntries(Object.entries(event).filter(([key]) => !VOLATILE_EVENT_FIELDS.has(key)))
+  );
+}
+
+export interface SessionContentHasher {
+  /** Acrescenta um evento; precisa ser chamado na ordem da gravação. */
+  add(event: unknown): void;
+  digest(): Promise<string>;
+}
+
+/**
+ * Hash de conteúdo da gravação: considera só os eventos, na ordem, sem os metadados do envelope.
+ * É uma identidade do `JSON.stringify` de cada evento sem os campos voláteis do primeiro nível,
+ * e não uma normalização semântica: ordem das chaves e campos aninhados contam. O worker do
+ * navegador e o BFF usam esta mesma função, com a mesma WebCrypto, sobre os eventos parseados.
+ */
+export function createSessionContentHasher(): SessionContentHasher {
+  const batchDigests: Promise<string>[] = [];
+  let batch: string[] = [];
+
+  const flush = () => {
+    if (batch.length > 0) {
+      batchDigests.push(sha256Hex(batch.join("\n")));
+      batch = [];
+    }
+  };
+
+  return {
+    add(event) {
+      batch.push(serializeEvent(event));
+      if (batch.length >= HASH_BATCH_SIZE) {
+        flush();
+      }
+    },
+    async digest() {
+      flush();
+      return sha256Hex((await Promise.all(batchDigests)).join(""));
+    },
+  };
+}
+
+export function computeSessionContentHash(events: unknown[]): Promise<string> {
+  const hasher = createSessionContentHasher();
+  events.forEach((event) => hasher.add(event));
+  return hasher.digest();
+}
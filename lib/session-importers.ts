@@ -0,0 +1,256 @@
+import { extractRrwebEvents, isRecord } from "@/lib/rrweb";
+import { isRrwebEventLike, mergeEnvelopeMetadata } from "@/lib/session-file";
+import type { RrwebSessionEvent } from "@/types/dashboard";
+
+type RecordLike = Record<string, unknown>;
+
+/** Identificação do importador usado, exibida no upload e devolvida por `/api/ingest`. */
+export interface SessionImporterInfo {
+  id: string;
+  label: string;
+}
+
+export interface SessionImporter extends SessionImporterInfo {
+  /** Reconhece o documento já parseado; deve ser barato, sem converter eventos. */
+  detect(value: unknown): boolean;
+  /** Converte para o envelope canônico `{ ...campos, rrweb: { events } }`. */
+  toEnvelope(value: unknown): Promise<RecordLike>;
+}
+
+export interface SessionImportResult {
+  envelope: RecordLike;
+  // Referências dentro de `envelope`: alterar um evento altera o envelope.
+  events: RrwebSessionEvent[];
+  importer: SessionImporterInfo;
+  // false quando o documento já era o envelope canônico e pode ser enviado como está.
+  converted: boolean;
+}
+
+export class SessionImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionImportError";
+  }
+}
+
+export const CANONICAL_IMPORTER_ID = "rrweb-envelope";
+// Enviado pelo dashboard com o id do importador canônico quando o corpo já foi convertido no navegador.
+export const SESSION_FORMAT_HEADER = "X-Session-Format";
+
+// Marca gravada pelo `pack` do rrweb em cada evento compactado.
+const RRWEB_PACKER_MARK = "v1";
+// Total descompactado de uma gravação: poucos bytes de deflate podem virar gigabytes.
+const PACKED_MAX_UNPACKED_BYTES = 200 * 1024 * 1024;
+
+/** Lista de eventos do documento, esteja ela na raiz, em `events` ou em `rrweb.events`. */
+function readEventList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (!isRecord(value)) {
+    return null;
+  }
+  if (Array.isArray(value.events)) {
+    return value.events;
+  }
+  return isRecord(value.rrweb) && Array.isArray(value.rrweb.events) ? value.rrweb.events : null;
+}
+
+function toCanonicalEnvelope(value: unknown, events: unknown[]): RecordLike {
+  if (!isRecord(value)) {
+    return { rrweb: { events } };
+  }
+
+  const rest = Object.fromEntries(Object.entries(value).filter(([key]) => key !== "events" && key !== "rrweb"));
+  return { ...rest, rrweb: { ...(isRecord(value.rrweb) ? value.rrweb : {}), events } };
+}
+
+/** Descompacta contando os bytes, para parar assim que a gravação passa do total permitido. */
+async function inflateEvent(bytes: Uint8Array<ArrayBuffer>, budget: { remaining: number }): Promise<string> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate")).getReader();
+  const decoder = new TextDecoder();
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text + decoder.decode();
+    }
+
+    budget.remaining -= value.byteLength;
+    if (budget.remaining < 0) {
+      await reader.cancel();
+      throw new SessionImportError(
+        `Os eventos compactados passam de ${PACKED_MAX_UNPACKED_BYTES / (1024 * 1024)} MB depois de descompactados.`
+      );
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+/**
+ * Equivalente ao `unpack` do rrweb: o `pack` grava o JSON do evento comprimido com zlib em
+ * uma string binária. A descompressão usa a `DecompressionStream` nativa, disponível no
+ * worker do navegador e no Node, sem carregar o bundle do rrweb no servidor.
+ */
+async function unpackEvent(raw: unknown, index: number, budget: { remaining: number }): Promise<unknown> {
+  if (typeof raw !== "string") {
+    return raw;
+  }
+
+  let unpacked: unknown;
+  try {
+    const bytes = Uint8Array.from(raw, (char) => char.charCodeAt(0));
+    unpacked = JSON.parse(await inflateEvent(bytes, budget));
+  } catch (error) {
+    if (error instanceof SessionImportError) {
+      throw error;
+    }
+    throw new SessionImportError(`O evento ${index} não pôde ser descompactado.`);
+  }
+
+  if (!isRecord(unpacked) || unpacked.v !== RRWEB_PACKER_MARK) {
+    throw new SessionImportError(
+      `O evento ${index} foi compactado com uma versão do packer do rrweb não suportada.`
+    );
+  }
+
+  delete unpacked.v;
+  return unpacked;
+}
+
+/** Envelope canônico, informado também pelos caminhos em stream, que não passam pelo registro. */
+export const CANONICAL_IMPORTER: SessionImporterInfo = { id: CANONICAL_IMPORTER_ID, label: "Envelope rrweb" };
+
+const canonicalImporter: SessionImporter = {
+  ...CANONICAL_IMPORTER,
+  detect: (value) => {
+    // Eventos malformados também caem aqui, para que a validação aponte o problema de cada um.
+    const events = extractRrwebEvents(value);
+    return events !== null && typeof events[0] !== "string";
+  },
+  toEnvelope: async (value) => value as RecordLike,
+};
+
+const packedImporter: SessionImporter = {
+  id: "rrweb-packed",
+  label: "Eventos compactados (rrweb pack)",
+  detect: (value) => {
+    const events = readEventList(value);
+    return events !== null && events.length > 0 && typeof events[0] === "string";
+  },
+  toEnvelope: async (value) => {
+    const packed = readEventList(value) ?? [];
+    const events: unknown[] = [];
+    const budget = { remaining: PACKED_MAX_UNPACKED_BYTES };
+    // Em sequência: milhares de streams de descompressão em paralelo estouram a memória.
+    for (const [index, raw] of packed.entries()) {
+      events.push(await unpackEvent(raw, index, budget));
+    }
+    return toCanonicalEnvelope(value, events);
+  },
+};
+
+/** Snapshots de um export do PostHog, em `data.snapshots` ou agrupados por janela (formato antigo). */
+function readPostHogSnapshots(value: unknown): unknown[] | null {
+  const data = isRecord(value) ? value.data : null;
+  if (!isRecord(data)) {
+    return null;
+  }
+  if (Array.isArray(data.snapshots)) {
+    return data.snapshots;
+  }
+  if (isRecord(data.snapshotsByWindowId)) {
+    return Object.values(data.snapshotsByWindowId).flatMap((snapshots) => (Array.isArray(snapshots) ? snapshots : []));
+  }
+  return null;
+}
+
+const postHogImporter: SessionImporter = {
+  id: "posthog",
+  label: "Export de gravação do PostHog",
+  detect: (value) => {
+    const snapshots = readPostHogSnapshots(value);
+    return snapshots !== null && snapshots.some(isRrwebEventLike);
+  },
+  toEnvelope: async (value) => {
+    const data = isRecord(value) && isRecord(value.data) ? value.data : {};
+    const windowIds = new Set<string>();
+    const events = (readPostHogSnapshots(value) ?? [])
+      .filter(isRecord)
+      .filter(isRrwebEventLike)
+      .map((snapshot) => {
+        // `windowId` é do PostHog; o replay do rrweb não conhece o campo.
+        const { windowId, ...event } = snapshot;
+        if (typeof windowId === "string") {
+          windowIds.add(windowId);
+        }
+        return event;
+      })
+      .sort((a, b) => (a.timestamp as number) - (b.timestamp as number));
+
+    return mergeEnvelopeMetadata({ rrweb: { events } }, "source", {
+      tool: "posthog",
+      ...(typeof data.id === "string" ? { recording_id: data.id } : {}),
+      ...(windowIds.size > 1 ? { window_ids: Array.from(windowIds) } : {}),
+    });
+  },
+};
+
+const eventArrayImporter: SessionImporter = {
+  id: "rrweb-event-array",
+  label: "Lista de eventos rrweb",
+  detect: (value) => Array.isArray(value) && value.length > 0 && isRrwebEventLike(value[0]),
+  toEnvelope: async (value) => toCanonicalEnvelope(null, value as unknown[]),
+};
+
+// A detecção segue a ordem do registro; o primeiro importador que reconhece o documento vence.
+const importers: SessionImporter[] = [canonicalImporter, packedImporter, postHogImporter, eventArrayImporter];
+
+/**
+ * Registra um importador adicional. Por padrão ele é consultado antes dos importadores
+ * embutidos, para poder tratar variantes de formatos que eles já reconhecem.
+ */
+export function registerSessionImporter(importer: SessionImporter, { priority = "first" }: { priority?: "first" | "last" } = {}) {
+  const existing = importers.findIndex((item) => item.id === importer.id);
+  if (existing >= 0) {
+    importers.splice(existing, 1);
+  }
+
+  if (priority === "first") {
+    importers.unshift(importer);
+  } else {
+    importers.push(importer);
+  }
+}
+
+export function listSessionImporters(): SessionImporterInfo[] {
+  return importers.map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Detecta o formato do documento e o converte para o envelope canônico. Envelopes
+ * convertidos recebem `metadata.source.importer` para o backend saber a origem.
+ */
+export async function importSessionDocument(value: unknown): Promise<SessionImportResult> {
+  const importer = importers.find((item) => item.detect(value));
+  if (!importer) {
+    throw new SessionImportError(
+      "Formato de gravação não reconhecido. Envie um envelope rrweb, uma lista de eventos, eventos compactados com o pack do rrweb ou um export do PostHog."
+    );
+  }
+
+  const converted = importer.id !== CANONICAL_IMPORTER_ID;
+  let envelope = await importer.toEnvelope(value);
+  // A estrutura de cada evento fica para `validateRrwebEnvelope`, que devolve um relatório por evento.
+  const events = extractRrwebEvents(envelope);
+  if (!events) {
+    throw new SessionImportError(`O arquivo foi reconhecido como "${importer.label}", mas não contém eventos.`);
+  }
+
+  if (converted) {
+    envelope = mergeEnvelopeMetadata(envelope, "source", { importer: importer.id });
+  }
+
+  return { envelope, events, importer: { id: importer.id, label: importer.label }, converted };
+}
@@ -0,0 +1,76 @@
+import "server-only";
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import { auth } from "@/auth";
+import type { SessionDuplicateMatch } from "@/types/dashboard";
+
+// Por usuário: hash de conteúdo → sessão criada. Um usuário não descobre gravações de outro.
+type SessionHashIndex = Record<string, Record<string, SessionDuplicateMatch>>;
+
+/**
+ * Índice em um arquivo JSON local, substituto de uma tabela enquanto o backend não deduplica
+ * gravações. Com mais de uma instância do dashboard, o arquivo precisa estar em volume compartilhado.
+ */
+function resolveIndexFile(): string {
+  return process.env.SESSION_HASH_INDEX_FILE || path.join(tmpdir(), "ux-auditor-session-hashes.json");
+}
+
+export class DuplicateSessionError extends Error {
+  constructor(public match: SessionDuplicateMatch) {
+    super(`Esta gravação já foi enviada e gerou a sessão ${match.session_uuid}.`);
+    this.name = "DuplicateSessionError";
+  }
+}
+
+// Gravações são serializadas nesta instância para que envios simultâneos não percam entradas.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+async function readIndex(): Promise<SessionHashIndex> {
+  try {
+    const parsed: unknown = JSON.parse(await readFile(resolveIndexFile(), "utf8"));
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? (parsed as SessionHashIndex) : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function findSessionByContentHash(owner: string, hash: string): Promise<SessionDuplicateMatch | null> {
+  await pendingWrite;
+  return (await readIndex())[owner]?.[hash] ?? null;
+}
+
+/** Recusa o envio se o usuário já tem uma sessão com o mesmo conteúdo, a menos que ele confirme. */
+export async function assertNoDuplicateSession(owner: string, hash: string, force: boolean): Promise<void> {
+  const match = force ? null : await findSessionByContentHash(owner, hash);
+  if (match) {
+    throw new DuplicateSessionError(match);
+  }
+}
+
+export function recordSessionContentHash(owner: string, hash: string, sessionUuid: string): Promise<void> {
+  const write = pendingWrite.then(async () => {
+    const file = resolveIndexFile();
+    const index = await readIndex();
+    index[owner] = {
+      ...index[owner],
+      [hash]: { session_uuid: sessionUuid, created_at: new Date().toISOString() },
+    };
+
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(index));
+    await rename(`${file}.tmp`, file);
+  });
+
+  // O índice é só uma proteção: uma falha ao gravá-lo não pode fazer o envio parecer ter falhado.
+  pendingWrite = write.catch((error) => console.error("Falha ao registrar o hash da sessão:", error));
+  return pendingWrite;
+}
+
+/** Dono das entradas do índice: o `sub` do usuário autenticado, ou null sem sessão. */
+export async function resolveSessionIndexOwner(): Promise<string | null> {
+  const session = await auth();
+  return session?.user?.sub ?? null;
+}
@@ -0,0 +1,214 @@
+import "server-only";
+
+import { AuthenticatedFetchError, authenticatedPost, authenticatedPostStream } from "@/lib/authenticated-fetch";
+import { createEnvelopeStreamScanner, type EnvelopeEventSource } from "@/lib/envelope-stream";
+import { buildPiiScrubbingRecord, createPiiScrubber } from "@/lib/pii-scrubber";
+import {
+  createRrwebEventValidator,
+  validateRrwebEnvelope,
+  withEnvelopeMetadataIssues,
+  type RrwebEventValidator,
+  type RrwebValidationReport,
+} from "@/lib/rrweb-validation";
+import { mergeEnvelopeMetadata } from "@/lib/session-file";
+import {
+  computeSessionContentHash,
+  createSessionContentHasher,
+  type SessionContentHasher,
+} from "@/lib/session-hash";
+import { importSessionDocument, SessionImportError, type SessionImporterInfo } from "@/lib/session-importers";
+import { assertNoDuplicateSession, DuplicateSessionError, recordSessionContentHash } from "@/lib/session-index";
+import type { SessionDuplicateMatch, SessionJobSubmissionResponse } from "@/types/dashboard";
+
+export class InvalidRecordingError extends Error {
+  constructor(public report: RrwebValidationReport) {
+    super(`A gravação não é um envelope rrweb válido: ${report.issueCount} problema(s) encontrado(s).`);
+    this.name = "InvalidRecordingError";
+  }
+}
+
+export interface SubmitSessionDocumentOptions {
+  // Sem dono (usuário não identificado), a checagem de duplicatas é pulada.
+  owner: string | null;
+  force?: boolean;
+  sessionMeta?: Record<string, unknown>;
+  // Com `scrubPii`, todas as categorias encontradas são substituídas, como na importação em lote.
+  scrubPii?: boolean;
+  piiPatterns?: string[];
+}
+
+export interface SubmittedSession {
+  response: SessionJobSubmissionResponse;
+  importer: SessionImporterInfo;
+  piiReplaced: number;
+}
+
+/**
+ * Caminho do BFF para documentos que ele mesmo parseia (corpo convertido no `/api/ingest` e
+ * importação por URL): importa, valida, mescla metadados, remove dados
+ * pessoais, barra duplicatas e encaminha para o `/ingest` do backend.
+ */
+export async function submitSessionDocument(
+  document: unknown,
+  { owner, force = false, sessionMeta, scrubPii = false, piiPatterns = [] }: SubmitSessionDocumentOptions
+): Promise<SubmittedSession> {
+  const { envelope, events, importer } = await importSessionDocument(document);
+
+  const validation = validateRrwebEnvelope(envelope);
+  if (!validation.valid) {
+    throw new InvalidRecordingError(validation);
+  }
+
+  let payload = sessionMeta ? mergeEnvelopeMetadata(envelope, "session_meta", sessionMeta) : envelope;
+  let piiReplaced = 0;
+  if (scrubPii) {
+    // Os eventos são referências dentro do envelope, então a substituição vale para o payload.
+    const scrubber = createPiiScrubber(piiPatterns, { apply: true });
+    events.forEach(scrubber.processEvent);
+    const report = scrubber.report();
+    if (report.total > 0) {
+      payload = mergeEnvelopeMetadata(payload, "privacy", {
+        pii_scrubbing: buildPiiScrubbingRecord(report, piiPatterns.length),
+      });
+    }
+    piiReplaced = report.total;
+  }
+
+  // Duplicatas são barradas antes do backend, onde cada envio custa uma análise de LLM.
+  const contentHash = await computeSessionContentHash(events);
+  if (owner) {
+    await assertNoDuplicateSession(owner, contentHash, force);
+  }
+
+  const response = await authenticatedPost<SessionJobSubmissionResponse>("/ingest", payload);
+  if (owner && response.session_uuid) {
+    await recordSessionContentHash(owner, contentHash, response.session_uuid);
+  }
+
+  return { response, importer, piiReplaced };
+}
+
+export interface SubmitSessionStreamOptions {
+  owner: string | null;
+  force?: boolean;
+  contentLength?: string | null;
+}
+
+/**
+ * Caminho em stream do `/api/ingest` e do upload em partes, para envelopes que o dashboard já
+ * converteu: o corpo segue para o backend enquanto é conferido (estrutura, `metadata` e cada
+ * evento, com o mesmo validador de `submitSessionDocument`), sem passar inteiro pela memória do
+ * BFF. O hash de conteúdo é recalculado aqui; o enviado pelo cliente só serve para a consulta
+ * antes do upload. O último pedaço fica retido até o fim da conferência e da checagem de
+ * duplicatas; se alguma falhar, o stream é interrompido e o backend nunca recebe um corpo completo.
+ */
+export async function submitSessionStream(
+  body: ReadableStream<Uint8Array>,
+  { owner, force = false, contentLength }: SubmitSessionStreamOptions
+): Promise<SessionJobSubmissionResponse> {
+  const decoder = new TextDecoder();
+  // Cada lista é conferida à parte; só no fim se sabe qual delas o backend vai usar.
+  const sources = new Map<
+    EnvelopeEventSource,
+    { validator: RrwebEventValidator; hasher: SessionContentHasher; count: number }
+  >();
+  const scanner = createEnvelopeStreamScanner((event, source) => {
+    let state = sources.get(source);
+    if (!state) {
+      state = { validator: createRrwebEventValidator(), hasher: createSessionContentHasher(), count: 0 };
+      sources.set(source, state);
+    }
+    state.validator.check(event, state.count);
+    state.hasher.add(event);
+    state.count += 1;
+  });
+
+  let pending: Uint8Array | null = null;
+  let inspectionError: unknown = null;
+  let contentHash: string | null = null;
+  const inspection = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      try {
+        scanner.write(decoder.decode(chunk, { stream: true }));
+      } catch (error) {
+        inspectionError = error;
+        throw error;
+      }
+      if (pending) {
+        controller.enqueue(pending);
+      }
+      pending = chunk;
+    },
+    async flush(controller) {
+      try {
+        scanner.write(decoder.decode());
+        const header = scanner.end();
+        // Como em `extractRrwebEvents`, `events` na raiz tem prioridade sobre `rrweb.events`.
+        const source = sources.get("events") ?? sources.get("rrweb.events");
+        if (!source) {
+          throw new SessionImportError("Era esperado um objeto JSON com rrweb.events não vazio.");
+        }
+
+        const validation = withEnvelopeMetadataIssues(source.validator.report(), header.metadata);
+        if (!validation.valid) {
+          throw new InvalidRecordingError(validation);
+        }
+
+        contentHash = await source.hasher.digest();
+        if (owner) {
+          await assertNoDuplicateSession(owner, contentHash, force);
+        }
+      } catch (error) {
+        inspectionError = error;
+        throw error;
+      }
+      if (pending) {
+        controller.enqueue(pending);
+      }
+    },
+  });
+
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (contentLength) {
+    headers.set("Content-Length", contentLength);
+  }
+
+  let response: SessionJobSubmissionResponse;
+  try {
+    response = await authenticatedPostStream<SessionJobSubmissionResponse>("/ingest", body.pipeThrough(inspection), {
+      headers,
+    });
+  } catch (error) {
+    // A falha da conferência chega aqui como erro de rede do envio interrompido.
+    if (inspectionError && error instanceof AuthenticatedFetchError) {
+      throw inspectionError;
+    }
+    throw error;
+  }
+
+  if (owner && contentHash && response.session_uuid) {
+    await recordSessionContentHash(owner, contentHash, response.session_uuid);
+  }
+  return response;
+}
+
+export interface IngestErrorBody {
+  error: string;
+  code: string;
+  validation?: RrwebValidationReport;
+  duplicate?: SessionDuplicateMatch;
+}
+
+/** Corpo/status das falhas de `submitSessionDocument`; null para erros que a rota trata. */
+export function describeIngestError(error: unknown): { body: IngestErrorBody; status: number } | null {
+  if (error instanceof DuplicateSessionError) {
+    return { body: { error: error.message, code: "DUPLICATE_SESSION", duplicate: error.match }, status: 409 };
+  }
+  if (error instanceof InvalidRecordingError) {
+    return { body: { error: error.message, code: "INVALID_RECORDING", validation: error.report }, status: 422 };
+  }
+  if (error instanceof SessionImportError) {
+    return { body: { error: error.message, code: "INVALID_ENVELOPE" }, status: 400 };
+  }
+  return null;
+}
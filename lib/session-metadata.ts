@@ -0,0 +1,82 @@
+import { z } from "zod";
+
+type RecordLike = Record<string, unknown>;
+
+export const SESSION_DEVICE_OPTIONS = [
+  { value: "", label: "Detectar pela gravação" },
+  { value: "desktop", label: "Desktop" },
+  { value: "mobile", label: "Celular" },
+  { value: "tablet", label: "Tablet" },
+] as const;
+
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+function splitTags(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,;\n]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** Dados informados pelo pesquisador no upload, antes de serem mesclados em `session_meta`. */
+export const sessionMetadataSchema = z.object({
+  studyName: z
+    .string()
+    .trim()
+    .min(1, "Informe o nome do estudo.")
+    .max(120, "Use no máximo 120 caracteres."),
+  participantCode: z
+    .string()
+    .trim()
+    .max(40, "Use no máximo 40 caracteres.")
+    .regex(/^[\w-]*$/, "Use apenas letras, números, hífen e sublinhado."),
+  taskDescription: z.string().trim().max(1000, "Use no máximo 1000 caracteres."),
+  device: z.enum(["", "desktop", "mobile", "tablet"]),
+  tags: z
+    .string()
+    .transform(splitTags)
+    .pipe(
+      z
+        .array(z.string().max(MAX_TAG_LENGTH, `Cada tag deve ter no máximo ${MAX_TAG_LENGTH} caracteres.`))
+        .max(MAX_TAGS, `Use no máximo ${MAX_TAGS} tags.`)
+    ),
+});
+
+export type SessionMetadataFormValues = z.input<typeof sessionMetadataSchema>;
+export type SessionMetadata = z.output<typeof sessionMetadataSchema>;
+
+export const EMPTY_SESSION_METADATA: SessionMetadataFormValues = {
+  studyName: "",
+  participantCode: "",
+  taskDescription: "",
+  device: "",
+  tags: "",
+};
+
+/**
+ * Converte o formulário para as chaves snake_case de `session_meta`. Campos vazios são omitidos
+ * para não sobrescrever o que o script de captura já registrou (ex.: `device_type`).
+ */
+export function toSessionMeta(metadata: SessionMetadata): RecordLike {
+  const sessionMeta: RecordLike = { study_name: metadata.studyName };
+
+  if (metadata.participantCode) {
+    sessionMeta.participant_code = metadata.participantCode;
+  }
+  if (metadata.taskDescription) {
+    sessionMeta.task_description = metadata.taskDescription;
+  }
+  if (metadata.device) {
+    sessionMeta.device_type = metadata.device;
+  }
+  if (metadata.tags.length > 0) {
+    sessionMeta.tags = metadata.tags;
+  }
+
+  return sessionMeta;
+}
@@ -0,0 +1,568 @@
+import { parseSessionJobSubmission } from "@/lib/dashboard-contract";
+import type { PiiCategoryId, PiiScanReport } from "@/lib/pii-scrubber";
+import { isRrwebValidationReport, type RrwebValidationReport } from "@/lib/rrweb-validation";
+import {
+  isSupportedSessionFileName,
+  type SessionFileWorkerRequest,
+  type SessionFileWorkerResponse,
+} from "@/lib/session-file";
+import {
+  FORCE_DUPLICATE_VALUE,
+  SESSION_DUPLICATE_HEADER,
+} from "@/lib/session-hash";
+import {
+  CANONICAL_IMPORTER_ID,
+  SESSION_FORMAT_HEADER,
+  type SessionImporterInfo,
+} from "@/lib/session-importers";
+import type {
+  ChunkedUploadStatus,
+  SessionDuplicateMatch,
+  SessionJobSubmissionResponse,
+} from "@/types/dashboard";
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface SessionUploadResponse {
+  status: number;
+  data: unknown;
+}
+
+/** Falha de rede ou cancelamento; respostas HTTP de erro voltam em `SessionUploadResponse`. */
+export class SessionUploadError extends Error {
+  constructor(message: string, public aborted = false) {
+    super(message);
+    this.name = "SessionUploadError";
+  }
+}
+
+/** Gravação reprovada na validação do envelope, no navegador ou no BFF. */
+export class SessionValidationError extends Error {
+  constructor(public report: RrwebValidationReport) {
+    super(`O arquivo não é uma gravação rrweb válida: ${report.issueCount} problema(s) encontrado(s).`);
+    this.name = "SessionValidationError";
+  }
+}
+
+/** Gravação já importada pelo usuário; o envio só segue com confirmação (`force`). */
+export class SessionDuplicateError extends Error {
+  constructor(public match: SessionDuplicateMatch) {
+    super("Esta gravação já foi enviada anteriormente.");
+    this.name = "SessionDuplicateError";
+  }
+}
+
+export interface PreparedSessionFile {
+  body: Blob;
+  eventCount: number;
+  scrubbed: PiiScanReport;
+  importer: SessionImporterInfo;
+  contentHash: string;
+}
+
+/** Revisão dos dados pessoais encontrados: categorias a substituir, ou null para cancelar o envio. */
+export type PiiReviewHandler = (report: PiiScanReport) => Promise<PiiCategoryId[] | null>;
+
+export interface PrepareSessionFileOptions {
+  sessionMeta?: Record<string, unknown>;
+  piiPatterns?: string[];
+  // Sem handler, todas as categorias encontradas são substituídas sem revisão.
+  onPiiReview?: PiiReviewHandler;
+  onProgress: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Descompacta, valida, remove dados pessoais e monta o envelope do arquivo em um Web Worker,
+ * mantendo a aba responsiva mesmo com gravações de centenas de MB.
+ */
+export function prepareSessionFile(
+  file: File,
+  { sessionMeta, piiPatterns = [], onPiiReview, onProgress, signal }: PrepareSessionFileOptions
+): Promise<PreparedSessionFile> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new SessionUploadError("Leitura cancelada.", true));
+      return;
+    }
+
+    const worker = new Worker(new URL("./session-file.worker.ts", import.meta.url), { type: "module" });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new SessionUploadError("Leitura cancelada.", true));
+    };
+    const send = (request: SessionFileWorkerRequest) => worker.postMessage(request);
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<SessionFileWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress({ loaded: message.loaded, total: message.total });
+        return;
+      }
+
+      if (message.type === "review") {
+        void (onPiiReview ? onPiiReview(message.report) : Promise.resolve(null)).then((categories) => {
+          if (categories) {
+            send({ type: "scrub", categories });
+          } else {
+            finish();
+            reject(new SessionUploadError("Envio cancelado na revisão de dados pessoais.", true));
+          }
+        });
+        return;
+      }
+
+      finish();
+      if (message.type === "done") {
+        resolve({
+          body: message.body,
+          eventCount: message.eventCount,
+          scrubbed: message.scrubbed,
+          importer: message.importer,
+          contentHash: message.contentHash,
+        });
+      } else if (message.type === "invalid") {
+        reject(new SessionValidationError(message.report));
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = () => {
+      finish();
+      reject(new Error("Erro inesperado ao processar o arquivo."));
+    };
+
+    send({ type: "prepare", file, sessionMeta, piiPatterns, reviewPii: Boolean(onPiiReview) });
+  });
+}
+
+/**
+ * Envia o corpo via XMLHttpRequest porque o `fetch` não expõe progresso de upload.
+ */
+function sendWithProgress(
+  method: "POST" | "PUT",
+  url: string,
+  body: Blob,
+  headers: Record<string, string>,
+  onProgress: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<SessionUploadResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new SessionUploadError("Envio cancelado.", true));
+      return;
+    }
+
+    const request = new XMLHttpRequest();
+    const handleAbort = () => request.abort();
+
+    request.open(method, url);
+    for (const [name, value] of Object.entries(headers)) {
+      request.setRequestHeader(name, value);
+    }
+
+    request.upload.onprogress = (event) => {
+      onProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : body.size });
+    };
+    request.onload = () => {
+      signal?.removeEventListener("abort", handleAbort);
+
+      let data: unknown = {};
+      try {
+        data = JSON.parse(request.responseText);
+      } catch {
+        data = {};
+      }
+      resolve({ status: request.status, data });
+    };
+    request.onerror = () => {
+      signal?.removeEventListener("abort", handleAbort);
+      reject(new SessionUploadError("Não foi possível conectar à API. Verifique sua conexão."));
+    };
+    request.onabort = () => {
+      signal?.removeEventListener("abort", handleAbort);
+      reject(new SessionUploadError("Envio cancelado.", true));
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+    request.send(body);
+  });
+}
+
+function isDuplicateMatch(value: unknown): value is SessionDuplicateMatch {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as SessionDuplicateMatch).session_uuid === "string" &&
+    (value as SessionDuplicateMatch).session_uuid.length > 0
+  );
+}
+
+// Acima desse tamanho o envio usa o protocolo em partes, que sobrevive a quedas de conexão.
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+const CHUNK_MAX_ATTEMPTS = 4;
+const CHUNK_RETRY_BASE_DELAY_MS = 1000;
+const CHUNKED_UPLOADS_STORAGE_KEY = "ux-auditor:chunked-uploads";
+
+interface StoredChunkedUpload {
+  uploadId: string;
+  size: number;
+}
+
+function readStoredUploads(): Record<string, StoredChunkedUpload> {
+  try {
+    const parsed: unknown = JSON.parse(window.localStorage.getItem(CHUNKED_UPLOADS_STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, StoredChunkedUpload>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function storeUpload(key: string, upload: StoredChunkedUpload | null) {
+  const uploads = readStoredUploads();
+  if (upload) {
+    uploads[key] = upload;
+  } else {
+    delete uploads[key];
+  }
+
+  try {
+    window.localStorage.setItem(CHUNKED_UPLOADS_STORAGE_KEY, JSON.stringify(uploads));
+  } catch {
+    // Sem localStorage o envio continua funcionando, só não é retomável após recarregar.
+  }
+}
+
+/**
+ * Chave de retomada: o hash de conteúdo dos eventos calculado no worker e o tamanho do corpo
+ * preparado, e não o nome ou a data do arquivo, que mudam ao baixar ou copiar a mesma gravação.
+ * Metadados diferentes mudam o corpo; o checksum da finalização recusa partes de outro corpo.
+ */
+export function buildUploadResumeKey(prepared: Pick<PreparedSessionFile, "contentHash" | "body">): string {
+  return `${prepared.contentHash}:${prepared.body.size}`;
+}
+
+/** Quantidade de envios interrompidos que podem ser retomados selecionando o mesmo arquivo. */
+export function countResumableUploads(): number {
+  return typeof window === "undefined" ? 0 : Object.keys(readStoredUploads()).length;
+}
+
+async function sha256Hex(data: BufferSource | string): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        window.clearTimeout(timer);
+        reject(new SessionUploadError("Envio cancelado.", true));
+      },
+      { once: true }
+    );
+  });
+}
+
+async function requestJson(url: string, init: RequestInit): Promise<SessionUploadResponse> {
+  try {
+    const response = await fetch(url, init);
+    return { status: response.status, data: await response.json().catch(() => ({})) };
+  } catch (error) {
+    if (init.signal?.aborted) {
+      throw new SessionUploadError("Envio cancelado.", true);
+    }
+    throw error instanceof TypeError
+      ? new SessionUploadError("Não foi possível conectar à API. Verifique sua conexão.")
+      : error;
+  }
+}
+
+function isChunkedUploadStatus(value: unknown): value is ChunkedUploadStatus {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof (value as ChunkedUploadStatus).upload_id === "string" &&
+    typeof (value as ChunkedUploadStatus).chunk_size === "number" &&
+    Array.isArray((value as ChunkedUploadStatus).received_chunks)
+  );
+}
+
+async function openChunkedUpload(resumeKey: string, size: number, signal?: AbortSignal): Promise<ChunkedUploadStatus> {
+  const stored = readStoredUploads()[resumeKey];
+  if (stored && stored.size === size) {
+    const existing = await requestJson(`/api/ingest/uploads/${stored.uploadId}`, { signal });
+    if (existing.status === 200 && isChunkedUploadStatus(existing.data)) {
+      return existing.data;
+    }
+    storeUpload(resumeKey, null);
+  }
+
+  const created = await requestJson("/api/ingest/uploads", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ size }),
+    signal,
+  });
+  if (created.status !== 201 || !isChunkedUploadStatus(created.data)) {
+    throw new Error(resolveIngestErrorMessage(created));
+  }
+
+  storeUpload(resumeKey, { uploadId: created.data.upload_id, size });
+  return created.data;
+}
+
+/** Envia uma parte com novas tentativas e espera exponencial em falhas de rede ou 5xx. */
+async function sendChunk(
+  url: string,
+  chunk: Blob,
+  checksum: string,
+  onProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const response = await sendWithProgress(
+        "PUT",
+        url,
+        chunk,
+        { "Content-Type": "application/octet-stream", "X-Chunk-Sha256": checksum },
+        (progress) => onProgress(progress.loaded),
+        signal
+      );
+      if (response.status >= 200 && response.status < 300) {
+        return;
+      }
+      if (response.status < 500 || attempt >= CHUNK_MAX_ATTEMPTS) {
+        throw resolveIngestError(response);
+      }
+    } catch (error) {
+      const retryable = error instanceof SessionUploadError && !error.aborted;
+      if (!retryable || attempt >= CHUNK_MAX_ATTEMPTS) {
+        throw error;
+      }
+    }
+
+    onProgress(0);
+    await wait(CHUNK_RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+  }
+}
+
+/**
+ * Protocolo em partes: cria (ou retoma) o upload, envia as partes que faltam e finaliza com o
+ * checksum combinado. O id fica no localStorage até a finalização para sobreviver a recarregamentos.
+ */
+async function uploadSessionBodyInChunks(
+  body: Blob,
+  resumeKey: string,
+  force: boolean,
+  onProgress: (progress: UploadProgress) => void,
+  signal?: AbortSignal
+): Promise<SessionUploadResponse> {
+  const upload = await openChunkedUpload(resumeKey, body.size, signal);
+  const received = new Set(upload.received_chunks);
+  const checksums: string[] = [];
+  let completedBytes = 0;
+
+  for (let index = 0; index < upload.total_chunks; index += 1) {
+    const chunk = body.slice(index * upload.chunk_size, (index + 1) * upload.chunk_size);
+    const checksum = await sha256Hex(await chunk.arrayBuffer());
+    checksums.push(checksum);
+
+    if (!received.has(index)) {
+      await sendChunk(
+        `/api/ingest/uploads/${upload.upload_id}/chunks/${index}`,
+        chunk,
+        checksum,
+        (loaded) => onProgress({ loaded: completedBytes + loaded, total: body.size }),
+        signal
+      );
+    }
+
+    completedBytes += chunk.size;
+    onProgress({ loaded: completedBytes, total: body.size });
+  }
+
+  const response = await requestJson(`/api/ingest/uploads/${upload.upload_id}/complete`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ checksum: await sha256Hex(checksums.join("")), force }),
+    signal,
+  });
+
+  // Finalizado ou com conteúdo rejeitado, o upload não tem mais o que retomar.
+  if (response.status < 300 || response.status === 400 || response.status === 422) {
+    storeUpload(resumeKey, null);
+  }
+  return response;
+}
+
+/** Sessão já criada com o mesmo conteúdo; falhas na consulta não impedem o envio. */
+async function findDuplicateSession(contentHash: string, signal?: AbortSignal): Promise<SessionDuplicateMatch | null> {
+  const response = await requestJson(`/api/ingest/duplicates/${contentHash}`, { signal }).catch((error) => {
+    if (error instanceof SessionUploadError && error.aborted) {
+      throw error;
+    }
+    return null;
+  });
+  const match =
+    response?.status === 200 && response.data && typeof response.data === "object"
+      ? (response.data as { duplicate?: unknown }).duplicate
+      : null;
+  return isDuplicateMatch(match) ? match : null;
+}
+
+export type SessionIngestStage = "validating" | "uploading";
+
+export interface IngestSessionFileOptions extends PrepareSessionFileOptions {
+  onStage?: (stage: SessionIngestStage, eventCount: number) => void;
+  onScrubbed?: (report: PiiScanReport) => void;
+  onImported?: (importer: SessionImporterInfo) => void;
+  // Decide se uma gravação já importada segue como nova sessão; sem handler, o envio falha com
+  // `SessionDuplicateError`.
+  onDuplicate?: (match: SessionDuplicateMatch) => Promise<boolean>;
+  // Envia mesmo que o índice do BFF já conheça a gravação.
+  force?: boolean;
+}
+
+function resolveIngestError({ status, data }: SessionUploadResponse): Error {
+  if (status === 409 && data && typeof data === "object" && "duplicate" in data) {
+    const match = (data as { duplicate?: unknown }).duplicate;
+    if (isDuplicateMatch(match)) {
+      return new SessionDuplicateError(match);
+    }
+  }
+
+  if (
+    status === 422 &&
+    data &&
+    typeof data === "object" &&
+    "validation" in data &&
+    isRrwebValidationReport((data as { validation?: unknown }).validation)
+  ) {
+    return new SessionValidationError((data as { validation: RrwebValidationReport }).validation);
+  }
+
+  return new Error(resolveIngestErrorMessage({ status, data }));
+}
+
+function resolveIngestErrorMessage({ status, data }: SessionUploadResponse): string {
+  const message =
+    data && typeof data === "object" && "error" in data && typeof (data as { error?: unknown }).error === "string"
+      ? (data as { error: string }).error
+      : `Erro ao enviar arquivo: ${status}`;
+
+  if (status === 502 || status === 503) {
+    return "A API está indisponível. Tente novamente mais tarde.";
+  }
+  if (status === 401 || status === 403) {
+    return message || "Acesso negado. Verifique sua autenticação e permissões.";
+  }
+  return message;
+}
+
+/**
+ * Fluxo completo de um arquivo: preparação no worker e envio para `/api/ingest`.
+ * Erros saem com a mensagem pronta para o usuário; gravações inválidas, como `SessionValidationError`.
+ */
+export async function ingestSessionFile(
+  file: File,
+  { onStage, onScrubbed, onImported, onDuplicate, force = false, ...options }: IngestSessionFileOptions
+): Promise<SessionJobSubmissionResponse> {
+  if (!isSupportedSessionFileName(file.name)) {
+    throw new Error("Por favor, envie arquivos .json, .ndjson ou .jsonl (opcionalmente compactados em .gz)");
+  }
+
+  const { onProgress, signal } = options;
+  onStage?.("validating", 0);
+  onProgress({ loaded: 0, total: file.size });
+  // Descompressão, parse, validação e remoção de dados pessoais rodam no worker para não travar a aba.
+  const prepared = await prepareSessionFile(file, options);
+  onImported?.(prepared.importer);
+  onScrubbed?.(prepared.scrubbed);
+
+  // A consulta evita subir a gravação inteira só para o BFF recusá-la como duplicada.
+  const duplicate = force ? null : await findDuplicateSession(prepared.contentHash, signal);
+  if (duplicate && !onDuplicate) {
+    throw new SessionDuplicateError(duplicate);
+  }
+  if (duplicate && !(await onDuplicate?.(duplicate))) {
+    throw new SessionUploadError("Envio cancelado: gravação já importada.", true);
+  }
+  const forceDuplicate = force || duplicate !== null;
+
+  onStage?.("uploading", prepared.eventCount);
+  onProgress({ loaded: 0, total: prepared.body.size });
+  // O upload envia o envelope bruto para preservar os metadados da sessão. O worker já converteu
+  // o arquivo para o envelope canônico, então o BFF pode repassá-lo em stream sem reimportar.
+  const response =
+    prepared.body.size > CHUNKED_UPLOAD_THRESHOLD
+      ? await uploadSessionBodyInChunks(
+          prepared.body,
+          buildUploadResumeKey(prepared),
+          forceDuplicate,
+          onProgress,
+          signal
+        )
+      : await sendWithProgress(
+          "POST",
+          "/api/ingest",
+          prepared.body,
+          {
+            "Content-Type": "application/json",
+            [SESSION_FORMAT_HEADER]: CANONICAL_IMPORTER_ID,
+            ...(forceDuplicate ? { [SESSION_DUPLICATE_HEADER]: FORCE_DUPLICATE_VALUE } : {}),
+          },
+          onProgress,
+          signal
+        );
+  const submission = parseSessionJobSubmission(response.data)?.data;
+
+  if (response.status < 200 || response.status >= 300 || !submission) {
+    throw resolveIngestError(response);
+  }
+
+  return submission;
+}
+
+export interface ImportSessionFromUrlOptions {
+  sessionMeta?: Record<string, unknown>;
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Pede ao BFF que baixe e importe a gravação de uma URL permitida ou de um caminho `s3://`.
+ * Duplicatas e gravações inválidas saem como no upload de arquivo.
+ */
+export async function importSessionFromUrl(
+  url: string,
+  { sessionMeta, force = false, signal }: ImportSessionFromUrlOptions = {}
+): Promise<SessionJobSubmissionResponse> {
+  const response = await requestJson("/api/ingest/url", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ url, session_meta: sessionMeta, force }),
+    signal,
+  });
+  const submission = parseSessionJobSubmission(response.data)?.data;
+
+  if (response.status < 200 || response.status >= 300 || !submission) {
+    throw resolveIngestError(response);
+  }
+
+  return submission;
+}
@@ -1,6 +1,22 @@
 import type { eventWithTime } from "@rrweb/types";
-
-export type JobStatus = "queued" | "processing" | "completed" | "failed";
+import type { z } from "zod";
+
+import type {
+  boundingBoxSchema,
+  insightEventSchema,
+  intentAnalysisSchema,
+  jobStatusSchema,
+  psychometricsSchema,
+  sessionHistoryItemSchema,
+  sessionJobStatusResponseSchema,
+  sessionJobSubmissionResponseSchema,
+  sessionProcessResponseSchema,
+  sessionProcessStatsSchema,
+  sessionReprocessResponseSchema,
+} from "@/lib/dashboard-contract";
+
+// Tipos das respostas do backend, derivados dos schemas de contrato em `lib/dashboard-contract.ts`.
+export type JobStatus = z.infer<typeof jobStatusSchema>;
 export type ProcessingStatus = "idle" | "uploading" | JobStatus;
 
 export type InsightSeverity = "low" | "medium" | "critical" | string;
@@ -8,85 +24,41 @@ export type InsightType = "accessibility" | "usability" | "heuristic" | string;
 
 export type RrwebSessionEvent = eventWithTime;
 
-export interface BoundingBox {
-  top: number;
-  left: number;
-  width: number;
-  height: number;
-}
+export type BoundingBox = z.infer<typeof boundingBoxSchema>;
 
-export interface InsightEvent {
-  id: string;
-  timestamp: number;
-  type: InsightType;
-  severity: InsightSeverity;
-  message: string;
-  boundingBox?: BoundingBox;
-}
+export type InsightEvent = z.infer<typeof insightEventSchema>;
 
-export interface SessionJobSubmissionResponse {
-  status: "queued";
-  message: string;
-  session_uuid: string;
-  user_id: string;
+export type SessionJobSubmissionResponse = z.infer<typeof sessionJobSubmissionResponseSchema>;
+
+/** Estado de um upload em partes criado em `/api/ingest/uploads`. */
+export interface ChunkedUploadStatus {
+  upload_id: string;
+  size: number;
+  chunk_size: number;
+  total_chunks: number;
+  received_chunks: number[];
+  expires_at: string;
 }
 
-export interface SessionReprocessResponse {
+/** Sessão já criada com o mesmo conteúdo de gravação, segundo o índice de hashes do BFF. */
+export interface SessionDuplicateMatch {
   session_uuid: string;
-  user_id: string;
-  status: "queued";
-  message: string;
+  created_at: string;
 }
 
-export interface SessionProcessStats {
-  total_events: number;
-  kinematic_vectors: number;
-  user_actions: number;
-  ml_insights: number;
-  rage_clicks: number;
-}
+export type SessionReprocessResponse = z.infer<typeof sessionReprocessResponseSchema>;
 
-export type Psychometrics = {
-  overall_confidence?: number;
-  goal_hypothesis?: Record<string, unknown>;
-  friction_points?: unknown[];
-  progress_signals?: unknown[];
-} & Record<string, unknown>;
+export type SessionProcessStats = z.infer<typeof sessionProcessStatsSchema>;
 
-export type IntentAnalysis = {
-  goal_hypothesis?: Record<string, unknown>;
-  hypotheses?: unknown[];
-  overall_confidence?: number;
-} & Record<string, unknown>;
+export type Psychometrics = z.infer<typeof psychometricsSchema>;
 
-export interface SessionProcessResponse {
-  session_uuid: string;
-  user_id: string;
-  narrative: string;
-  psychometrics: Psychometrics;
-  intent_analysis: IntentAnalysis;
-  insights: InsightEvent[];
-  stats: SessionProcessStats;
-  semantic_bundle?: unknown;
-  llm_output?: unknown;
-  structured_analysis?: Record<string, unknown> | null;
-}
+export type IntentAnalysis = z.infer<typeof intentAnalysisSchema>;
 
-export interface SessionJobStatusResponse {
-  session_uuid: string;
-  user_id: string;
-  status: JobStatus;
-  raw_status?: string;
-  processing_error: string | null;
-  result: SessionProcessResponse | null;
-}
+export type SessionProcessResponse = z.infer<typeof sessionProcessResponseSchema>;
 
-export interface SessionHistoryItem {
-  session_uuid: string;
-  status: JobStatus;
-  created_at: string;
-  narrative_preview: string | null;
-}
+export type SessionJobStatusResponse = z.infer<typeof sessionJobStatusResponseSchema>;
+
+export type SessionHistoryItem = z.infer<typeof sessionHistoryItemSchema>;
 
 export interface SessionRawMetadata {
   session_meta?: Record<string, unknown>;